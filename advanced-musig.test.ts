@@ -1,6 +1,21 @@
 import * as bitcoin from "bitcoinjs-lib";
 import * as bip39 from "bip39";
-import { AdvancedMultisigWallet } from "./advanced-musig";
+import { BIP32Factory } from "bip32";
+import { ECPairFactory } from "ecpair";
+import * as ecc from "tiny-secp256k1";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  AdvancedMultisigWallet,
+  CHANGE_CHAIN,
+  CosignerInfo,
+  RECEIVE_CHAIN,
+} from "./advanced-musig";
+import { createTestUtxo } from "./intermediate-musig-solution";
+
+const bip32 = BIP32Factory(ecc);
+const ECPair = ECPairFactory(ecc);
 
 describe("AdvancedMultisigWallet", () => {
   describe("Wallet Creation", () => {
@@ -15,6 +30,25 @@ describe("AdvancedMultisigWallet", () => {
       expect(addresses.p2wsh).toMatch(/^tb1/); // Testnet P2WSH starts with tb1
     });
 
+    it("should create a nested SegWit P2SH-P2WSH address", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3);
+      await wallet.generateWallet();
+
+      const addresses = wallet.getAddresses();
+      expect(addresses.p2shP2wsh).toMatch(/^2/); // Testnet P2SH starts with 2
+      expect(addresses.p2shP2wsh).not.toBe(addresses.p2sh);
+
+      const p2wsh = bitcoin.payments.p2wsh({
+        redeem: { output: wallet.getRedeemScript() },
+        network: bitcoin.networks.testnet,
+      });
+      const p2shP2wsh = bitcoin.payments.p2sh({
+        redeem: p2wsh,
+        network: bitcoin.networks.testnet,
+      });
+      expect(addresses.p2shP2wsh).toBe(p2shP2wsh.address);
+    });
+
     it("should generate correct number of mnemonics", async () => {
       const wallet = new AdvancedMultisigWallet(2, 3);
       await wallet.generateWallet();
@@ -33,8 +67,8 @@ describe("AdvancedMultisigWallet", () => {
 
       const paths = wallet.getDerivationPaths();
       expect(paths).toHaveLength(3);
-      paths.forEach((path, index) => {
-        expect(path).toBe(`m/48'/0'/0'/2'/${index}`);
+      paths.forEach((path) => {
+        expect(path).toBe("m/48'/0'/0'/2'");
       });
     });
 
@@ -61,6 +95,7 @@ describe("AdvancedMultisigWallet", () => {
       const addresses = wallet.getAddresses();
       expect(addresses.p2sh).toMatch(/^3/); // Mainnet P2SH starts with 3
       expect(addresses.p2wsh).toMatch(/^bc1/); // Mainnet P2WSH starts with bc1
+      expect(addresses.p2shP2wsh).toMatch(/^3/); // Mainnet P2SH-P2WSH starts with 3
     });
 
     it("should accept custom derivation path", async () => {
@@ -71,8 +106,8 @@ describe("AdvancedMultisigWallet", () => {
       await wallet.generateWallet();
 
       const paths = wallet.getDerivationPaths();
-      paths.forEach((path, index) => {
-        expect(path).toBe(`${customPath}/${index}`);
+      paths.forEach((path) => {
+        expect(path).toBe(customPath);
       });
     });
   });
@@ -97,7 +132,7 @@ describe("AdvancedMultisigWallet", () => {
       );
 
       expect(recoveredKeyPair.mnemonic).toBe(mnemonic);
-      expect(recoveredKeyPair.path).toBe(`m/48'/0'/0'/2'/${index}`);
+      expect(recoveredKeyPair.path).toBe("m/48'/0'/0'/2'");
       expect(recoveredKeyPair.publicKey).toBeTruthy();
       expect(recoveredKeyPair.privateKey).toBeTruthy();
     });
@@ -117,6 +152,111 @@ describe("AdvancedMultisigWallet", () => {
     });
   });
 
+  describe("Mnemonic Options", () => {
+    it("should generate mnemonics of the configured length and language", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        mnemonicWords: 12,
+        language: "spanish",
+      });
+      await wallet.generateWallet();
+
+      wallet.getMnemonics().forEach((mnemonic) => {
+        expect(mnemonic.split(" ")).toHaveLength(12);
+        expect(bip39.validateMnemonic(mnemonic, bip39.wordlists.spanish)).toBe(
+          true
+        );
+      });
+      const restored = await wallet.restoreFromMnemonic(
+        wallet.getMnemonics()[0],
+        0
+      );
+      expect(wallet.getDescriptor()).toContain(restored.xpub);
+      await expect(
+        wallet.restoreFromMnemonic(wallet.getMnemonics()[0], 0, {
+          language: "english",
+        })
+      ).rejects.toThrow("Invalid mnemonic");
+    });
+
+    it("should protect a signer's seed with a BIP39 passphrase", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        passphrases: [undefined, "cosigner secret"],
+      });
+      await wallet.generateWallet();
+      const mnemonic = wallet.getMnemonics()[1];
+
+      const restored = await wallet.restoreFromMnemonic(mnemonic, 1);
+      expect(restored.passphrase).toBe("cosigner secret");
+      expect(wallet.getDescriptor()).toContain(restored.xpub);
+      const withoutPassphrase = await wallet.restoreFromMnemonic(mnemonic, 1, {
+        passphrase: "",
+      });
+      expect(wallet.getDescriptor()).not.toContain(withoutPassphrase.xpub);
+
+      // The passphrase protected signer signs with its own seed
+      const spender = wallet.toMultisigWallet();
+      const psbt = spender.createTransaction(
+        [createTestUtxo(spender.getAddresses().p2wsh)],
+        [
+          {
+            address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+            value: BigInt(50000),
+          },
+        ],
+        1000
+      );
+      expect(spender.signWithMnemonic(psbt, mnemonic)).toEqual([
+        { index: 0, status: "notSignable" },
+      ]);
+      expect(wallet.signPsbt(psbt, 1)).toEqual([
+        { index: 0, status: "signed" },
+      ]);
+    });
+
+    it("should reject invalid mnemonic options", () => {
+      expect(
+        () => new AdvancedMultisigWallet(2, 3, { mnemonicWords: 13 as any })
+      ).toThrow("Mnemonic length must be 12, 15, 18, 21 or 24 words");
+      expect(
+        () => new AdvancedMultisigWallet(2, 3, { language: "klingon" as any })
+      ).toThrow("Unsupported wordlist language: klingon");
+      expect(
+        () =>
+          new AdvancedMultisigWallet(2, 3, {
+            passphrases: ["a", "b", "c", "d"],
+          })
+      ).toThrow("Number of passphrases cannot exceed total signers");
+    });
+  });
+
+  describe("Shamir Backups", () => {
+    it("should restore a signer from a threshold of mnemonic shares", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        passphrases: [undefined, undefined, "cosigner secret"],
+      });
+      await wallet.generateWallet();
+
+      // Two of three groups: the owner's 2-of-3 shares, a safe and a friend
+      const [owner, safe, friend] = wallet.getMnemonicShares(2, 2, [
+        { threshold: 2, count: 3 },
+        { threshold: 1, count: 1 },
+        { threshold: 1, count: 1 },
+      ]);
+      expect(owner).toHaveLength(3);
+
+      const restored = await wallet.restoreFromShares(
+        [owner[2], friend[0], owner[0]],
+        2
+      );
+      expect(restored.mnemonic).toBe(wallet.getMnemonics()[2]);
+      expect(restored.passphrase).toBe("cosigner secret");
+      expect(wallet.getDescriptor()).toContain(restored.xpub);
+      await expect(
+        wallet.restoreFromShares([owner[0], safe[0]], 2)
+      ).rejects.toThrow("Shares from 2 complete groups are required, got 1");
+    });
+  });
+
   describe("Wallet State", () => {
     it("should throw error when accessing addresses before initialization", () => {
       const wallet = new AdvancedMultisigWallet(2, 3);
@@ -135,4 +275,588 @@ describe("AdvancedMultisigWallet", () => {
       expect(addresses1).toEqual(addresses2);
     });
   });
+
+  describe("Address Chains", () => {
+    const basePath = "m/48'/0'/0'/2'";
+    const roots = [1, 2, 3].map((i) =>
+      bip32.fromSeed(Buffer.alloc(32, i), bitcoin.networks.testnet)
+    );
+    const cosigners: CosignerInfo[] = roots.map((root) => ({
+      xpub: root.derivePath(basePath).neutered().toBase58(),
+      masterFingerprint: Buffer.from(root.fingerprint).toString("hex"),
+      path: basePath,
+    }));
+
+    const expectedP2wsh = (path: string) =>
+      bitcoin.payments.p2wsh({
+        redeem: bitcoin.payments.p2ms({
+          m: 2,
+          pubkeys: roots
+            .map((root) =>
+              Buffer.from(root.derivePath(`${basePath}/${path}`).publicKey)
+            )
+            .sort((a, b) => a.compare(b)),
+          network: bitcoin.networks.testnet,
+        }),
+        network: bitcoin.networks.testnet,
+      }).address;
+
+    it("should derive receive and change addresses at /chain/index", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+
+      expect(wallet.getAddress(RECEIVE_CHAIN, 5).p2wsh).toBe(
+        expectedP2wsh("0/5")
+      );
+      expect(wallet.getAddress(CHANGE_CHAIN, 2).p2wsh).toBe(
+        expectedP2wsh("1/2")
+      );
+      expect(wallet.getAddresses().p2wsh).toBe(expectedP2wsh("0/0"));
+    });
+
+    it("should cache derived addresses", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+
+      expect(wallet.getAddress(RECEIVE_CHAIN, 3)).toBe(
+        wallet.getAddress(RECEIVE_CHAIN, 3)
+      );
+    });
+
+    it("should hand out fresh addresses up to the gap limit", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        cosigners,
+        gapLimit: 3,
+      });
+      await wallet.generateWallet();
+
+      expect(wallet.getNextAddress().index).toBe(0);
+      expect(wallet.getNextAddress().index).toBe(1);
+      expect(wallet.getNextAddress().index).toBe(2);
+      expect(() => wallet.getNextAddress()).toThrow("Gap limit reached");
+
+      wallet.markAddressUsed(RECEIVE_CHAIN, 1);
+      expect(wallet.getNextUnusedIndex(RECEIVE_CHAIN)).toBe(2);
+      expect(wallet.getNextAddress().index).toBe(3);
+      expect(wallet.getNextAddress(CHANGE_CHAIN).index).toBe(0);
+    });
+
+    it("should discover used addresses within the gap limit", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        cosigners,
+        gapLimit: 5,
+      });
+      await wallet.generateWallet();
+      const used = new Set([expectedP2wsh("0/0"), expectedP2wsh("0/4")]);
+
+      await wallet.discoverUsedAddresses(async (info) => used.has(info.p2wsh));
+
+      expect(wallet.getNextUnusedIndex(RECEIVE_CHAIN)).toBe(5);
+      expect(wallet.getNextUnusedIndex(CHANGE_CHAIN)).toBe(0);
+    });
+
+    it("should export a descriptor per chain", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+
+      expect(wallet.getDescriptor("p2wsh", CHANGE_CHAIN)).toContain("/1/*");
+      expect(
+        wallet.toMultisigWallet(CHANGE_CHAIN, 7).getAddresses().p2wsh
+      ).toBe(wallet.getAddress(CHANGE_CHAIN, 7).p2wsh);
+    });
+
+    it("should send change to a fresh change address", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+
+      const changeWallet = wallet.getChangeWallet();
+      expect(changeWallet.getAddresses().p2wsh).toBe(
+        wallet.getAddress(CHANGE_CHAIN, 0).p2wsh
+      );
+      expect(wallet.getChangeWallet().getAddresses().p2wsh).toBe(
+        wallet.getAddress(CHANGE_CHAIN, 1).p2wsh
+      );
+    });
+
+    it("should reject an invalid gap limit", () => {
+      expect(() => new AdvancedMultisigWallet(2, 3, { gapLimit: 0 })).toThrow(
+        "Gap limit must be a positive integer"
+      );
+    });
+  });
+
+  describe("Watch-only Wallet", () => {
+    const basePath = "m/48'/0'/0'/2'";
+    const roots = [1, 2, 3].map((i) =>
+      bip32.fromSeed(Buffer.alloc(32, i), bitcoin.networks.testnet)
+    );
+    const cosigners: CosignerInfo[] = roots.map((root) => ({
+      xpub: root.derivePath(basePath).neutered().toBase58(),
+      masterFingerprint: Buffer.from(root.fingerprint).toString("hex"),
+      path: basePath,
+    }));
+
+    it("should derive addresses from cosigner xpubs", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+
+      const expected = bitcoin.payments.p2wsh({
+        redeem: bitcoin.payments.p2ms({
+          m: 2,
+          pubkeys: roots
+            .map((root, i) =>
+              Buffer.from(root.derivePath(`${basePath}/0/0`).publicKey)
+            )
+            .sort((a, b) => a.compare(b)),
+          network: bitcoin.networks.testnet,
+        }),
+        network: bitcoin.networks.testnet,
+      });
+
+      expect(wallet.isWatchOnly()).toBe(true);
+      expect(wallet.getAddresses().p2wsh).toBe(expected.address);
+      expect(wallet.getDerivationPaths()).toEqual([
+        basePath,
+        basePath,
+        basePath,
+      ]);
+    });
+
+    it("should report that it has no mnemonics", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+
+      expect(() => wallet.getMnemonics()).toThrow(
+        "Watch-only wallet has no mnemonics"
+      );
+    });
+
+    it("should create PSBTs that cosigners can sign", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+      const spender = wallet.toMultisigWallet();
+
+      const psbt = spender.createTransaction(
+        [createTestUtxo(wallet.getAddresses().p2wsh)],
+        [
+          {
+            address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+            value: BigInt(50000),
+          },
+        ],
+        1000
+      );
+
+      [0, 1].forEach((i) => {
+        const child = roots[i].derivePath(`${basePath}/0/0`);
+        const keyPair = ECPair.fromPrivateKey(Buffer.from(child.privateKey!), {
+          network: bitcoin.networks.testnet,
+        });
+        expect(spender.signTransaction(psbt, keyPair, 0)).toBe(true);
+      });
+      expect(spender.finalizeTransaction(psbt)).toMatch(/^[0-9a-f]+$/);
+    });
+
+    it("should reject a cosigner count that doesn't match n", () => {
+      expect(
+        () =>
+          new AdvancedMultisigWallet(2, 3, { cosigners: cosigners.slice(0, 2) })
+      ).toThrow("Number of cosigners must match total signers");
+    });
+
+    it("should accept both hardened notations in cosigner paths", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        derivationPath: "m/48h/0h/0h/2h",
+        cosigners: cosigners.map((c) => ({
+          ...c,
+          path: c.path.replace(/'/g, "h"),
+        })),
+      });
+      await wallet.generateWallet();
+
+      expect(wallet.getDerivationPaths()).toEqual([
+        basePath,
+        basePath,
+        basePath,
+      ]);
+    });
+
+    it("should reject cosigners at a different derivation path", () => {
+      expect(
+        () =>
+          new AdvancedMultisigWallet(2, 3, {
+            cosigners: cosigners.map((c) => ({ ...c, path: "m/48'/1'/0'/2'" })),
+          })
+      ).toThrow("derivation path does not match");
+    });
+
+    it("should reject xpubs from another network", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        network: bitcoin.networks.bitcoin,
+        cosigners,
+      });
+      await expect(wallet.generateWallet()).rejects.toThrow(
+        "Invalid extended public key for cosigner 0"
+      );
+    });
+
+    it("should reject extended private keys", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        cosigners: cosigners.map((c, i) => ({
+          ...c,
+          xpub: roots[i].derivePath(basePath).toBase58(),
+        })),
+      });
+      await expect(wallet.generateWallet()).rejects.toThrow(
+        "Watch-only wallets must not be given private keys"
+      );
+    });
+  });
+
+  describe("PSBT Key Origins", () => {
+    const basePath = "m/48'/0'/0'/2'";
+    const network = bitcoin.networks.testnet;
+    const roots = [1, 2, 3].map((i) =>
+      bip32.fromSeed(Buffer.alloc(32, i), network)
+    );
+    const cosigners: CosignerInfo[] = roots.map((root) => ({
+      xpub: root.derivePath(basePath).neutered().toBase58(),
+      masterFingerprint: Buffer.from(root.fingerprint).toString("hex"),
+      path: basePath,
+    }));
+    const outputs = [
+      {
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: BigInt(50000),
+      },
+    ];
+    const utxo = (vout: number, address: string) =>
+      createTestUtxo(address, 100000, vout, network);
+
+    it("should record every cosigner key origin and xpub", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+      const spender = wallet.toMultisigWallet(RECEIVE_CHAIN, 3);
+      const changeWallet = wallet.getChangeWallet();
+
+      const psbt = spender.createTransaction(
+        [utxo(0, spender.getAddresses().p2wsh)],
+        outputs,
+        1000,
+        { changeWallet }
+      );
+
+      const derivations = psbt.data.inputs[0].bip32Derivation!;
+      expect(derivations).toHaveLength(3);
+      roots.forEach((root, i) => {
+        expect(derivations[i].masterFingerprint).toEqual(
+          Buffer.from(root.fingerprint)
+        );
+        expect(derivations[i].path).toBe(`${basePath}/0/3`);
+        expect(derivations[i].pubkey).toEqual(
+          Buffer.from(root.derivePath(`${basePath}/0/3`).publicKey)
+        );
+      });
+      expect(psbt.data.outputs[1].bip32Derivation!.map((d) => d.path)).toEqual(
+        [1, 2, 3].map(() => `${basePath}/1/0`)
+      );
+
+      const globalXpub = psbt.data.globalMap.globalXpub!;
+      expect(globalXpub).toHaveLength(3);
+      expect(globalXpub[0].path).toBe(basePath);
+      const xpub = bip32.fromBase58(cosigners[0].xpub, network);
+      expect(globalXpub[0].extendedPubkey.subarray(13, 45)).toEqual(
+        Buffer.from(xpub.chainCode)
+      );
+      expect(globalXpub[0].extendedPubkey.subarray(45)).toEqual(
+        Buffer.from(xpub.publicKey)
+      );
+    });
+
+    it("should let external signers find their keys from an xprv", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+      const spender = wallet.toMultisigWallet(RECEIVE_CHAIN, 1);
+      const { p2shP2wsh, p2tr } = spender.getAddresses();
+      const psbt = spender.createTransaction(
+        [utxo(0, p2shP2wsh), utxo(1, p2tr)],
+        outputs,
+        1000
+      );
+      expect(psbt.data.inputs[1].tapBip32Derivation).toHaveLength(3);
+
+      // Signer 0 uses its master key, signer 2 its account key
+      const statuses = [
+        spender.signWithExtendedKey(psbt, roots[0].toBase58()),
+        spender.signWithExtendedKey(
+          psbt,
+          roots[2].derivePath(basePath).toBase58()
+        ),
+      ].map((results) => results.map((r) => r.status));
+      expect(statuses).toEqual([
+        ["signed", "signed"],
+        ["signed", "signed"],
+      ]);
+      expect(spender.finalizeTransaction(psbt)).toMatch(/^[0-9a-f]+$/);
+    });
+
+    it("should report keys that aren't in the derivation records", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, { cosigners });
+      await wallet.generateWallet();
+      const spender = wallet.toMultisigWallet();
+      const psbt = spender.createTransaction(
+        [utxo(0, spender.getAddresses().p2wsh)],
+        outputs,
+        1000
+      );
+
+      const stranger = bip32.fromSeed(Buffer.alloc(32, 9), network);
+      expect(spender.signWithExtendedKey(psbt, stranger.toBase58())).toEqual([
+        { index: 0, status: "notSignable" },
+      ]);
+      expect(() =>
+        spender.signWithExtendedKey(psbt, cosigners[0].xpub)
+      ).toThrow("Extended key has no private key");
+    });
+
+    it("should sign with the wallet's own mnemonics", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3);
+      await wallet.generateWallet();
+      const spender = wallet.toMultisigWallet();
+      const psbt = spender.createTransaction(
+        [utxo(0, spender.getAddresses().p2wsh)],
+        outputs,
+        1000
+      );
+
+      expect(wallet.signPsbt(psbt, 0)).toEqual([
+        { index: 0, status: "signed" },
+      ]);
+      expect(spender.signWithMnemonic(psbt, wallet.getMnemonics()[1])).toEqual([
+        { index: 0, status: "signed" },
+      ]);
+      expect(spender.finalizeTransaction(psbt)).toMatch(/^[0-9a-f]+$/);
+    });
+  });
+
+  describe("Spending Policies", () => {
+    const policy = "or(thresh(2,pk(A),pk(B),pk(C)),and(pk(R),older(26280)))";
+    const outputs = [
+      {
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: BigInt(50000),
+      },
+    ];
+
+    it("should derive addresses from a policy with one signer per key", async () => {
+      const wallet = new AdvancedMultisigWallet({ policy });
+      await wallet.generateWallet();
+
+      expect(wallet.getMnemonics()).toHaveLength(4);
+      expect(wallet.getAddresses().p2tr).toBeUndefined();
+      expect(() => wallet.getMusigKeyAggContext()).toThrow(
+        "MuSig2 key aggregation requires an n-of-n wallet"
+      );
+      expect(wallet.getDescriptor()).toMatch(/^wsh\(or_d\(multi\(2,\[/);
+
+      const spender = wallet.toMultisigWallet(RECEIVE_CHAIN, 3);
+      const address = wallet.getAddress(RECEIVE_CHAIN, 3);
+      expect(spender.getAddresses().p2wsh).toBe(address.p2wsh);
+      expect(spender.getRedeemScript()).toEqual(address.redeemScript);
+    });
+
+    it("should let the recovery signer spend after the timelock", async () => {
+      const wallet = new AdvancedMultisigWallet({ policy });
+      await wallet.generateWallet();
+      const spender = wallet.toMultisigWallet();
+      const psbt = spender.createTransaction(
+        [createTestUtxo(spender.getAddresses().p2wsh)],
+        outputs,
+        1000,
+        { timelock: { type: "relative", blocks: 26280 } }
+      );
+
+      expect(wallet.signPsbt(psbt, 3)).toEqual([
+        { index: 0, status: "signed" },
+      ]);
+      expect(
+        spender.finalizeTransaction(psbt, { verifyScripts: true })
+      ).toMatch(/^[0-9a-f]+$/);
+    });
+
+    it("should reject a policy next to m and n", () => {
+      expect(() => new AdvancedMultisigWallet(2, 3, { policy })).toThrow(
+        "A policy replaces the m-of-n signature requirements"
+      );
+    });
+  });
+
+  describe("Wallet Files", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "wallet-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should save and load a wallet with encrypted secrets", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3, {
+        mnemonicWords: 12,
+        passphrases: ["seed passphrase"],
+      });
+      await wallet.generateWallet();
+      wallet.markAddressUsed(RECEIVE_CHAIN, 4);
+      const file = path.join(dir, "wallet.json");
+      await wallet.saveToFile(file, "correct horse", { scryptCost: 1 << 10 });
+
+      const content = fs.readFileSync(file, "utf8");
+      wallet.getMnemonics().forEach((mnemonic) => {
+        expect(content).not.toContain(mnemonic);
+      });
+      expect(content).not.toContain("seed passphrase");
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+
+      const loaded = await AdvancedMultisigWallet.loadFromFile(
+        file,
+        "correct horse"
+      );
+      expect(loaded.isWatchOnly()).toBe(false);
+      expect(loaded.getMnemonics()).toEqual(wallet.getMnemonics());
+      expect(loaded.getAddresses()).toEqual(wallet.getAddresses());
+      expect(loaded.getNextUnusedIndex(RECEIVE_CHAIN)).toBe(5);
+      expect(loaded.getDescriptor()).toBe(wallet.getDescriptor());
+      expect(
+        (await loaded.restoreFromMnemonic(loaded.getMnemonics()[0], 0)).xpub
+      ).toBe(
+        (await wallet.restoreFromMnemonic(wallet.getMnemonics()[0], 0)).xpub
+      );
+    });
+
+    it("should open watch-only without the passphrase", async () => {
+      const wallet = new AdvancedMultisigWallet({
+        policy: "or(thresh(2,pk(A),pk(B),pk(C)),and(pk(R),older(26280)))",
+      });
+      await wallet.generateWallet();
+      const file = path.join(dir, "wallet.json");
+      await wallet.saveToFile(file, "correct horse", { scryptCost: 1 << 10 });
+
+      const watchOnly = await AdvancedMultisigWallet.loadFromFile(file);
+      expect(watchOnly.isWatchOnly()).toBe(true);
+      expect(() => watchOnly.getMnemonics()).toThrow(
+        "Watch-only wallet has no mnemonics"
+      );
+      expect(watchOnly.getDescriptor()).toBe(wallet.getDescriptor());
+
+      // A watch-only wallet saves without a passphrase
+      const copy = path.join(dir, "watch-only.json");
+      await watchOnly.saveToFile(copy);
+      expect(JSON.parse(fs.readFileSync(copy, "utf8")).secrets).toBeUndefined();
+      await expect(wallet.saveToFile(copy)).rejects.toThrow(
+        "A passphrase is required to save private keys"
+      );
+    });
+
+    it("should keep the secrets when a watch-only wallet saves in place", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3);
+      await wallet.generateWallet();
+      const file = path.join(dir, "wallet.json");
+      await wallet.saveToFile(file, "correct horse", { scryptCost: 1 << 10 });
+
+      const watchOnly = await AdvancedMultisigWallet.loadFromFile(file);
+      await expect(watchOnly.saveToFile(file)).rejects.toThrow(
+        "A watch-only wallet cannot overwrite a wallet file with secrets"
+      );
+      const loaded = await AdvancedMultisigWallet.loadFromFile(
+        file,
+        "correct horse"
+      );
+      expect(loaded.getMnemonics()).toEqual(wallet.getMnemonics());
+    });
+
+    it("should reject wrong passphrases and tampered files", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3);
+      await wallet.generateWallet();
+      const file = await wallet.exportWalletFile("correct horse", {
+        scryptCost: 1 << 10,
+      });
+
+      await expect(
+        AdvancedMultisigWallet.fromWalletFile(file, "battery staple")
+      ).rejects.toThrow("Wrong passphrase");
+      await expect(
+        AdvancedMultisigWallet.fromWalletFile(
+          { ...file, gapLimit: 100 },
+          "correct horse"
+        )
+      ).rejects.toThrow("Wallet file has been tampered with");
+
+      // Replacing a public key breaks the link to the cosigner's xpub
+      const [first, ...rest] = file.cosigners;
+      const swapped = { ...first, publicKey: rest[0].publicKey };
+      await expect(
+        AdvancedMultisigWallet.fromWalletFile({
+          ...file,
+          cosigners: [swapped, ...rest],
+        })
+      ).rejects.toThrow("Cosigner 0 public key does not match its xpub");
+    });
+  });
+
+  describe("Setup Files", () => {
+    it("should import an exported setup file as a watch-only wallet", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3);
+      await wallet.generateWallet();
+      const setup = wallet.exportSetupFile("Vault");
+
+      expect(setup).toContain("Policy: 2 of 3");
+      expect(setup).toContain("Derivation: m/48'/0'/0'/2'");
+      expect(setup).toContain("Format: P2WSH");
+      const imported = AdvancedMultisigWallet.importSetupFile(setup, 2, 3);
+      expect(imported.getAddresses().p2wsh).toBe(wallet.getAddresses().p2wsh);
+      expect(
+        AdvancedMultisigWallet.importSetupFile(setup, 2, 3, {
+          derivationPath: "m/48h/0h/0h/2h",
+        }).getAddresses().p2wsh
+      ).toBe(wallet.getAddresses().p2wsh);
+
+      const nested = AdvancedMultisigWallet.importSetupFile(
+        wallet.exportSetupFile("Vault", "p2shP2wsh"),
+        2,
+        3,
+        {},
+        RECEIVE_CHAIN,
+        1
+      );
+      expect(nested.getAddresses().p2shP2wsh).toBe(
+        wallet.getAddress(RECEIVE_CHAIN, 1).p2shP2wsh
+      );
+    });
+
+    it("should reject setup files that don't match the wallet", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3);
+      await wallet.generateWallet();
+      const setup = wallet.exportSetupFile("Vault");
+
+      expect(() => AdvancedMultisigWallet.importSetupFile(setup, 3, 3)).toThrow(
+        "Setup file policy 2 of 3 does not match 3-of-3"
+      );
+      expect(() =>
+        AdvancedMultisigWallet.importSetupFile(setup, 2, 3, {
+          derivationPath: "m/48'/1'/0'/2'",
+        })
+      ).toThrow(
+        "Setup file derivation m/48'/0'/0'/2' does not match m/48'/1'/0'/2'"
+      );
+      const policyWallet = new AdvancedMultisigWallet({
+        policy: "or(pk(A),and(pk(B),older(100)))",
+      });
+      await policyWallet.generateWallet();
+      expect(() => policyWallet.exportSetupFile("Vault")).toThrow(
+        "Setup files only describe m-of-n multisig wallets"
+      );
+    });
+  });
 });
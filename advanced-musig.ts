@@ -2,6 +2,52 @@ import * as bitcoin from "bitcoinjs-lib";
 import { BIP32Factory } from "bip32";
 import * as ecc from "tiny-secp256k1";
 import * as bip39 from "bip39";
+import { IMultisigWallet } from "./musig-wallet.interface";
+import {
+  DescriptorKey,
+  DescriptorScriptType,
+  formatMiniscriptDescriptor,
+  formatMultisigDescriptor,
+} from "./descriptors";
+import {
+  InputSigningResult,
+  MnemonicLanguage,
+  MultisigWallet,
+  getWordlist,
+} from "./intermediate-musig-solution";
+import {
+  KeyAggContext,
+  MusigSigningSession,
+  createTaprootSigningSession,
+  getXOnlyPublicKey,
+  keyAgg,
+  keySort,
+} from "./musig2";
+import {
+  Miniscript,
+  compilePolicy,
+  getMiniscriptKeys,
+  miniscriptToScript,
+  minimumSignatures,
+} from "./miniscript";
+import {
+  KdfOptions,
+  WALLET_FILE_VERSION,
+  WalletFile,
+  decryptSecrets,
+  encryptSecrets,
+  parseWalletFile,
+  readWalletFile,
+  validateWalletFile,
+  writeWalletFile,
+} from "./wallet-file";
+import { NETWORKS, getNetworkByName, getNetworkName } from "./networks";
+import { ShamirGroup, combineShares, generateShares } from "./shamir";
+import {
+  formatSetupFile,
+  normalizeDerivation,
+  parseSetupFile,
+} from "./setup-file";
 
 // Initialize cryptographic libraries
 const bip32 = BIP32Factory(ecc);
@@ -17,26 +63,104 @@ const log = {
   },
 };
 
+/**
+ * Public key information of a cosigner in a watch-only wallet
+ * @property xpub - Extended public key at the wallet derivation path
+ * @property masterFingerprint - Hex fingerprint of the cosigner's master key
+ * @property path - Derivation path of the extended public key
+ */
+export interface CosignerInfo {
+  xpub: string;
+  masterFingerprint: string;
+  path: string;
+}
+
 /**
  * Configuration options for the multisig wallet
  * @property network - Bitcoin network (mainnet/testnet)
  * @property derivationPath - Custom BIP32 derivation path
+ * @property cosigners - Cosigner xpubs, creates a watch-only wallet
+ * @property gapLimit - Maximum number of consecutive unused addresses
+ * @property policy - Spending policy in place of the m-of-n pair, e.g.
+ *   or(thresh(2,pk(A),pk(B),pk(C)),and(pk(R),older(26280))). Its key
+ *   names are the cosigners in order of first appearance.
+ * @property mnemonicWords - Length of generated mnemonics (defaults to 24)
+ * @property passphrases - BIP39 passphrase of each signer, by signer index
+ * @property language - Wordlist of the mnemonics (defaults to English)
  */
-interface WalletConfig {
+export interface WalletConfig {
   network?: bitcoin.Network;
   derivationPath?: string;
+  cosigners?: CosignerInfo[];
+  gapLimit?: number;
+  policy?: string;
+  mnemonicWords?: MnemonicWordCount;
+  passphrases?: (string | undefined)[];
+  language?: MnemonicLanguage;
+}
+
+/**
+ * BIP39 mnemonic lengths, from 128 bits (12 words) to 256 bits (24 words)
+ * of entropy
+ */
+export type MnemonicWordCount = 12 | 15 | 18 | 21 | 24;
+
+/**
+ * Options for restoring a key pair from its mnemonic
+ * @property passphrase - BIP39 passphrase (defaults to the signer's
+ *   configured passphrase)
+ * @property language - Wordlist of the mnemonic (defaults to the wallet's)
+ */
+export interface MnemonicOptions {
+  passphrase?: string;
+  language?: MnemonicLanguage;
+}
+
+/**
+ * BIP44 style address chains below each cosigner's account key
+ */
+export const RECEIVE_CHAIN = 0;
+export const CHANGE_CHAIN = 1;
+export type AddressChain = typeof RECEIVE_CHAIN | typeof CHANGE_CHAIN;
+
+/**
+ * A derived multisig address on one of the wallet's chains
+ * @property chain - Receive (0) or change (1) chain
+ * @property index - Address index on the chain
+ * @property p2sh - Legacy P2SH address
+ * @property p2wsh - Native SegWit P2WSH address
+ * @property p2shP2wsh - Nested SegWit P2SH-P2WSH address
+ * @property p2tr - MuSig2 Taproot key-path address (n-of-n only)
+ * @property redeemScript - Multisig (or spending policy) redeem/witness script
+ * @property publicKeys - Sorted child public keys of all cosigners
+ */
+export interface AddressInfo {
+  chain: AddressChain;
+  index: number;
+  p2sh: string;
+  p2wsh: string;
+  p2shP2wsh: string;
+  p2tr?: string;
+  redeemScript: Buffer;
+  publicKeys: Buffer[];
 }
 
 /**
  * Information about a key pair in the multisig wallet
- * @property mnemonic - BIP39 mnemonic phrase for key recovery
- * @property path - Full derivation path including index
- * @property publicKey - Public key buffer
- * @property privateKey - Optional private key buffer
+ * @property mnemonic - BIP39 mnemonic phrase for key recovery (absent when watch-only)
+ * @property passphrase - BIP39 passphrase protecting the seed, if any
+ * @property path - Account derivation path
+ * @property masterFingerprint - Hex fingerprint of the BIP32 master key
+ * @property xpub - Account extended public key at the derivation path
+ * @property publicKey - Account public key buffer
+ * @property privateKey - Optional account private key buffer
  */
 interface KeyPairInfo {
-  mnemonic: string;
+  mnemonic?: string;
+  passphrase?: string;
   path: string;
+  masterFingerprint: string;
+  xpub: string;
   publicKey: Buffer;
   privateKey?: Buffer;
 }
@@ -45,20 +169,30 @@ interface KeyPairInfo {
  * Advanced Multisig Wallet implementation with HD wallet support
  * Implements BIP32 for hierarchical deterministic wallets
  * Implements BIP39 for mnemonic backup
- * Supports both P2SH and P2WSH (native SegWit) addresses
+ * Supports P2SH, P2WSH (native SegWit) and P2SH-P2WSH (nested SegWit) addresses
+ * Supports MuSig2 (BIP327) Taproot key-path addresses for n-of-n wallets
+ * Supports miniscript spending policies in place of m-of-n multisig
+ * Derives receive (/0/i) and change (/1/i) chains from each cosigner's
+ * account key with gap limit tracking
+ * Saves to and loads from wallet files with passphrase encrypted secrets
+ * Exports and imports Coldcard/Sparrow multisig setup files
  */
-export class AdvancedMultisigWallet {
+export class AdvancedMultisigWallet implements IMultisigWallet {
   private requiredSignatures: number; // Number of signatures required (m)
   private totalSigners: number; // Total number of signers (n)
   private network: bitcoin.Network; // Bitcoin network configuration
   private derivationPath: string; // Base derivation path
   private keyPairs: KeyPairInfo[]; // Array of key pair information
-  private redeemScript?: Buffer; // Multisig redeem script
-  private addresses?: {
-    // Wallet addresses
-    p2sh: string; // Legacy P2SH address
-    p2wsh: string; // Native SegWit P2WSH address
-  };
+  private cosigners?: CosignerInfo[]; // Cosigner xpubs for watch-only wallets
+  private gapLimit: number; // Maximum consecutive unused addresses per chain
+  private addressCache: Map<string, AddressInfo>; // Derived addresses by "chain/index"
+  private lastUsedIndex: number[]; // Highest used index per chain (-1 if none)
+  private nextIndex: number[]; // Next index to hand out per chain
+  private policy?: Miniscript; // Compiled spending policy replacing m-of-n
+  private policyText?: string; // The policy as configured, for wallet files
+  private mnemonicWords: MnemonicWordCount; // Length of generated mnemonics
+  private passphrases: (string | undefined)[]; // BIP39 passphrase per signer
+  private language: MnemonicLanguage; // Wordlist of the mnemonics
 
   /**
    * Creates a new multisig wallet
@@ -69,51 +203,138 @@ export class AdvancedMultisigWallet {
   constructor(
     requiredSignatures: number,
     totalSigners: number,
-    config: WalletConfig = {}
+    config?: WalletConfig
+  );
+  /**
+   * Creates a wallet spending under a policy, with one signer per key name
+   * @param config - Wallet configuration including the policy
+   */
+  constructor(config: WalletConfig & { policy: string });
+  constructor(
+    requiredSignaturesOrConfig: number | WalletConfig,
+    totalSignersOrUndefined?: number,
+    walletConfig: WalletConfig = {}
   ) {
-    // Validate m-of-n requirements
-    if (
-      requiredSignatures <= 0 ||
-      totalSigners <= 0 ||
-      requiredSignatures > totalSigners
-    ) {
-      throw new Error("Invalid signature requirements");
+    let requiredSignatures: number;
+    let totalSigners: number;
+    let config: WalletConfig;
+    if (typeof requiredSignaturesOrConfig === "number") {
+      requiredSignatures = requiredSignaturesOrConfig;
+      totalSigners = totalSignersOrUndefined ?? 0;
+      config = walletConfig;
+      if (config.policy) {
+        throw new Error("A policy replaces the m-of-n signature requirements");
+      }
+      // Validate m-of-n requirements
+      if (
+        requiredSignatures <= 0 ||
+        totalSigners <= 0 ||
+        requiredSignatures > totalSigners
+      ) {
+        throw new Error("Invalid signature requirements");
+      }
+    } else {
+      config = requiredSignaturesOrConfig;
+      if (!config.policy) {
+        throw new Error(
+          "A policy or the m-of-n signature requirements are required"
+        );
+      }
+      this.policy = compilePolicy(config.policy);
+      this.policyText = config.policy;
+      requiredSignatures = minimumSignatures(this.policy);
+      totalSigners = getMiniscriptKeys(this.policy).length;
     }
 
     this.requiredSignatures = requiredSignatures;
     this.totalSigners = totalSigners;
     this.network = config.network || bitcoin.networks.testnet;
-    this.derivationPath = config.derivationPath || "m/48'/0'/0'/2'"; // BIP48 multisig path
+    this.derivationPath = normalizeDerivation(
+      config.derivationPath || "m/48'/0'/0'/2'" // BIP48 multisig path
+    );
     this.keyPairs = [];
+    this.gapLimit = config.gapLimit ?? 20;
+    this.addressCache = new Map<string, AddressInfo>();
+    this.lastUsedIndex = [-1, -1];
+    this.nextIndex = [0, 0];
+    this.mnemonicWords = config.mnemonicWords ?? 24;
+    this.passphrases = config.passphrases ?? [];
+    this.language = config.language ?? "english";
+
+    if (!Number.isInteger(this.gapLimit) || this.gapLimit <= 0) {
+      throw new Error("Gap limit must be a positive integer");
+    }
+    if (![12, 15, 18, 21, 24].includes(this.mnemonicWords)) {
+      throw new Error("Mnemonic length must be 12, 15, 18, 21 or 24 words");
+    }
+    if (this.passphrases.length > totalSigners) {
+      throw new Error("Number of passphrases cannot exceed total signers");
+    }
+    getWordlist(this.language);
+
+    if (config.cosigners) {
+      if (config.cosigners.length !== totalSigners) {
+        throw new Error("Number of cosigners must match total signers");
+      }
+      config.cosigners.forEach((cosigner, index) => {
+        if (!/^[0-9a-fA-F]{8}$/.test(cosigner.masterFingerprint)) {
+          throw new Error(`Invalid master fingerprint for cosigner ${index}`);
+        }
+        if (normalizeDerivation(cosigner.path) !== this.derivationPath) {
+          throw new Error(
+            `Cosigner ${index} derivation path does not match ${this.derivationPath}`
+          );
+        }
+      });
+      this.cosigners = config.cosigners;
+    }
 
     log.info(
-      `Initializing ${requiredSignatures}-of-${totalSigners} multisig wallet`,
+      this.policy
+        ? `Initializing policy wallet with ${totalSigners} signers`
+        : `Initializing ${requiredSignatures}-of-${totalSigners} multisig wallet`,
       {
         network:
-          this.network === bitcoin.networks.bitcoin ? "mainnet" : "testnet",
+          Object.keys(NETWORKS).find(
+            (name) => NETWORKS[name] === this.network
+          ) ?? "custom",
         basePath: this.derivationPath,
+        watchOnly: this.isWatchOnly(),
       }
     );
   }
 
+  /**
+   * Whether the wallet was created from cosigner xpubs and holds no
+   * private keys
+   */
+  public isWatchOnly(): boolean {
+    return !!this.cosigners;
+  }
+
   /**
    * Generates a complete wallet with all key pairs
-   * Creates both P2SH and P2WSH addresses
+   * Watch-only wallets derive public keys from the cosigner xpubs instead
+   * Creates P2SH, P2WSH and P2SH-P2WSH addresses
    */
   public async generateWallet(): Promise<void> {
     log.info("Starting wallet generation...");
+    this.keyPairs = [];
+    this.addressCache.clear();
 
     for (let i = 0; i < this.totalSigners; i++) {
-      const keyPair = await this.generateKeyPair(i);
+      const keyPair = this.cosigners
+        ? this.deriveCosignerKey(this.cosigners[i], i)
+        : await this.generateKeyPair(i);
       this.keyPairs.push(keyPair);
       log.info(`Generated key pair ${i + 1}/${this.totalSigners}`, {
         path: keyPair.path,
       });
     }
 
-    this.createMultisigAddresses();
+    const { p2sh, p2wsh, p2shP2wsh, p2tr } = this.getAddress(RECEIVE_CHAIN, 0);
     log.info("Wallet generation complete", {
-      addresses: this.addresses,
+      addresses: { p2sh, p2wsh, p2shP2wsh, p2tr },
     });
   }
 
@@ -123,13 +344,18 @@ export class AdvancedMultisigWallet {
    * @returns KeyPairInfo containing the generated keys and backup info
    */
   private async generateKeyPair(index: number): Promise<KeyPairInfo> {
-    // Generate mnemonic with 256-bit entropy (24 words)
-    const mnemonic = bip39.generateMnemonic(256);
-    const seed = await bip39.mnemonicToSeed(mnemonic);
+    // Every 3 words encode 32 bits of entropy (24 words: 256 bits)
+    const mnemonic = bip39.generateMnemonic(
+      (this.mnemonicWords / 3) * 32,
+      undefined,
+      getWordlist(this.language)
+    );
+    const passphrase = this.passphrases[index];
+    const seed = await bip39.mnemonicToSeed(mnemonic, passphrase);
 
-    // Derive master node and child key
+    // Derive master node and account key
     const root = bip32.fromSeed(seed, this.network);
-    const path = `${this.derivationPath}/${index}`;
+    const path = this.derivationPath;
     const child = root.derivePath(path);
 
     if (!child.privateKey) {
@@ -139,41 +365,91 @@ export class AdvancedMultisigWallet {
 
     return {
       mnemonic,
+      passphrase,
       path,
+      masterFingerprint: Buffer.from(root.fingerprint).toString("hex"),
+      xpub: child.neutered().toBase58(),
       publicKey: Buffer.from(child.publicKey),
       privateKey: Buffer.from(child.privateKey),
     };
   }
 
   /**
-   * Creates P2SH and P2WSH addresses from public keys
-   * Uses sorted public keys for deterministic address generation
+   * Loads a cosigner's account public key from its extended public key
+   * @param cosigner - Cosigner xpub information
+   * @param index - Index of the cosigner in the wallet
+   * @returns KeyPairInfo without private key or mnemonic
    */
-  private createMultisigAddresses(): void {
-    log.info("Creating multisig addresses...");
+  private deriveCosignerKey(
+    cosigner: CosignerInfo,
+    index: number
+  ): KeyPairInfo {
+    let node;
+    try {
+      node = bip32.fromBase58(cosigner.xpub, this.network);
+    } catch (error) {
+      log.warn(`Invalid extended public key for cosigner ${index}`);
+      throw new Error(`Invalid extended public key for cosigner ${index}`);
+    }
+    if (!node.isNeutered()) {
+      throw new Error("Watch-only wallets must not be given private keys");
+    }
+    if (node.depth !== this.derivationPath.split("/").length - 1) {
+      throw new Error(
+        `Cosigner ${index} xpub depth does not match its derivation path`
+      );
+    }
 
+    return {
+      path: this.derivationPath,
+      masterFingerprint: cosigner.masterFingerprint.toLowerCase(),
+      xpub: cosigner.xpub,
+      publicKey: Buffer.from(node.publicKey),
+    };
+  }
+
+  /**
+   * Creates P2SH, P2WSH and P2SH-P2WSH addresses from the cosigners' child
+   * public keys at chain/index
+   * Uses sorted public keys for deterministic address generation, or binds
+   * them to the policy's key names in cosigner order
+   * @param chain - Receive or change chain
+   * @param index - Address index on the chain
+   */
+  private createMultisigAddresses(
+    chain: AddressChain,
+    index: number
+  ): AddressInfo {
+    const childKeys = this.keyPairs.map((kp) =>
+      Buffer.from(
+        bip32.fromBase58(kp.xpub, this.network).derive(chain).derive(index)
+          .publicKey
+      )
+    );
     // Sort public keys for deterministic script creation
-    const publicKeys = this.keyPairs
-      .map((kp) => kp.publicKey)
-      .sort((a, b) => a.compare(b));
-
-    // Create multisig redeem script
-    const redeemScript = bitcoin.payments.p2ms({
-      m: this.requiredSignatures,
-      pubkeys: publicKeys,
-      network: this.network,
-    }).output;
+    const publicKeys = [...childKeys].sort((a, b) => a.compare(b));
+
+    // Create multisig or spending policy redeem script
+    let redeemScript: Buffer | undefined;
+    if (this.policy) {
+      const names = getMiniscriptKeys(this.policy);
+      redeemScript = miniscriptToScript(
+        this.policy,
+        (name) => childKeys[names.indexOf(name)]
+      );
+    } else {
+      redeemScript = bitcoin.payments.p2ms({
+        m: this.requiredSignatures,
+        pubkeys: publicKeys,
+        network: this.network,
+      }).output;
+    }
 
     if (!redeemScript) {
       log.warn("Failed to create redeem script");
       throw new Error("Failed to create redeem script");
     }
 
-    this.redeemScript = redeemScript;
-    log.info("Created redeem script", {
-      scriptHex: redeemScript.toString("hex").slice(0, 32) + "...",
-    });
-
     // Generate legacy P2SH address
     const p2sh = bitcoin.payments.p2sh({
       redeem: { output: redeemScript, network: this.network },
@@ -186,27 +462,193 @@ export class AdvancedMultisigWallet {
       network: this.network,
     });
 
-    if (!p2sh.address || !p2wsh.address) {
+    // Generate nested SegWit P2SH-P2WSH address
+    const p2shP2wsh = bitcoin.payments.p2sh({
+      redeem: p2wsh,
+      network: this.network,
+    });
+
+    if (!p2sh.address || !p2wsh.address || !p2shP2wsh.address) {
       log.warn("Failed to generate addresses");
       throw new Error("Failed to generate addresses");
     }
 
-    this.addresses = {
+    const info: AddressInfo = {
+      chain,
+      index,
       p2sh: p2sh.address,
       p2wsh: p2wsh.address,
+      p2shP2wsh: p2shP2wsh.address,
+      redeemScript,
+      publicKeys,
     };
+
+    // MuSig2 needs every signer, so only n-of-n wallets get a key-path address
+    if (this.isNofN()) {
+      info.p2tr = this.createMusigAddress(publicKeys);
+    }
+
+    return info;
   }
 
-  // Getter methods
-  public getAddresses() {
-    if (!this.addresses) {
+  // Whether every signer must sign, which a spending policy never implies
+  private isNofN(): boolean {
+    return !this.policy && this.requiredSignatures === this.totalSigners;
+  }
+
+  /**
+   * Creates a Taproot key-path address from the MuSig2 aggregate of the
+   * sorted public keys
+   * @param publicKeys - Sorted public keys of all signers
+   */
+  private createMusigAddress(publicKeys: Buffer[]): string {
+    const ctx = keyAgg(keySort(publicKeys));
+
+    const p2tr = bitcoin.payments.p2tr({
+      internalPubkey: getXOnlyPublicKey(ctx),
+      network: this.network,
+    });
+
+    if (!p2tr.address) {
+      log.warn("Failed to generate MuSig2 address");
+      throw new Error("Failed to generate MuSig2 address");
+    }
+
+    return p2tr.address;
+  }
+
+  /**
+   * Returns the multisig address at chain/index, deriving and caching it
+   * on first use
+   * @param chain - Receive (0) or change (1) chain
+   * @param index - Address index on the chain
+   */
+  public getAddress(chain: AddressChain, index: number): AddressInfo {
+    this.requireInitialized();
+    if (chain !== RECEIVE_CHAIN && chain !== CHANGE_CHAIN) {
+      throw new Error("Invalid address chain");
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= 0x80000000) {
+      throw new Error("Invalid address index");
+    }
+
+    const key = `${chain}/${index}`;
+    let info = this.addressCache.get(key);
+    if (!info) {
+      info = this.createMultisigAddresses(chain, index);
+      this.addressCache.set(key, info);
+    }
+    return info;
+  }
+
+  /**
+   * Hands out the next fresh address on a chain
+   * Refuses to go further than gapLimit addresses past the last used one,
+   * since wallet recovery stops scanning after that many unused addresses.
+   * @param chain - Receive (default) or change chain
+   */
+  public getNextAddress(chain: AddressChain = RECEIVE_CHAIN): AddressInfo {
+    const index = this.nextIndex[chain];
+    if (index - this.lastUsedIndex[chain] > this.gapLimit) {
+      log.warn(`Gap limit of ${this.gapLimit} reached on chain ${chain}`);
+      throw new Error("Gap limit reached. Mark addresses as used first.");
+    }
+    const info = this.getAddress(chain, index);
+    this.nextIndex[chain] = index + 1;
+    return info;
+  }
+
+  /**
+   * Records that an address has received funds
+   * @param chain - Receive or change chain
+   * @param index - Address index on the chain
+   */
+  public markAddressUsed(chain: AddressChain, index: number): void {
+    this.getAddress(chain, index);
+    this.lastUsedIndex[chain] = Math.max(this.lastUsedIndex[chain], index);
+    this.nextIndex[chain] = Math.max(this.nextIndex[chain], index + 1);
+  }
+
+  /**
+   * Returns the first index after the last used address on a chain
+   */
+  public getNextUnusedIndex(chain: AddressChain): number {
+    return this.lastUsedIndex[chain] + 1;
+  }
+
+  public getGapLimit(): number {
+    return this.gapLimit;
+  }
+
+  /**
+   * Scans both chains for used addresses, stopping after gapLimit
+   * consecutive unused ones, and marks every used address found
+   * @param isUsed - Callback reporting whether an address has history
+   */
+  public async discoverUsedAddresses(
+    isUsed: (address: AddressInfo) => boolean | Promise<boolean>
+  ): Promise<void> {
+    for (const chain of [RECEIVE_CHAIN, CHANGE_CHAIN] as AddressChain[]) {
+      let unused = 0;
+      for (let index = 0; unused < this.gapLimit; index++) {
+        if (await isUsed(this.getAddress(chain, index))) {
+          this.markAddressUsed(chain, index);
+          unused = 0;
+        } else {
+          unused++;
+        }
+      }
+      log.info(`Address discovery complete for chain ${chain}`, {
+        nextUnusedIndex: this.getNextUnusedIndex(chain),
+      });
+    }
+  }
+
+  private requireInitialized(): void {
+    if (this.keyPairs.length !== this.totalSigners) {
       throw new Error("Wallet not initialized. Call generateWallet() first.");
     }
-    return this.addresses;
+  }
+
+  // Getter methods
+  public getAddresses() {
+    this.requireInitialized();
+    const { p2sh, p2wsh, p2shP2wsh, p2tr } = this.getAddress(RECEIVE_CHAIN, 0);
+    return p2tr ? { p2sh, p2wsh, p2shP2wsh, p2tr } : { p2sh, p2wsh, p2shP2wsh };
   }
 
   public getMnemonics(): string[] {
-    return this.keyPairs.map((kp) => kp.mnemonic);
+    if (this.isWatchOnly()) {
+      throw new Error("Watch-only wallet has no mnemonics");
+    }
+    return this.keyPairs.map((kp) => kp.mnemonic!);
+  }
+
+  /**
+   * Splits a signer's mnemonic into Shamir share mnemonics, so that no
+   * single backup reveals the key
+   * @param index - Index of the signer
+   * @param groupThreshold - Groups needed to recover the mnemonic
+   * @param groups - Threshold and share count of each group
+   * @returns The share mnemonics of each group. The signer's BIP39
+   *   passphrase is not part of the shares and is still needed to restore.
+   */
+  public getMnemonicShares(
+    index: number,
+    groupThreshold: number,
+    groups: ShamirGroup[]
+  ): string[][] {
+    if (this.isWatchOnly()) {
+      throw new Error("Watch-only wallet has no mnemonics");
+    }
+    if (index < 0 || index >= this.totalSigners) {
+      throw new Error("Invalid signer index");
+    }
+    const entropy = bip39.mnemonicToEntropy(
+      this.keyPairs[index].mnemonic!,
+      getWordlist(this.language)
+    );
+    return generateShares(Buffer.from(entropy, "hex"), groupThreshold, groups);
   }
 
   public getDerivationPaths(): string[] {
@@ -214,27 +656,469 @@ export class AdvancedMultisigWallet {
   }
 
   public getRedeemScript(): Buffer {
-    if (!this.redeemScript) {
+    if (this.keyPairs.length !== this.totalSigners) {
       throw new Error(
         "Redeem script not initialized. Call generateWallet() first."
       );
     }
-    return this.redeemScript;
+    return this.getAddress(RECEIVE_CHAIN, 0).redeemScript;
+  }
+
+  /**
+   * Exports one address chain of the wallet as a BIP380/383 output
+   * descriptor with key origins, e.g. wsh(sortedmulti(2,[fp/48h/0h/0h/2h]xpub/0/*,...)),
+   * or a BIP379 miniscript descriptor for policy wallets
+   * @param scriptType - Address type to describe (defaults to P2WSH)
+   * @param chain - Receive (default) or change chain
+   * @returns Descriptor string including checksum
+   */
+  public getDescriptor(
+    scriptType: DescriptorScriptType = "p2wsh",
+    chain: AddressChain = RECEIVE_CHAIN
+  ): string {
+    this.requireInitialized();
+    const keys: DescriptorKey[] = this.keyPairs.map((kp) => ({
+      fingerprint: kp.masterFingerprint,
+      originPath: kp.path,
+      key: kp.xpub,
+      childPath: `/${chain}/*`,
+    }));
+    if (this.policy) {
+      return formatMiniscriptDescriptor({
+        scriptType,
+        miniscript: this.policy,
+        keys,
+      });
+    }
+    return formatMultisigDescriptor({
+      scriptType,
+      threshold: this.requiredSignatures,
+      keys,
+    });
+  }
+
+  /**
+   * Creates a MultisigWallet for one address of this wallet, for building,
+   * signing and finalizing PSBTs. Works for watch-only wallets as no
+   * private keys are involved.
+   * @param chain - Receive (default) or change chain
+   * @param index - Address index on the chain
+   */
+  public toMultisigWallet(
+    chain: AddressChain = RECEIVE_CHAIN,
+    index: number = 0
+  ): MultisigWallet {
+    return MultisigWallet.fromDescriptor(
+      this.getDescriptor("p2wsh", chain),
+      index,
+      this.network
+    );
+  }
+
+  /**
+   * Creates a MultisigWallet for the next fresh change address, to pass as
+   * changeWallet when creating transactions
+   */
+  public getChangeWallet(): MultisigWallet {
+    const { index } = this.getNextAddress(CHANGE_CHAIN);
+    return this.toMultisigWallet(CHANGE_CHAIN, index);
+  }
+
+  /**
+   * Exports the Coldcard/Sparrow multisig setup file hardware signers
+   * register the wallet with
+   * @param name - Wallet name shown on the devices, up to 20 characters
+   * @param scriptType - Address type (defaults to P2WSH)
+   */
+  public exportSetupFile(
+    name: string,
+    scriptType: DescriptorScriptType = "p2wsh"
+  ): string {
+    this.requireInitialized();
+    if (this.policy) {
+      throw new Error("Setup files only describe m-of-n multisig wallets");
+    }
+    return formatSetupFile({
+      name,
+      threshold: this.requiredSignatures,
+      scriptType,
+      cosigners: this.keyPairs.map((kp) => ({
+        fingerprint: kp.masterFingerprint,
+        xpub: kp.xpub,
+        derivation: kp.path,
+      })),
+    });
+  }
+
+  /**
+   * Creates a watch-only MultisigWallet from a Coldcard/Sparrow multisig
+   * setup file, for one address of the wallet it describes
+   * @param text - Setup file content
+   * @param requiredSignatures - Expected required signatures (m)
+   * @param totalSigners - Expected total signers (n)
+   * @param config - Network and derivation path the file must match
+   * @param chain - Receive (default) or change chain
+   * @param index - Address index on the chain
+   * @throws If the file's policy or derivations don't match
+   */
+  public static importSetupFile(
+    text: string,
+    requiredSignatures: number,
+    totalSigners: number,
+    config: WalletConfig = {},
+    chain: AddressChain = RECEIVE_CHAIN,
+    index: number = 0
+  ): MultisigWallet {
+    const network = config.network || bitcoin.networks.testnet;
+    const setup = parseSetupFile(text, network);
+    const derivationPath = normalizeDerivation(
+      config.derivationPath || "m/48'/0'/0'/2'"
+    );
+
+    if (
+      setup.threshold !== requiredSignatures ||
+      setup.cosigners.length !== totalSigners
+    ) {
+      throw new Error(
+        `Setup file policy ${setup.threshold} of ${setup.cosigners.length} does not match ${requiredSignatures}-of-${totalSigners}`
+      );
+    }
+    setup.cosigners.forEach((cosigner) => {
+      if (cosigner.derivation !== derivationPath) {
+        throw new Error(
+          `Setup file derivation ${cosigner.derivation} does not match ${derivationPath}`
+        );
+      }
+    });
+
+    log.info(`Imported setup file ${setup.name}`, {
+      scriptType: setup.scriptType,
+    });
+    return MultisigWallet.fromDescriptor(
+      formatMultisigDescriptor({
+        scriptType: setup.scriptType,
+        threshold: setup.threshold,
+        keys: setup.cosigners.map((cosigner) => ({
+          fingerprint: cosigner.fingerprint,
+          originPath: cosigner.derivation,
+          key: cosigner.xpub,
+          childPath: `/${chain}/*`,
+        })),
+      }),
+      index,
+      network
+    );
+  }
+
+  /**
+   * Returns the MuSig2 key aggregation context of the address at chain/index
+   */
+  public getMusigKeyAggContext(
+    chain: AddressChain = RECEIVE_CHAIN,
+    index: number = 0
+  ): KeyAggContext {
+    if (!this.isNofN()) {
+      throw new Error("MuSig2 key aggregation requires an n-of-n wallet");
+    }
+    return keyAgg(keySort(this.getAddress(chain, index).publicKeys));
+  }
+
+  /**
+   * Creates a MuSig2 signing session for a Taproot key-path input that
+   * spends one of this wallet's P2TR addresses
+   * @param psbt - PSBT with witnessUtxo set on every input
+   * @param inputIndex - Index of the input to sign
+   * @param chain - Chain of the address being spent
+   * @param index - Index of the address being spent
+   */
+  public createMusigSession(
+    psbt: bitcoin.Psbt,
+    inputIndex: number,
+    chain: AddressChain = RECEIVE_CHAIN,
+    index: number = 0
+  ): MusigSigningSession {
+    const ctx = this.getMusigKeyAggContext(chain, index);
+    return createTaprootSigningSession(psbt, inputIndex, ctx.publicKeys);
+  }
+
+  /**
+   * Round 1 of MuSig2 signing: generates the signer's nonce
+   * @param session - Signing session
+   * @param signerIndex - Index of the key pair in the wallet
+   * @returns Public nonce to share with the other signers
+   */
+  public generateMusigNonce(
+    session: MusigSigningSession,
+    signerIndex: number
+  ): Buffer {
+    return session.generateNonce(
+      this.getSignerPrivateKey(signerIndex, session)
+    );
+  }
+
+  /**
+   * Round 2 of MuSig2 signing: creates the signer's partial signature
+   * @param session - Signing session with all public nonces
+   * @param signerIndex - Index of the key pair in the wallet
+   * @returns Partial signature to share with the other signers
+   */
+  public signMusigSession(
+    session: MusigSigningSession,
+    signerIndex: number
+  ): Buffer {
+    return session.sign(this.getSignerPrivateKey(signerIndex, session));
+  }
+
+  /**
+   * Derives a signer's child private key for the address a MuSig2
+   * session spends
+   * @param signerIndex - Index of the key pair in the wallet
+   * @param session - Session whose keys identify the address
+   */
+  private getSignerPrivateKey(
+    signerIndex: number,
+    session: MusigSigningSession
+  ): Buffer {
+    const keyPair = this.keyPairs[signerIndex];
+    if (!keyPair) {
+      throw new Error("Invalid signer index");
+    }
+    if (!keyPair.privateKey) {
+      throw new Error("Private key not available for signer");
+    }
+
+    const sessionKeys = session.getKeyAggContext().publicKeys;
+    const address = Array.from(this.addressCache.values()).find(
+      (info) =>
+        info.publicKeys.length === sessionKeys.length &&
+        keySort(sessionKeys).every((pk, i) => pk.equals(info.publicKeys[i]))
+    );
+    if (!address) {
+      throw new Error("MuSig2 session does not spend a known wallet address");
+    }
+
+    const account = bip32.fromPrivateKey(
+      keyPair.privateKey,
+      bip32.fromBase58(keyPair.xpub, this.network).chainCode,
+      this.network
+    );
+    const child = account.derive(address.chain).derive(address.index);
+    return Buffer.from(child.privateKey!);
+  }
+
+  /**
+   * Signs every input of a PSBT that one of the signer's keys can sign,
+   * locating the child keys through the PSBT's bip32Derivation records
+   * @param psbt - PSBT created by a MultisigWallet of this wallet
+   * @param signerIndex - Index of the key pair in the wallet
+   * @returns The outcome for each input
+   */
+  public signPsbt(
+    psbt: bitcoin.Psbt,
+    signerIndex: number
+  ): InputSigningResult[] {
+    const keyPair = this.keyPairs[signerIndex];
+    if (!keyPair) {
+      throw new Error("Invalid signer index");
+    }
+    if (!keyPair.mnemonic) {
+      throw new Error("Private key not available for signer");
+    }
+    return this.toMultisigWallet().signWithMnemonic(
+      psbt,
+      keyPair.mnemonic,
+      keyPair.passphrase,
+      this.language
+    );
   }
 
   public getPublicKeys(): Buffer[] {
-    return this.keyPairs.map((kp) => kp.publicKey).sort((a, b) => a.compare(b));
+    if (this.keyPairs.length !== this.totalSigners) {
+      return [];
+    }
+    return this.getAddress(RECEIVE_CHAIN, 0).publicKeys;
+  }
+
+  /**
+   * Serializes the wallet with its secrets encrypted under a passphrase.
+   * Configuration, public keys and address indexes stay in clear.
+   * @param passphrase - Passphrase for the secrets, not needed for
+   *   watch-only wallets
+   * @param options - Key derivation function and cost
+   */
+  public async exportWalletFile(
+    passphrase?: string,
+    options: KdfOptions = {}
+  ): Promise<WalletFile> {
+    this.requireInitialized();
+    const file: WalletFile = {
+      version: WALLET_FILE_VERSION,
+      network: getNetworkName(this.network),
+      requiredSignatures: this.requiredSignatures,
+      totalSigners: this.totalSigners,
+      ...(this.policyText && { policy: this.policyText }),
+      derivationPath: this.derivationPath,
+      gapLimit: this.gapLimit,
+      cosigners: this.keyPairs.map((kp) => ({
+        xpub: kp.xpub,
+        masterFingerprint: kp.masterFingerprint,
+        path: kp.path,
+        publicKey: kp.publicKey.toString("hex"),
+      })),
+      lastUsedIndex: [...this.lastUsedIndex],
+      nextIndex: [...this.nextIndex],
+      mnemonicWords: this.mnemonicWords,
+      language: this.language,
+    };
+    if (this.isWatchOnly()) {
+      return file;
+    }
+    if (!passphrase) {
+      throw new Error("A passphrase is required to save private keys");
+    }
+    return encryptSecrets(
+      file,
+      this.keyPairs.map((kp) => ({
+        mnemonic: kp.mnemonic!,
+        ...(kp.passphrase !== undefined && { passphrase: kp.passphrase }),
+        privateKey: kp.privateKey!.toString("hex"),
+      })),
+      passphrase,
+      options
+    );
+  }
+
+  /**
+   * Saves the wallet to a wallet file
+   * @param path - File to write
+   * @param passphrase - Passphrase encrypting the secrets
+   * @param options - Key derivation function and cost
+   * @throws If a watch-only wallet would overwrite a file holding secrets
+   */
+  public async saveToFile(
+    path: string,
+    passphrase?: string,
+    options: KdfOptions = {}
+  ): Promise<void> {
+    if (this.isWatchOnly()) {
+      let existing: WalletFile | undefined;
+      try {
+        existing = await readWalletFile(path);
+      } catch (error) {
+        // Nothing to lose in a missing or unreadable file
+      }
+      if (existing && existing.secrets) {
+        throw new Error(
+          "A watch-only wallet cannot overwrite a wallet file with secrets"
+        );
+      }
+    }
+    await writeWalletFile(
+      path,
+      await this.exportWalletFile(passphrase, options)
+    );
+    log.info("Wallet saved", { path, watchOnly: this.isWatchOnly() });
+  }
+
+  /**
+   * Restores a wallet from a wallet file. Without a passphrase the wallet
+   * opens watch-only.
+   * @param data - Wallet file or its JSON
+   * @param passphrase - Passphrase decrypting the secrets
+   * @throws On a wrong passphrase or a tampered file
+   */
+  public static async fromWalletFile(
+    data: WalletFile | string,
+    passphrase?: string
+  ): Promise<AdvancedMultisigWallet> {
+    const file =
+      typeof data === "string"
+        ? parseWalletFile(data)
+        : validateWalletFile(data);
+    const config: WalletConfig = {
+      network: getNetworkByName(file.network),
+      derivationPath: file.derivationPath,
+      gapLimit: file.gapLimit,
+      mnemonicWords: file.mnemonicWords as MnemonicWordCount | undefined,
+      language: file.language as MnemonicLanguage | undefined,
+      cosigners: file.cosigners.map(({ xpub, masterFingerprint, path }) => ({
+        xpub,
+        masterFingerprint,
+        path,
+      })),
+    };
+    const wallet = file.policy
+      ? new AdvancedMultisigWallet({ ...config, policy: file.policy })
+      : new AdvancedMultisigWallet(
+          file.requiredSignatures,
+          file.totalSigners,
+          config
+        );
+
+    wallet.keyPairs = file.cosigners.map((cosigner, index) => {
+      const keyPair = wallet.deriveCosignerKey(cosigner, index);
+      if (!keyPair.publicKey.equals(Buffer.from(cosigner.publicKey, "hex"))) {
+        throw new Error(`Cosigner ${index} public key does not match its xpub`);
+      }
+      return keyPair;
+    });
+    wallet.lastUsedIndex = [...file.lastUsedIndex];
+    wallet.nextIndex = [...file.nextIndex];
+
+    if (passphrase !== undefined) {
+      const secrets = await decryptSecrets(file, passphrase);
+      if (secrets.length !== wallet.keyPairs.length) {
+        throw new Error("Number of secrets must match total signers");
+      }
+      secrets.forEach((secret, index) => {
+        const privateKey = Buffer.from(secret.privateKey, "hex");
+        const publicKey =
+          ecc.isPrivate(privateKey) && ecc.pointFromScalar(privateKey, true);
+        if (
+          !publicKey ||
+          !Buffer.from(publicKey).equals(wallet.keyPairs[index].publicKey)
+        ) {
+          throw new Error(`Secrets of signer ${index} do not match its key`);
+        }
+        wallet.keyPairs[index].mnemonic = secret.mnemonic;
+        wallet.keyPairs[index].passphrase = secret.passphrase;
+        wallet.keyPairs[index].privateKey = privateKey;
+      });
+      wallet.passphrases = secrets.map((secret) => secret.passphrase);
+      wallet.cosigners = undefined;
+    }
+
+    log.info("Wallet loaded", { watchOnly: wallet.isWatchOnly() });
+    return wallet;
+  }
+
+  /**
+   * Loads a wallet saved with saveToFile
+   * @param path - File to read
+   * @param passphrase - Passphrase decrypting the secrets, omit to open
+   *   the wallet watch-only
+   */
+  public static async loadFromFile(
+    path: string,
+    passphrase?: string
+  ): Promise<AdvancedMultisigWallet> {
+    return AdvancedMultisigWallet.fromWalletFile(
+      await readWalletFile(path),
+      passphrase
+    );
   }
 
   /**
    * Restores a key pair from a mnemonic phrase
    * @param mnemonic - BIP39 mnemonic phrase
    * @param index - Index of the key pair to restore
+   * @param options - BIP39 passphrase and wordlist of the mnemonic
    * @returns Restored key pair information
    */
   public restoreFromMnemonic(
     mnemonic: string,
-    index: number
+    index: number,
+    options: MnemonicOptions = {}
   ): Promise<KeyPairInfo> {
     log.info(`Attempting to restore key pair at index ${index}`);
 
@@ -242,27 +1126,51 @@ export class AdvancedMultisigWallet {
       log.warn(`Invalid signer index: ${index}`);
       throw new Error("Invalid signer index");
     }
-    return this.recoverKeyPair(mnemonic, index);
+    return this.recoverKeyPair(mnemonic, index, options);
+  }
+
+  /**
+   * Restores a key pair from Shamir share mnemonics
+   * @param shares - Share mnemonics meeting the group and member thresholds
+   * @param index - Index of the key pair to restore
+   * @param options - BIP39 passphrase and wordlist of the shared mnemonic
+   * @returns Restored key pair information
+   */
+  public async restoreFromShares(
+    shares: string[],
+    index: number,
+    options: MnemonicOptions = {}
+  ): Promise<KeyPairInfo> {
+    const entropy = combineShares(shares);
+    const mnemonic = bip39.entropyToMnemonic(
+      entropy,
+      getWordlist(options.language ?? this.language)
+    );
+    return this.restoreFromMnemonic(mnemonic, index, options);
   }
 
   /**
    * Internal method to recover a key pair from a mnemonic
    * @param mnemonic - BIP39 mnemonic phrase
-   * @param index - Derivation index
+   * @param index - Index of the signer in the wallet
+   * @param options - BIP39 passphrase and wordlist of the mnemonic
    * @returns Recovered key pair information
    */
   private async recoverKeyPair(
     mnemonic: string,
-    index: number
+    index: number,
+    options: MnemonicOptions
   ): Promise<KeyPairInfo> {
-    if (!bip39.validateMnemonic(mnemonic)) {
+    const language = options.language ?? this.language;
+    if (!bip39.validateMnemonic(mnemonic, getWordlist(language))) {
       log.warn("Invalid mnemonic provided");
       throw new Error("Invalid mnemonic");
     }
 
-    const seed = await bip39.mnemonicToSeed(mnemonic);
+    const passphrase = options.passphrase ?? this.passphrases[index];
+    const seed = await bip39.mnemonicToSeed(mnemonic, passphrase);
     const root = bip32.fromSeed(seed, this.network);
-    const path = `${this.derivationPath}/${index}`;
+    const path = this.derivationPath;
     const child = root.derivePath(path);
 
     if (!child.privateKey) {
@@ -276,7 +1184,10 @@ export class AdvancedMultisigWallet {
 
     return {
       mnemonic,
+      passphrase,
       path,
+      masterFingerprint: Buffer.from(root.fingerprint).toString("hex"),
+      xpub: child.neutered().toBase58(),
       publicKey: Buffer.from(child.publicKey),
       privateKey: Buffer.from(child.privateKey),
     };
@@ -2,6 +2,7 @@ import * as bitcoin from "bitcoinjs-lib";
 import { BIP32Factory } from "bip32";
 import * as ecc from "tiny-secp256k1";
 import * as bip39 from "bip39";
+import { decodeMultisigScript } from "./script-classifier";
 
 const bip32 = BIP32Factory(ecc);
 bitcoin.initEccLib(ecc);
@@ -187,12 +188,6 @@ export class BrokenMultisigWallet {
   }
 
   public validateMultisigScript(script: Buffer): boolean {
-    const chunks = bitcoin.script.decompile(script);
-    if (!chunks) return false;
-
-    return (
-      chunks.length > 3 &&
-      chunks[chunks.length - 1] === bitcoin.opcodes.OP_CHECKMULTISIG
-    );
+    return decodeMultisigScript(script) !== undefined;
   }
 }
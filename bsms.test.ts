@@ -0,0 +1,152 @@
+import * as bitcoin from "bitcoinjs-lib";
+import {
+  BsmsCoordinator,
+  BsmsSigner,
+  NO_ENCRYPTION_TOKEN,
+  decryptBsmsRecord,
+  encryptBsmsRecord,
+  formatDescriptorRecord,
+  parseKeyRecord,
+} from "./bsms";
+
+describe("BSMS", () => {
+  const config = { mnemonicWords: 12 as const };
+
+  async function setUp(coordinator: BsmsCoordinator) {
+    const signers = await Promise.all(
+      coordinator
+        .getTokens()
+        .map((token, i) =>
+          BsmsSigner.create(token, config, { description: `Signer ${i}` })
+        )
+    );
+    // Records may arrive in any order
+    [...signers].reverse().forEach((signer) => {
+      coordinator.addKeyRecord(signer.getKeyRecord());
+    });
+    return { signers, records: await coordinator.createDescriptorRecords() };
+  }
+
+  it("should set up a wallet with in-process signers", async () => {
+    const coordinator = new BsmsCoordinator(2, 3, config);
+    const tokens = coordinator.getTokens();
+    expect(tokens).toHaveLength(3);
+    tokens.forEach((token) => expect(token).toMatch(/^[0-9a-f]{16}$/));
+
+    const { signers, records } = await setUp(coordinator);
+    const wallet = coordinator.getWallet();
+    expect(wallet.isWatchOnly()).toBe(true);
+
+    for (const [i, signer] of signers.entries()) {
+      expect(records[i]).not.toContain("BSMS");
+      const registered = await signer.verifyDescriptorRecord(records[i]);
+      expect(registered.getDescriptor()).toBe(wallet.getDescriptor());
+      expect(registered.getAddresses().p2wsh).toBe(wallet.getAddresses().p2wsh);
+    }
+  });
+
+  it("should run without encryption", async () => {
+    const coordinator = new BsmsCoordinator(1, 2, config, {
+      encryption: "none",
+      scriptType: "p2shP2wsh",
+    });
+    expect(coordinator.getTokens()).toEqual([
+      NO_ENCRYPTION_TOKEN,
+      NO_ENCRYPTION_TOKEN,
+    ]);
+
+    const { signers, records } = await setUp(coordinator);
+    expect(records[0]).toMatch(/^BSMS 1\.0\nsh\(wsh\(sortedmulti\(1,/);
+    expect(records[0]).toContain("/**");
+    expect(records[0]).toContain("/0/*,/1/*");
+    const registered = await signers[0].verifyDescriptorRecord(records[0]);
+    expect(registered.getAddresses().p2shP2wsh).toBe(
+      coordinator.getWallet().getAddresses().p2shP2wsh
+    );
+  });
+
+  it("should sign key records with the signer's account key", async () => {
+    const coordinator = new BsmsCoordinator(2, 2, config, {
+      encryption: "extended",
+    });
+    const [token] = coordinator.getTokens();
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    const signer = await BsmsSigner.create(token, config, {
+      description: "Cold storage",
+    });
+    const record = decryptBsmsRecord(token, signer.getKeyRecord());
+
+    const parsed = parseKeyRecord(record, bitcoin.networks.testnet);
+    expect(parsed.description).toBe("Cold storage");
+    expect(parsed.key.originPath).toBe("m/48'/0'/0'/2'");
+    expect(() =>
+      parseKeyRecord(
+        record.replace("Cold storage", "Hot storage"),
+        bitcoin.networks.testnet
+      )
+    ).toThrow("Invalid key record signature");
+
+    // Restoring from the mnemonic gives the same key record
+    const restored = await BsmsSigner.create(token, config, {
+      mnemonic: signer.getMnemonic(),
+      description: "Cold storage",
+    });
+    expect(decryptBsmsRecord(token, restored.getKeyRecord())).toBe(record);
+  });
+
+  it("should reject foreign, tampered and mismatched records", async () => {
+    const coordinator = new BsmsCoordinator(2, 2, config);
+    const [token] = coordinator.getTokens();
+    const signer = await BsmsSigner.create(token, config);
+    const stranger = await BsmsSigner.create(
+      new BsmsCoordinator(2, 2, config).getTokens()[0],
+      config
+    );
+    const otherPath = await BsmsSigner.create(coordinator.getTokens()[1], {
+      ...config,
+      derivationPath: "m/48'/1'/0'/2'",
+    });
+
+    expect(() => coordinator.addKeyRecord(stranger.getKeyRecord())).toThrow(
+      "Key record does not match an outstanding token"
+    );
+    const tampered = signer
+      .getKeyRecord()
+      .replace(/.$/, (c) => (c === "0" ? "1" : "0"));
+    expect(() => coordinator.addKeyRecord(tampered)).toThrow(
+      "Key record does not match an outstanding token"
+    );
+    expect(() => coordinator.addKeyRecord(otherPath.getKeyRecord())).toThrow(
+      "Key record derivation m/48'/1'/0'/2' does not match m/48'/0'/0'/2'"
+    );
+    expect(coordinator.addKeyRecord(signer.getKeyRecord())).toBe(0);
+    await expect(coordinator.createDescriptorRecords()).rejects.toThrow(
+      "Not all signers have sent their key records"
+    );
+  });
+
+  it("should detect a descriptor record with the wrong first address", async () => {
+    const coordinator = new BsmsCoordinator(2, 3, config);
+    const { signers, records } = await setUp(coordinator);
+    const token = coordinator.getTokens()[0];
+    const [, template, pathRestrictions] = decryptBsmsRecord(
+      token,
+      records[0]
+    ).split("\n");
+
+    const forged = encryptBsmsRecord(
+      token,
+      formatDescriptorRecord({
+        template,
+        pathRestrictions,
+        firstAddress: coordinator.getWallet().getAddress(0, 1).p2wsh,
+      })
+    );
+    await expect(signers[0].verifyDescriptorRecord(forged)).rejects.toThrow(
+      "First address does not match the descriptor"
+    );
+    await expect(signers[1].verifyDescriptorRecord(records[0])).rejects.toThrow(
+      "BSMS record MAC does not match the token"
+    );
+  });
+});
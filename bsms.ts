@@ -0,0 +1,621 @@
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+import * as crypto from "node:crypto";
+import {
+  AdvancedMultisigWallet,
+  CosignerInfo,
+  RECEIVE_CHAIN,
+  WalletConfig,
+} from "./advanced-musig";
+import {
+  DescriptorKey,
+  DescriptorScriptType,
+  addDescriptorChecksum,
+  deriveDescriptorKey,
+  formatDescriptorKey,
+  parseDescriptorKey,
+  parseMultisigDescriptor,
+  verifyDescriptorChecksum,
+} from "./descriptors";
+import { normalizeDerivation } from "./setup-file";
+
+// BIP129 Bitcoin Secure Multisig Setup. In round 1 the coordinator hands
+// each signer a token and the signer returns a key record signed with its
+// account key; in round 2 the coordinator returns the descriptor template
+// and first address, which every signer checks against its own derivation.
+// Records are encrypted with keys derived from the tokens.
+
+export const BSMS_VERSION = "BSMS 1.0";
+export const NO_ENCRYPTION_TOKEN = "00";
+
+/**
+ * BIP129 encryption levels: no encryption, or 64-bit (standard) or
+ * 128-bit (extended) tokens
+ */
+export type BsmsEncryption = "none" | "standard" | "extended";
+
+/* The `KeyRecord` interface is a signer's round 1 record:
+    1. token: string - Token the coordinator issued to the signer
+    2. key: DescriptorKey - Account xpub with its key origin
+    3. description: string - Free text identifying the signer
+    4. signature: string - Base64 Bitcoin signed message of the first four
+       lines by the account key
+*/
+export interface KeyRecord {
+  token: string;
+  key: DescriptorKey;
+  description: string;
+  signature: string;
+}
+
+/* The `DescriptorRecord` interface is the coordinator's round 2 record:
+    1. template: string - Descriptor with /** standing for the allowed
+       address chains
+    2. pathRestrictions: string - Chains /** stands for
+    3. firstAddress: string - Address at /0/0 for the signers to check
+*/
+export interface DescriptorRecord {
+  template: string;
+  pathRestrictions: string;
+  firstAddress: string;
+}
+
+/**
+ * Options of a BIP129 coordinator
+ * @property encryption - Token size (defaults to standard)
+ * @property scriptType - Address type of the wallet (defaults to P2WSH)
+ */
+export interface BsmsCoordinatorOptions {
+  encryption?: BsmsEncryption;
+  scriptType?: DescriptorScriptType;
+}
+
+/**
+ * Key material of a BIP129 signer
+ * @property mnemonic - Existing mnemonic, a new one is generated if omitted
+ * @property passphrase - BIP39 passphrase of the mnemonic
+ * @property description - Description sent with the key record
+ */
+export interface BsmsSignerOptions {
+  mnemonic?: string;
+  passphrase?: string;
+  description?: string;
+}
+
+const TOKEN_BYTES: Record<Exclude<BsmsEncryption, "none">, number> = {
+  standard: 8,
+  extended: 16,
+};
+const KDF_PASSWORD = "No SPOF";
+const KDF_ITERATIONS = 2048;
+const MAC_SIZE = 32;
+const IV_SIZE = 16;
+const MAX_DESCRIPTION_LENGTH = 80;
+const PATH_RESTRICTIONS = "/0/*,/1/*";
+const MESSAGE_MAGIC = "\x18Bitcoin Signed Message:\n";
+
+/**
+ * Generates a token for one signer
+ */
+export function generateBsmsToken(encryption: BsmsEncryption): string {
+  if (encryption === "none") {
+    return NO_ENCRYPTION_TOKEN;
+  }
+  return crypto.randomBytes(TOKEN_BYTES[encryption]).toString("hex");
+}
+
+function deriveEncryptionKey(token: string): Buffer {
+  return crypto.pbkdf2Sync(
+    KDF_PASSWORD,
+    Buffer.from(token, "hex"),
+    KDF_ITERATIONS,
+    32,
+    "sha512"
+  );
+}
+
+function recordMac(key: Buffer, token: string, data: Buffer): Buffer {
+  return crypto
+    .createHmac("sha256", bitcoin.crypto.sha256(key))
+    .update(Buffer.from(token, "hex"))
+    .update(data)
+    .digest();
+}
+
+/**
+ * Encrypts a record with a token: hex MAC followed by the AES-256-CTR
+ * ciphertext, whose IV is the start of the MAC. Records under the
+ * no-encryption token stay in clear.
+ */
+export function encryptBsmsRecord(token: string, record: string): string {
+  if (token === NO_ENCRYPTION_TOKEN) {
+    return record;
+  }
+  const key = deriveEncryptionKey(token);
+  const data = Buffer.from(record, "utf8");
+  const mac = recordMac(key, token, data);
+  const cipher = crypto.createCipheriv(
+    "aes-256-ctr",
+    key,
+    mac.subarray(0, IV_SIZE)
+  );
+  return Buffer.concat([mac, cipher.update(data), cipher.final()]).toString(
+    "hex"
+  );
+}
+
+/**
+ * Decrypts a record encrypted with a token
+ * @throws If the record was not encrypted with the token or was modified
+ */
+export function decryptBsmsRecord(token: string, encrypted: string): string {
+  if (token === NO_ENCRYPTION_TOKEN) {
+    return encrypted;
+  }
+  if (!/^([0-9a-fA-F]{2})+$/.test(encrypted.trim())) {
+    throw new Error("Invalid encrypted BSMS record");
+  }
+  const payload = Buffer.from(encrypted.trim(), "hex");
+  if (payload.length <= MAC_SIZE) {
+    throw new Error("Invalid encrypted BSMS record");
+  }
+  const key = deriveEncryptionKey(token);
+  const mac = payload.subarray(0, MAC_SIZE);
+  const decipher = crypto.createDecipheriv(
+    "aes-256-ctr",
+    key,
+    mac.subarray(0, IV_SIZE)
+  );
+  const data = Buffer.concat([
+    decipher.update(payload.subarray(MAC_SIZE)),
+    decipher.final(),
+  ]);
+  if (!crypto.timingSafeEqual(mac, recordMac(key, token, data))) {
+    throw new Error("BSMS record MAC does not match the token");
+  }
+  return data.toString("utf8");
+}
+
+/**
+ * Hash of a message in the Bitcoin signed message format
+ */
+function messageHash(message: string): Buffer {
+  const data = Buffer.from(message, "utf8");
+  let length: Buffer;
+  if (data.length < 0xfd) {
+    length = Buffer.from([data.length]);
+  } else {
+    length = Buffer.alloc(3, 0xfd);
+    length.writeUInt16LE(data.length, 1);
+  }
+  return bitcoin.crypto.hash256(
+    Buffer.concat([Buffer.from(MESSAGE_MAGIC, "utf8"), length, data])
+  );
+}
+
+/**
+ * Signs a message as a base64 compact signature of a compressed key
+ */
+function signMessage(message: string, privateKey: Buffer): string {
+  const { signature, recoveryId } = ecc.signRecoverable(
+    messageHash(message),
+    privateKey
+  );
+  return Buffer.concat([
+    Buffer.from([27 + 4 + recoveryId]),
+    Buffer.from(signature),
+  ]).toString("base64");
+}
+
+/**
+ * Verifies a base64 compact signature by recovering its public key
+ */
+function verifyMessage(
+  message: string,
+  publicKey: Buffer,
+  signature: string
+): boolean {
+  const bytes = Buffer.from(signature, "base64");
+  if (bytes.length !== 65 || bytes[0] < 27 || bytes[0] > 34) {
+    return false;
+  }
+  const header = bytes[0] - 27;
+  const recovered = ecc.recover(
+    messageHash(message),
+    bytes.subarray(1),
+    (header & 3) as 0 | 1 | 2 | 3,
+    header >= 4
+  );
+  return !!recovered && Buffer.from(recovered).equals(publicKey);
+}
+
+function keyRecordMessage(
+  token: string,
+  key: DescriptorKey,
+  description: string
+): string {
+  return [BSMS_VERSION, token, formatDescriptorKey(key), description].join(
+    "\n"
+  );
+}
+
+/**
+ * Creates a signed key record
+ * @param token - Token issued by the coordinator
+ * @param key - Account xpub with key origin
+ * @param privateKey - Private key of the account xpub
+ * @param description - Free text identifying the signer
+ */
+export function createKeyRecord(
+  token: string,
+  key: DescriptorKey,
+  privateKey: Buffer,
+  description: string
+): string {
+  if (
+    description.includes("\n") ||
+    description.length > MAX_DESCRIPTION_LENGTH
+  ) {
+    throw new Error(
+      `Description must be a single line of at most ${MAX_DESCRIPTION_LENGTH} characters`
+    );
+  }
+  const message = keyRecordMessage(token, key, description);
+  return `${message}\n${signMessage(message, privateKey)}`;
+}
+
+/**
+ * Parses a key record and verifies its signature
+ * @param record - Decrypted key record
+ * @param network - Network the xpub must belong to
+ * @throws On malformed records, keys without origin or bad signatures
+ */
+export function parseKeyRecord(
+  record: string,
+  network: bitcoin.Network
+): KeyRecord {
+  const lines = record.trim().split(/\r?\n/);
+  if (lines.length !== 5 || lines[0] !== BSMS_VERSION) {
+    throw new Error("Invalid BSMS key record");
+  }
+  const [, token, keyExpression, description, signature] = lines;
+  const key = parseDescriptorKey(keyExpression, network);
+  if (!key.fingerprint || key.originPath === undefined || key.childPath) {
+    throw new Error("Key record must contain an xpub with its key origin");
+  }
+  if (
+    !verifyMessage(
+      keyRecordMessage(token, key, description),
+      deriveDescriptorKey(key, network),
+      signature
+    )
+  ) {
+    throw new Error("Invalid key record signature");
+  }
+  return { token, key, description, signature };
+}
+
+/**
+ * Formats a descriptor record
+ */
+export function formatDescriptorRecord(record: DescriptorRecord): string {
+  return [
+    BSMS_VERSION,
+    record.template,
+    record.pathRestrictions,
+    record.firstAddress,
+  ].join("\n");
+}
+
+/**
+ * Parses a descriptor record
+ */
+export function parseDescriptorRecord(record: string): DescriptorRecord {
+  const lines = record.trim().split(/\r?\n/);
+  if (lines.length !== 4 || lines[0] !== BSMS_VERSION) {
+    throw new Error("Invalid BSMS descriptor record");
+  }
+  const [, template, pathRestrictions, firstAddress] = lines;
+  return { template, pathRestrictions, firstAddress };
+}
+
+/**
+ * Converts a descriptor of the receive chain to a /** template
+ */
+function toTemplate(descriptor: string): string {
+  return verifyDescriptorChecksum(descriptor).replace(/\/0\/\*/g, "/**");
+}
+
+/**
+ * Builds the watch-only wallet a descriptor template describes
+ */
+async function walletFromTemplate(
+  template: string,
+  network: bitcoin.Network
+): Promise<{
+  wallet: AdvancedMultisigWallet;
+  scriptType: DescriptorScriptType;
+}> {
+  const { scriptType, threshold, keys } = parseMultisigDescriptor(
+    addDescriptorChecksum(template.replace(/\/\*\*/g, "/0/*")),
+    network
+  );
+  if (keys.some((key) => !key.fingerprint || key.childPath !== "/0/*")) {
+    throw new Error("Descriptor template keys must be xpubs with key origins");
+  }
+  const wallet = new AdvancedMultisigWallet(threshold, keys.length, {
+    network,
+    derivationPath: keys[0].originPath,
+    cosigners: keys.map((key) => ({
+      xpub: key.key,
+      masterFingerprint: key.fingerprint!,
+      path: key.originPath!,
+    })),
+  });
+  await wallet.generateWallet();
+  return { wallet, scriptType };
+}
+
+/**
+ * BIP129 coordinator: issues a token per signer, collects their key
+ * records and distributes the descriptor record once all arrived
+ */
+export class BsmsCoordinator {
+  private requiredSignatures: number;
+  private totalSigners: number;
+  private config: WalletConfig;
+  private scriptType: DescriptorScriptType;
+  private tokens: string[]; // Token per signer
+  private cosigners: (CosignerInfo | undefined)[]; // Key records by signer
+  private wallet?: AdvancedMultisigWallet; // Assembled watch-only wallet
+
+  /**
+   * Creates a coordinator for an m-of-n wallet
+   * @param requiredSignatures - Number of required signatures (m)
+   * @param totalSigners - Total number of signers (n)
+   * @param config - Network and derivation path signers must use
+   * @param options - Encryption and address type
+   */
+  constructor(
+    requiredSignatures: number,
+    totalSigners: number,
+    config: WalletConfig = {},
+    options: BsmsCoordinatorOptions = {}
+  ) {
+    if (config.cosigners || config.policy) {
+      throw new Error("BSMS sets up m-of-n wallets from signer key records");
+    }
+    // Validates m and n along with the rest of the configuration
+    new AdvancedMultisigWallet(requiredSignatures, totalSigners, config);
+
+    this.requiredSignatures = requiredSignatures;
+    this.totalSigners = totalSigners;
+    this.config = config;
+    this.scriptType = options.scriptType ?? "p2wsh";
+    this.tokens = Array.from({ length: totalSigners }, () =>
+      generateBsmsToken(options.encryption ?? "standard")
+    );
+    this.cosigners = new Array(totalSigners).fill(undefined);
+  }
+
+  /**
+   * Tokens to hand to the signers, one each
+   */
+  public getTokens(): string[] {
+    return [...this.tokens];
+  }
+
+  /**
+   * Adds a signer's key record
+   * @param data - Key record as received, encrypted unless the tokens
+   *   are unencrypted
+   * @returns Index of the signer whose token the record carries
+   * @throws If no outstanding token decrypts the record, its signature is
+   *   invalid or its key doesn't use the wallet's derivation path
+   */
+  public addKeyRecord(data: string): number {
+    const network = this.config.network || bitcoin.networks.testnet;
+    const derivationPath = normalizeDerivation(
+      this.config.derivationPath || "m/48'/0'/0'/2'"
+    );
+
+    // Without encryption records are taken in the order they arrive
+    const index = this.tokens.findIndex((token, i) => {
+      if (this.cosigners[i]) {
+        return false;
+      }
+      try {
+        decryptBsmsRecord(token, data);
+        return true;
+      } catch (error) {
+        return false;
+      }
+    });
+    if (index < 0) {
+      throw new Error("Key record does not match an outstanding token");
+    }
+
+    const record = parseKeyRecord(
+      decryptBsmsRecord(this.tokens[index], data),
+      network
+    );
+    if (record.token !== this.tokens[index]) {
+      throw new Error("Key record token does not match its encryption");
+    }
+    if (normalizeDerivation(record.key.originPath!) !== derivationPath) {
+      throw new Error(
+        `Key record derivation ${record.key.originPath} does not match ${derivationPath}`
+      );
+    }
+    if (this.cosigners.some((cosigner) => cosigner?.xpub === record.key.key)) {
+      throw new Error("Duplicate key record");
+    }
+
+    this.cosigners[index] = {
+      xpub: record.key.key,
+      masterFingerprint: record.key.fingerprint!,
+      path: record.key.originPath!,
+    };
+    return index;
+  }
+
+  /**
+   * Assembles the wallet from the key records and creates the descriptor
+   * record for each signer, encrypted with its token
+   * @returns Encrypted descriptor records in token order
+   */
+  public async createDescriptorRecords(): Promise<string[]> {
+    if (this.cosigners.some((cosigner) => !cosigner)) {
+      throw new Error("Not all signers have sent their key records");
+    }
+    this.wallet = new AdvancedMultisigWallet(
+      this.requiredSignatures,
+      this.totalSigners,
+      { ...this.config, cosigners: this.cosigners as CosignerInfo[] }
+    );
+    await this.wallet.generateWallet();
+
+    const record = formatDescriptorRecord({
+      template: toTemplate(this.wallet.getDescriptor(this.scriptType)),
+      pathRestrictions: PATH_RESTRICTIONS,
+      firstAddress: this.wallet.getAddress(RECEIVE_CHAIN, 0)[this.scriptType],
+    });
+    return this.tokens.map((token) => encryptBsmsRecord(token, record));
+  }
+
+  /**
+   * The assembled watch-only wallet
+   */
+  public getWallet(): AdvancedMultisigWallet {
+    if (!this.wallet) {
+      throw new Error(
+        "Wallet not assembled. Call createDescriptorRecords() first."
+      );
+    }
+    return this.wallet;
+  }
+}
+
+/**
+ * BIP129 signer: derives its account key like AdvancedMultisigWallet,
+ * sends a signed key record and verifies the descriptor record it gets
+ * back
+ */
+export class BsmsSigner {
+  private token: string;
+  private network: bitcoin.Network;
+  private mnemonic: string;
+  private key: DescriptorKey; // Account xpub with key origin
+  private privateKey: Buffer; // Account private key signing the key record
+  private description: string;
+
+  private constructor(
+    token: string,
+    network: bitcoin.Network,
+    mnemonic: string,
+    key: DescriptorKey,
+    privateKey: Buffer,
+    description: string
+  ) {
+    this.token = token;
+    this.network = network;
+    this.mnemonic = mnemonic;
+    this.key = key;
+    this.privateKey = privateKey;
+    this.description = description;
+  }
+
+  /**
+   * Creates a signer for a token
+   * @param token - Token issued by the coordinator
+   * @param config - Network, derivation path and mnemonic settings
+   * @param options - Mnemonic, passphrase and description
+   */
+  public static async create(
+    token: string,
+    config: WalletConfig = {},
+    options: BsmsSignerOptions = {}
+  ): Promise<BsmsSigner> {
+    if (
+      token !== NO_ENCRYPTION_TOKEN &&
+      !/^([0-9a-f]{16}|[0-9a-f]{32})$/.test(token)
+    ) {
+      throw new Error("Invalid BSMS token");
+    }
+    // A single signer wallet derives the key at the configured path
+    const wallet = new AdvancedMultisigWallet(1, 1, {
+      ...config,
+      passphrases: [options.passphrase],
+    });
+    let mnemonic = options.mnemonic;
+    if (!mnemonic) {
+      await wallet.generateWallet();
+      [mnemonic] = wallet.getMnemonics();
+    }
+    const keyPair = await wallet.restoreFromMnemonic(mnemonic, 0);
+
+    return new BsmsSigner(
+      token,
+      config.network || bitcoin.networks.testnet,
+      mnemonic,
+      {
+        fingerprint: keyPair.masterFingerprint,
+        originPath: keyPair.path,
+        key: keyPair.xpub,
+      },
+      keyPair.privateKey!,
+      options.description ?? ""
+    );
+  }
+
+  /**
+   * The signer's mnemonic, to back up and sign with
+   */
+  public getMnemonic(): string {
+    return this.mnemonic;
+  }
+
+  /**
+   * The signed key record, encrypted with the token
+   */
+  public getKeyRecord(): string {
+    return encryptBsmsRecord(
+      this.token,
+      createKeyRecord(this.token, this.key, this.privateKey, this.description)
+    );
+  }
+
+  /**
+   * Verifies the coordinator's descriptor record: it must contain this
+   * signer's key, and the first address derived here must match
+   * @param data - Descriptor record as received
+   * @returns The watch-only wallet to register
+   */
+  public async verifyDescriptorRecord(
+    data: string
+  ): Promise<AdvancedMultisigWallet> {
+    const record = parseDescriptorRecord(decryptBsmsRecord(this.token, data));
+    if (record.pathRestrictions !== PATH_RESTRICTIONS) {
+      throw new Error(
+        `Unsupported path restrictions: ${record.pathRestrictions}`
+      );
+    }
+    const { wallet, scriptType } = await walletFromTemplate(
+      record.template,
+      this.network
+    );
+    if (
+      !wallet
+        .getDescriptor(scriptType)
+        .includes(formatDescriptorKey({ ...this.key, childPath: "/0/*" }))
+    ) {
+      throw new Error("Descriptor does not contain this signer's key");
+    }
+    if (
+      wallet.getAddress(RECEIVE_CHAIN, 0)[scriptType] !== record.firstAddress
+    ) {
+      throw new Error("First address does not match the descriptor");
+    }
+    return wallet;
+  }
+}
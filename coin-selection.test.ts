@@ -0,0 +1,252 @@
+import { feeForWeight, selectCoins, SelectableCoin } from "./coin-selection";
+import {
+  createTestUtxo,
+  createTestWallet,
+  UTXO,
+} from "./intermediate-musig-solution";
+
+// P2WSH 2-of-3 input weight
+const INPUT_WEIGHT = 416;
+const BASE_WEIGHT = 200;
+
+const coins = (...values: number[]): SelectableCoin[] =>
+  values.map((value, i) => ({
+    value: BigInt(value),
+    weight: INPUT_WEIGHT,
+    height: 100 - i,
+  }));
+
+const values = (selected: SelectableCoin[]) =>
+  selected.map((coin) => Number(coin.value)).sort((a, b) => a - b);
+
+describe("Coin Selection", () => {
+  const feeRate = 2;
+  const inputFee = Number(feeForWeight(INPUT_WEIGHT, feeRate));
+  const baseFee = Number(feeForWeight(BASE_WEIGHT, feeRate));
+
+  describe("Branch and Bound", () => {
+    it("should find a changeless match", () => {
+      const pool = coins(
+        10000,
+        30000 + inputFee,
+        50000,
+        20000 + inputFee,
+        70000
+      );
+      const result = selectCoins(pool, {
+        strategy: "branchAndBound",
+        target: BigInt(50000 - baseFee),
+        feeRate,
+        baseWeight: BASE_WEIGHT,
+      });
+
+      expect(values(result.selected)).toEqual([
+        20000 + inputFee,
+        30000 + inputFee,
+      ]);
+      expect(result.excess).toBe(BigInt(0));
+      expect(result.changeless).toBe(true);
+    });
+
+    it("should accept excess up to the cost of change", () => {
+      const pool = coins(40000 + inputFee + 300, 100000);
+      const result = selectCoins(pool, {
+        strategy: "branchAndBound",
+        target: BigInt(40000 - baseFee),
+        feeRate,
+        baseWeight: BASE_WEIGHT,
+        costOfChange: BigInt(500),
+      });
+
+      expect(values(result.selected)).toEqual([40000 + inputFee + 300]);
+      expect(result.excess).toBe(BigInt(300));
+    });
+
+    it("should fall back to knapsack without a match", () => {
+      const pool = coins(100000, 200000);
+      const result = selectCoins(pool, {
+        strategy: "branchAndBound",
+        target: BigInt(50000),
+        feeRate,
+        baseWeight: BASE_WEIGHT,
+      });
+
+      expect(values(result.selected)).toEqual([100000]);
+      expect(result.excess).toBe(BigInt(100000 - 50000 - baseFee - inputFee));
+      expect(result.changeless).toBe(false);
+    });
+  });
+
+  describe("Knapsack", () => {
+    it("should prefer a subset of smaller coins closer to the target", () => {
+      const pool = coins(20000, 25000, 30000, 500000);
+      const result = selectCoins(pool, {
+        strategy: "knapsack",
+        target: BigInt(40000),
+        feeRate,
+        baseWeight: BASE_WEIGHT,
+      });
+
+      expect(values(result.selected)).toEqual([20000, 25000]);
+    });
+
+    it("should use the smallest larger coin when small coins are short", () => {
+      const pool = coins(1000, 2000, 60000, 80000);
+      const result = selectCoins(pool, {
+        strategy: "knapsack",
+        target: BigInt(50000),
+        feeRate,
+        baseWeight: BASE_WEIGHT,
+      });
+
+      expect(values(result.selected)).toEqual([60000]);
+    });
+  });
+
+  describe("Largest and oldest first", () => {
+    it("should spend the largest coins first", () => {
+      const pool = coins(10000, 80000, 30000, 60000);
+      const result = selectCoins(pool, {
+        strategy: "largestFirst",
+        target: BigInt(100000),
+        feeRate,
+        baseWeight: BASE_WEIGHT,
+      });
+
+      expect(values(result.selected)).toEqual([60000, 80000]);
+    });
+
+    it("should spend the oldest coins first and unconfirmed coins last", () => {
+      const pool: SelectableCoin[] = [
+        { value: BigInt(50000), weight: INPUT_WEIGHT },
+        { value: BigInt(30000), weight: INPUT_WEIGHT, height: 500 },
+        { value: BigInt(40000), weight: INPUT_WEIGHT, height: 100 },
+      ];
+      const result = selectCoins(pool, {
+        strategy: "oldestFirst",
+        target: BigInt(60000),
+        feeRate,
+        baseWeight: BASE_WEIGHT,
+      });
+
+      expect(result.selected.map((coin) => coin.height)).toEqual([100, 500]);
+    });
+  });
+
+  describe("Fees", () => {
+    it("should pay the fee rate for the selected inputs", () => {
+      const pool = coins(30000, 30000, 30000);
+      const result = selectCoins(pool, {
+        strategy: "largestFirst",
+        target: BigInt(50000),
+        feeRate: 10,
+        baseWeight: BASE_WEIGHT,
+      });
+
+      expect(result.selected).toHaveLength(2);
+      expect(result.fee).toBe(
+        feeForWeight(BASE_WEIGHT, 10) +
+          BigInt(2) * feeForWeight(INPUT_WEIGHT, 10)
+      );
+      expect(result.excess).toBe(BigInt(60000 - 50000) - result.fee);
+    });
+
+    it("should respect a minimum absolute fee", () => {
+      const result = selectCoins(coins(100000), {
+        strategy: "largestFirst",
+        target: BigInt(50000),
+        feeRate: 1,
+        baseWeight: BASE_WEIGHT,
+        minimumFee: BigInt(5000),
+      });
+
+      expect(result.fee).toBe(BigInt(5000));
+    });
+
+    it("should skip coins worth less than the fee to spend them", () => {
+      expect(() =>
+        selectCoins(coins(200, 200, 200), {
+          strategy: "largestFirst",
+          target: BigInt(100),
+          feeRate: 5,
+          baseWeight: BASE_WEIGHT,
+        })
+      ).toThrow("Insufficient funds for transaction");
+    });
+  });
+
+  describe("MultisigWallet integration", () => {
+    const { wallet } = createTestWallet(2);
+    const utxo = (vout: number, value: number, address: string): UTXO =>
+      createTestUtxo(address, value, vout);
+    const outputs = [
+      {
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: BigInt(50000),
+      },
+    ];
+
+    it("should weigh P2SH inputs heavier than P2WSH inputs", () => {
+      const { p2sh, p2wsh, p2shP2wsh } = wallet.getAddresses();
+      const legacy = wallet.getInputWeight(utxo(0, 1000, p2sh));
+      const nested = wallet.getInputWeight(utxo(0, 1000, p2shP2wsh));
+      const native = wallet.getInputWeight(utxo(0, 1000, p2wsh));
+
+      expect(legacy).toBeGreaterThan(nested);
+      expect(nested).toBeGreaterThan(native);
+    });
+
+    it("should only spend the selected UTXOs", () => {
+      const { p2wsh } = wallet.getAddresses();
+      const psbt = wallet.createTransaction(
+        [utxo(0, 20000, p2wsh), utxo(1, 80000, p2wsh), utxo(2, 30000, p2wsh)],
+        outputs,
+        0,
+        { coinSelection: "largestFirst", feeRate: 5 }
+      );
+
+      expect(psbt.txInputs).toHaveLength(1);
+      expect(psbt.txInputs[0].index).toBe(1);
+    });
+
+    it("should not add change to a changeless branch and bound match", () => {
+      const { p2wsh } = wallet.getAddresses();
+      const feeRate = 5;
+      // Excess below the cost of change, but above the dust threshold once
+      // the change output is paid for
+      const match =
+        50000 +
+        Number(wallet.estimateFee([utxo(0, 0, p2wsh)], outputs, feeRate)) +
+        600;
+      const psbt = wallet.createTransaction(
+        [utxo(0, 1000000, p2wsh), utxo(1, match, p2wsh)],
+        outputs,
+        0,
+        { coinSelection: "branchAndBound", feeRate }
+      );
+
+      expect(psbt.txInputs).toHaveLength(1);
+      expect(psbt.txInputs[0].index).toBe(1);
+      expect(psbt.txOutputs.map((output) => output.value)).toEqual([50000]);
+    });
+
+    it("should require a fee rate for coin selection", () => {
+      const { p2wsh } = wallet.getAddresses();
+      expect(() =>
+        wallet.createTransaction([utxo(0, 80000, p2wsh)], outputs, 0, {
+          coinSelection: "branchAndBound",
+        })
+      ).toThrow("Coin selection requires a positive fee rate");
+    });
+
+    it("should reject pools that can't pay the fee rate", () => {
+      const { p2sh } = wallet.getAddresses();
+      expect(() =>
+        wallet.createTransaction([utxo(0, 50500, p2sh)], outputs, 0, {
+          coinSelection: "knapsack",
+          feeRate: 10,
+        })
+      ).toThrow("Insufficient funds for transaction");
+    });
+  });
+});
@@ -0,0 +1,310 @@
+// Coin selection for the multisig wallets. All algorithms work on the
+// effective value of each coin (its value minus the fee to spend it), so
+// the selected set pays the target fee rate for its own inputs.
+
+/**
+ * Available coin selection algorithms
+ * - branchAndBound: searches for a changeless match, falls back to knapsack
+ * - knapsack: stochastic approximation of the best subset
+ * - largestFirst: spends the largest coins first
+ * - oldestFirst: spends the coins with the lowest block height first
+ */
+export type CoinSelectionStrategy =
+  "branchAndBound" | "knapsack" | "largestFirst" | "oldestFirst";
+
+/**
+ * A coin that can be selected
+ * @property value - Value in satoshis
+ * @property weight - Weight of the input spending the coin
+ * @property height - Block height of the coin, undefined if unconfirmed
+ */
+export interface SelectableCoin {
+  value: bigint;
+  weight: number;
+  height?: number;
+}
+
+/**
+ * Coin selection parameters
+ * @property strategy - Selection algorithm
+ * @property target - Amount the selected coins must pay, excluding fees
+ * @property feeRate - Fee rate in sat/vB
+ * @property baseWeight - Weight of the transaction without its inputs
+ * @property minimumFee - Lowest absolute fee to pay
+ * @property costOfChange - Excess Branch and Bound may give up instead of
+ *   creating a change output
+ */
+export interface CoinSelectionOptions {
+  strategy: CoinSelectionStrategy;
+  target: bigint;
+  feeRate: number;
+  baseWeight: number;
+  minimumFee?: bigint;
+  costOfChange?: bigint;
+}
+
+/**
+ * Result of a coin selection
+ * @property selected - Coins to spend
+ * @property fee - Fee paid at the target fee rate
+ * @property excess - Amount left over after the target and fee
+ * @property changeless - Whether the excess is below the cost of change and
+ *   should go to the fee instead of a change output
+ */
+export interface CoinSelectionResult<T extends SelectableCoin> {
+  selected: T[];
+  fee: bigint;
+  excess: bigint;
+  changeless: boolean;
+}
+
+interface Candidate<T> {
+  coin: T;
+  effectiveValue: bigint;
+}
+
+const MAX_BNB_TRIES = 100000;
+const KNAPSACK_ITERATIONS = 1000;
+
+/**
+ * Fee in satoshis for the given weight at a fee rate in sat/vB
+ */
+export function feeForWeight(weight: number, feeRate: number): bigint {
+  return BigInt(Math.ceil(Math.ceil(weight / 4) * feeRate));
+}
+
+function sum<T>(candidates: Candidate<T>[]): bigint {
+  return candidates.reduce((total, c) => total + c.effectiveValue, BigInt(0));
+}
+
+function compareDescending<T>(a: Candidate<T>, b: Candidate<T>): number {
+  if (a.effectiveValue === b.effectiveValue) return 0;
+  return a.effectiveValue > b.effectiveValue ? -1 : 1;
+}
+
+/**
+ * Depth-first search for a subset whose effective value lies within
+ * [target, target + costOfChange], preferring the smallest excess
+ */
+function branchAndBound<T>(
+  pool: Candidate<T>[],
+  target: bigint,
+  costOfChange: bigint
+): Candidate<T>[] | undefined {
+  const candidates = [...pool].sort(compareDescending);
+  const included: boolean[] = [];
+  let best: Candidate<T>[] | undefined;
+  let bestExcess = BigInt(0);
+  let tries = 0;
+
+  const search = (depth: number, selected: bigint, remaining: bigint) => {
+    if (++tries > MAX_BNB_TRIES || selected > target + costOfChange) {
+      return;
+    }
+    if (selected >= target) {
+      const excess = selected - target;
+      if (!best || excess < bestExcess) {
+        best = candidates.filter((_, i) => i < depth && included[i]);
+        bestExcess = excess;
+      }
+      return;
+    }
+    if (depth === candidates.length || selected + remaining < target) {
+      return;
+    }
+
+    const value = candidates[depth].effectiveValue;
+    included[depth] = true;
+    search(depth + 1, selected + value, remaining - value);
+    included[depth] = false;
+    search(depth + 1, selected, remaining - value);
+  };
+
+  search(0, BigInt(0), sum(candidates));
+  return best;
+}
+
+/**
+ * Randomized two-pass approximation of the subset closest to the target
+ */
+function approximateBestSubset<T>(
+  candidates: Candidate<T>[],
+  target: bigint
+): { subset: Candidate<T>[]; total: bigint } {
+  let best = candidates.map(() => true);
+  let bestTotal = sum(candidates);
+
+  for (let rep = 0; rep < KNAPSACK_ITERATIONS && bestTotal !== target; rep++) {
+    const included = candidates.map(() => false);
+    let total = BigInt(0);
+    let reached = false;
+    for (let pass = 0; pass < 2 && !reached; pass++) {
+      for (let i = 0; i < candidates.length; i++) {
+        if (included[i] || (pass === 0 && Math.random() < 0.5)) {
+          continue;
+        }
+        total += candidates[i].effectiveValue;
+        included[i] = true;
+        if (total >= target) {
+          reached = true;
+          if (total < bestTotal) {
+            bestTotal = total;
+            best = [...included];
+          }
+          total -= candidates[i].effectiveValue;
+          included[i] = false;
+        }
+      }
+    }
+  }
+
+  return { subset: candidates.filter((_, i) => best[i]), total: bestTotal };
+}
+
+/**
+ * Knapsack solver: an exact single coin, all smaller coins, the smallest
+ * larger coin or the best approximated subset of the smaller coins
+ */
+function knapsack<T>(
+  pool: Candidate<T>[],
+  target: bigint
+): Candidate<T>[] | undefined {
+  const candidates = [...pool].sort(compareDescending);
+
+  const exact = candidates.find((c) => c.effectiveValue === target);
+  if (exact) {
+    return [exact];
+  }
+
+  const larger = candidates.filter((c) => c.effectiveValue > target);
+  const lowestLarger = larger[larger.length - 1];
+  const smaller = candidates.filter((c) => c.effectiveValue < target);
+  const totalSmaller = sum(smaller);
+
+  if (totalSmaller === target) {
+    return smaller;
+  }
+  if (totalSmaller < target) {
+    return lowestLarger ? [lowestLarger] : undefined;
+  }
+
+  const { subset, total } = approximateBestSubset(smaller, target);
+  if (
+    lowestLarger &&
+    total !== target &&
+    lowestLarger.effectiveValue <= total
+  ) {
+    return [lowestLarger];
+  }
+  return subset;
+}
+
+/**
+ * Adds candidates in order until the target is reached
+ */
+function accumulate<T>(
+  candidates: Candidate<T>[],
+  target: bigint
+): Candidate<T>[] | undefined {
+  const selected: Candidate<T>[] = [];
+  let total = BigInt(0);
+  for (const candidate of candidates) {
+    selected.push(candidate);
+    total += candidate.effectiveValue;
+    if (total >= target) {
+      return selected;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Selects coins paying the target plus the fee for the transaction and
+ * the selected inputs at the given fee rate
+ * @param coins - Available coins
+ * @param options - Target, fee rate and strategy
+ * @throws If the coins can't pay the target and fee
+ */
+export function selectCoins<T extends SelectableCoin>(
+  coins: T[],
+  options: CoinSelectionOptions
+): CoinSelectionResult<T> {
+  if (!(options.feeRate > 0)) {
+    throw new Error("Fee rate must be positive");
+  }
+
+  const minimumFee = options.minimumFee ?? BigInt(0);
+  const baseFee = feeForWeight(options.baseWeight, options.feeRate);
+  const required =
+    options.target + (baseFee > minimumFee ? baseFee : minimumFee);
+
+  // Coins that cost more to spend than they are worth are never selected
+  const pool = coins
+    .map((coin) => ({
+      coin,
+      effectiveValue: coin.value - feeForWeight(coin.weight, options.feeRate),
+    }))
+    .filter((c) => c.effectiveValue > BigInt(0));
+
+  let selected: Candidate<T>[] | undefined;
+  let changeless = false;
+  switch (options.strategy) {
+    case "branchAndBound":
+      selected = branchAndBound(
+        pool,
+        required,
+        options.costOfChange ?? BigInt(0)
+      );
+      changeless = selected !== undefined;
+      selected = selected ?? knapsack(pool, required);
+      break;
+    case "knapsack":
+      selected = knapsack(pool, required);
+      break;
+    case "largestFirst":
+      selected = accumulate(
+        [...pool].sort((a, b) =>
+          a.coin.value === b.coin.value
+            ? 0
+            : a.coin.value > b.coin.value
+              ? -1
+              : 1
+        ),
+        required
+      );
+      break;
+    case "oldestFirst":
+      selected = accumulate(
+        [...pool].sort((a, b) => {
+          const heightA = a.coin.height ?? Infinity;
+          const heightB = b.coin.height ?? Infinity;
+          return heightA === heightB ? 0 : heightA < heightB ? -1 : 1;
+        }),
+        required
+      );
+      break;
+    default:
+      throw new Error(`Unknown coin selection strategy: ${options.strategy}`);
+  }
+
+  if (!selected) {
+    throw new Error("Insufficient funds for transaction");
+  }
+
+  const inputFee = selected.reduce(
+    (total, c) => total + feeForWeight(c.coin.weight, options.feeRate),
+    BigInt(0)
+  );
+  const fee = baseFee + inputFee > minimumFee ? baseFee + inputFee : minimumFee;
+  const totalValue = selected.reduce(
+    (total, c) => total + c.coin.value,
+    BigInt(0)
+  );
+
+  return {
+    selected: selected.map((c) => c.coin),
+    fee,
+    excess: totalValue - options.target - fee,
+    changeless,
+  };
+}
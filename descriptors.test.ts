@@ -0,0 +1,237 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { BIP32Factory } from "bip32";
+import * as ecc from "tiny-secp256k1";
+import {
+  addDescriptorChecksum,
+  descriptorChecksum,
+  formatMiniscriptDescriptor,
+  isMultisigDescriptor,
+  parseMiniscriptDescriptor,
+  parseMultisigDescriptor,
+  verifyDescriptorChecksum,
+} from "./descriptors";
+import { formatMiniscript } from "./miniscript";
+import { AdvancedMultisigWallet } from "./advanced-musig";
+import {
+  MultisigWallet,
+  createTestWallet,
+} from "./intermediate-musig-solution";
+
+const bip32 = BIP32Factory(ecc);
+const network = bitcoin.networks.testnet;
+
+// Account level cosigner keys at m/48'/1'/0'/2'
+const cosigners = [1, 2, 3].map((i) => {
+  const root = bip32.fromSeed(Buffer.alloc(32, i), network);
+  return {
+    fingerprint: Buffer.from(root.fingerprint).toString("hex"),
+    xpub: root.derivePath("m/48'/1'/0'/2'").neutered().toBase58(),
+    root,
+  };
+});
+
+describe("Output Descriptors", () => {
+  describe("Checksums", () => {
+    it("should compute BIP380 checksums", () => {
+      expect(descriptorChecksum("raw(deadbeef)")).toBe("89f8spxm");
+      expect(
+        descriptorChecksum("addr(mkmZxiEcEd8ZqjQWVZuC6so5dFMKEFpN2j)")
+      ).toBe("02wpgw69");
+    });
+
+    it("should validate and strip checksums", () => {
+      expect(verifyDescriptorChecksum("raw(deadbeef)#89f8spxm")).toBe(
+        "raw(deadbeef)"
+      );
+      expect(addDescriptorChecksum("raw(deadbeef)")).toBe(
+        "raw(deadbeef)#89f8spxm"
+      );
+    });
+
+    it("should reject invalid or missing checksums", () => {
+      expect(() => verifyDescriptorChecksum("raw(deadbeef)#89f8spxn")).toThrow(
+        "Invalid descriptor checksum"
+      );
+      expect(() => verifyDescriptorChecksum("raw(deadbeef)")).toThrow(
+        "Missing descriptor checksum"
+      );
+      expect(() => verifyDescriptorChecksum("raw(deadbeef)#89f8")).toThrow(
+        "Descriptor checksum must be 8 characters"
+      );
+    });
+  });
+
+  describe("Parsing", () => {
+    const keys = cosigners
+      .map((c) => `[${c.fingerprint}/48h/1h/0h/2h]${c.xpub}/0/*`)
+      .join(",");
+
+    it("should parse a wsh sortedmulti descriptor with key origins", () => {
+      const parsed = parseMultisigDescriptor(
+        addDescriptorChecksum(`wsh(sortedmulti(2,${keys}))`),
+        network
+      );
+
+      expect(parsed.scriptType).toBe("p2wsh");
+      expect(parsed.threshold).toBe(2);
+      expect(parsed.keys).toHaveLength(3);
+      expect(parsed.keys[0]).toEqual({
+        fingerprint: cosigners[0].fingerprint,
+        originPath: "m/48'/1'/0'/2'",
+        key: cosigners[0].xpub,
+        childPath: "/0/*",
+      });
+    });
+
+    it("should parse sh and sh(wsh) descriptors", () => {
+      expect(
+        parseMultisigDescriptor(
+          addDescriptorChecksum(`sh(sortedmulti(2,${keys}))`),
+          network
+        ).scriptType
+      ).toBe("p2sh");
+      expect(
+        parseMultisigDescriptor(
+          addDescriptorChecksum(`sh(wsh(sortedmulti(2,${keys})))`),
+          network
+        ).scriptType
+      ).toBe("p2shP2wsh");
+    });
+
+    it("should parse and format miniscript descriptors", () => {
+      const [a, b, c] = cosigners.map(
+        (c) => `[${c.fingerprint}/48h/1h/0h/2h]${c.xpub}/0/*`
+      );
+      const descriptor = addDescriptorChecksum(
+        `sh(wsh(or_d(multi(2,${a},${b}),and_v(v:pk(${c}),older(26280)))))`
+      );
+      expect(isMultisigDescriptor(descriptor)).toBe(false);
+      expect(
+        isMultisigDescriptor(
+          addDescriptorChecksum(`wsh(sortedmulti(2,${keys}))`)
+        )
+      ).toBe(true);
+
+      const parsed = parseMiniscriptDescriptor(descriptor, network);
+      expect(parsed.scriptType).toBe("p2shP2wsh");
+      expect(parsed.keys.map((key) => key.key)).toEqual(
+        cosigners.map((c) => c.xpub)
+      );
+      expect(formatMiniscript(parsed.miniscript)).toBe(
+        `or_d(multi(2,${a},${b}),and_v(v:pk(${c}),older(26280)))`
+      );
+      expect(formatMiniscriptDescriptor(parsed)).toBe(descriptor);
+      expect(() =>
+        formatMiniscriptDescriptor({ ...parsed, keys: parsed.keys.slice(1) })
+      ).toThrow("Number of keys does not match the miniscript");
+    });
+
+    it("should reject key origins that don't match the key depth", () => {
+      const badKeys = cosigners
+        .map((c) => `[${c.fingerprint}/48h/1h/0h]${c.xpub}/0/*`)
+        .join(",");
+      expect(() =>
+        parseMultisigDescriptor(
+          addDescriptorChecksum(`wsh(sortedmulti(2,${badKeys}))`),
+          network
+        )
+      ).toThrow("does not match key depth");
+    });
+
+    it("should reject malformed fingerprints", () => {
+      const badKeys = cosigners
+        .map((c) => `[abc/48h/1h/0h/2h]${c.xpub}/0/*`)
+        .join(",");
+      expect(() =>
+        parseMultisigDescriptor(
+          addDescriptorChecksum(`wsh(sortedmulti(2,${badKeys}))`),
+          network
+        )
+      ).toThrow("Invalid key origin fingerprint");
+    });
+
+    it("should reject hardened derivation after an xpub", () => {
+      const badKeys = cosigners.map((c) => `${c.xpub}/0h/*`).join(",");
+      expect(() =>
+        parseMultisigDescriptor(
+          addDescriptorChecksum(`wsh(sortedmulti(2,${badKeys}))`),
+          network
+        )
+      ).toThrow("Hardened derivation requires a private key");
+    });
+
+    it("should reject extended keys from another network", () => {
+      expect(() =>
+        parseMultisigDescriptor(
+          addDescriptorChecksum(`wsh(sortedmulti(2,${keys}))`),
+          bitcoin.networks.bitcoin
+        )
+      ).toThrow("Invalid extended public key for network");
+    });
+
+    it("should reject unsorted multi descriptors", () => {
+      expect(() =>
+        parseMultisigDescriptor(
+          addDescriptorChecksum(`wsh(multi(2,${keys}))`),
+          network
+        )
+      ).toThrow("Only sortedmulti descriptors are supported");
+    });
+
+    it("should reject thresholds above the number of keys", () => {
+      expect(() =>
+        parseMultisigDescriptor(
+          addDescriptorChecksum(`wsh(sortedmulti(4,${keys}))`),
+          network
+        )
+      ).toThrow("Invalid multisig threshold");
+    });
+  });
+
+  describe("Wallet export and import", () => {
+    it("should round-trip an AdvancedMultisigWallet through a descriptor", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3);
+      await wallet.generateWallet();
+
+      const descriptor = wallet.getDescriptor();
+      expect(descriptor).toMatch(
+        /^wsh\(sortedmulti\(2,\[[0-9a-f]{8}\/48h\/0h\/0h\/2h\]tpub\w+\/0\/\*,/
+      );
+
+      const imported = MultisigWallet.fromDescriptor(descriptor);
+      expect(imported.getAddresses().p2wsh).toBe(wallet.getAddresses().p2wsh);
+      expect(imported.getAddresses().p2sh).toBe(wallet.getAddresses().p2sh);
+      expect(imported.getDescriptor()).toBe(descriptor);
+      expect(
+        MultisigWallet.fromDescriptor(
+          wallet.getDescriptor("p2shP2wsh")
+        ).getAddresses().p2shP2wsh
+      ).toBe(wallet.getAddresses().p2shP2wsh);
+    });
+
+    it("should round-trip a MultisigWallet with raw public keys", () => {
+      const { wallet } = createTestWallet(2);
+      const descriptor = wallet.getDescriptor("p2sh");
+
+      expect(descriptor).toMatch(/^sh\(sortedmulti\(2,0[23][0-9a-f]{64},/);
+      const imported = MultisigWallet.fromDescriptor(descriptor);
+      expect(imported.getAddresses()).toEqual(wallet.getAddresses());
+    });
+
+    it("should derive wildcard keys at the requested index", () => {
+      const keys = cosigners
+        .map((c) => `[${c.fingerprint}/48h/1h/0h/2h]${c.xpub}/0/*`)
+        .join(",");
+      const descriptor = addDescriptorChecksum(`wsh(sortedmulti(2,${keys}))`);
+
+      const wallet = MultisigWallet.fromDescriptor(descriptor, 5);
+      const expected = new MultisigWallet(
+        2,
+        cosigners.map((c) =>
+          Buffer.from(c.root.derivePath("m/48'/1'/0'/2'/0/5").publicKey)
+        )
+      );
+      expect(wallet.getAddresses().p2wsh).toBe(expected.getAddresses().p2wsh);
+    });
+  });
+});
@@ -0,0 +1,523 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { BIP32Factory } from "bip32";
+import * as ecc from "tiny-secp256k1";
+import {
+  Miniscript,
+  formatMiniscript,
+  getMiniscriptKeys,
+  parseMiniscript,
+} from "./miniscript";
+
+const bip32 = BIP32Factory(ecc);
+
+// Output script descriptors (BIP380 checksums, BIP381 sh(), BIP382 wsh(),
+// BIP383 sortedmulti(), BIP379 miniscript) for the scripts used by the
+// wallets.
+
+const INPUT_CHARSET =
+  "0123456789()[],'/*abcdefgh@:$%{}" +
+  "IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~" +
+  'ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const GENERATOR = [
+  BigInt("0xf5dee51989"),
+  BigInt("0xa9fdca3312"),
+  BigInt("0x1bab10e32d"),
+  BigInt("0x3706b1677a"),
+  BigInt("0x644d626ffd"),
+];
+
+/**
+ * Script types a multisig descriptor can describe, named after the
+ * address types returned by the wallets' getAddresses()
+ */
+export type DescriptorScriptType = "p2sh" | "p2wsh" | "p2shP2wsh";
+
+/**
+ * A single key expression inside a descriptor
+ * @property fingerprint - Optional master key fingerprint (hex, 8 chars)
+ * @property originPath - Optional origin path, e.g. m/48'/0'/0'/2'
+ * @property key - Hex public key or base58 extended public key
+ * @property childPath - Derivation applied after an extended key, e.g. /0/*
+ */
+export interface DescriptorKey {
+  fingerprint?: string;
+  originPath?: string;
+  key: string;
+  childPath?: string;
+}
+
+/**
+ * A parsed sortedmulti descriptor
+ * @property scriptType - Wrapping of the multisig script
+ * @property threshold - Required signatures (m)
+ * @property keys - Key expressions (n)
+ */
+export interface MultisigDescriptor {
+  scriptType: DescriptorScriptType;
+  threshold: number;
+  keys: DescriptorKey[];
+}
+
+/**
+ * A parsed sh/wsh/sh(wsh) miniscript descriptor
+ * @property scriptType - Wrapping of the script
+ * @property miniscript - Miniscript whose key names are the descriptor's
+ *   key expressions
+ * @property keys - Parsed key expressions in order of first appearance
+ */
+export interface MiniscriptDescriptor {
+  scriptType: DescriptorScriptType;
+  miniscript: Miniscript;
+  keys: DescriptorKey[];
+}
+
+function polymod(symbols: number[]): bigint {
+  let chk = BigInt(1);
+  for (const value of symbols) {
+    const top = chk >> BigInt(35);
+    chk = ((chk & BigInt("0x7ffffffff")) << BigInt(5)) ^ BigInt(value);
+    for (let i = 0; i < 5; i++) {
+      if ((top >> BigInt(i)) & BigInt(1)) {
+        chk ^= GENERATOR[i];
+      }
+    }
+  }
+  return chk;
+}
+
+function expand(descriptor: string): number[] {
+  const symbols: number[] = [];
+  let groups: number[] = [];
+  for (const char of descriptor) {
+    const value = INPUT_CHARSET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid character in descriptor: ${char}`);
+    }
+    symbols.push(value & 31);
+    groups.push(value >> 5);
+    if (groups.length === 3) {
+      symbols.push(groups[0] * 9 + groups[1] * 3 + groups[2]);
+      groups = [];
+    }
+  }
+  if (groups.length === 1) {
+    symbols.push(groups[0]);
+  } else if (groups.length === 2) {
+    symbols.push(groups[0] * 3 + groups[1]);
+  }
+  return symbols;
+}
+
+/**
+ * Computes the 8 character BIP380 checksum of a descriptor
+ * @param descriptor - Descriptor without checksum
+ */
+export function descriptorChecksum(descriptor: string): string {
+  const checksum =
+    polymod([...expand(descriptor), 0, 0, 0, 0, 0, 0, 0, 0]) ^ BigInt(1);
+  let result = "";
+  for (let i = 0; i < 8; i++) {
+    result +=
+      CHECKSUM_CHARSET[Number((checksum >> BigInt(5 * (7 - i))) & BigInt(31))];
+  }
+  return result;
+}
+
+/**
+ * Appends the BIP380 checksum to a descriptor
+ */
+export function addDescriptorChecksum(descriptor: string): string {
+  return `${descriptor}#${descriptorChecksum(descriptor)}`;
+}
+
+/**
+ * Validates and strips the checksum of a descriptor
+ * @param descriptor - Descriptor with "#checksum" suffix
+ * @param requireChecksum - Whether a missing checksum is an error
+ * @returns The descriptor without checksum
+ */
+export function verifyDescriptorChecksum(
+  descriptor: string,
+  requireChecksum: boolean = true
+): string {
+  const parts = descriptor.split("#");
+  if (parts.length > 2) {
+    throw new Error("Multiple '#' symbols in descriptor");
+  }
+  if (parts.length === 1) {
+    if (requireChecksum) {
+      throw new Error("Missing descriptor checksum");
+    }
+    return descriptor;
+  }
+  const [body, checksum] = parts;
+  if (checksum.length !== 8) {
+    throw new Error("Descriptor checksum must be 8 characters");
+  }
+  if (descriptorChecksum(body) !== checksum) {
+    throw new Error("Invalid descriptor checksum");
+  }
+  return body;
+}
+
+/**
+ * Converts a BIP32 path (m/48'/0'/0'/2') to descriptor form (48h/0h/0h/2h)
+ */
+function toDescriptorPath(path: string): string {
+  return path
+    .replace(/^m\/?/, "")
+    .replace(/'/g, "h")
+    .split("/")
+    .filter((step) => step.length)
+    .join("/");
+}
+
+/**
+ * Converts a descriptor path (48h/0h/0h/2h) to a BIP32 path (m/48'/0'/0'/2')
+ */
+function fromDescriptorPath(path: string): string {
+  const steps = path.split("/").filter((step) => step.length);
+  steps.forEach((step) => {
+    if (!/^\d+['h]?$/.test(step) || parseInt(step, 10) >= 0x80000000) {
+      throw new Error(`Invalid derivation step: ${step}`);
+    }
+  });
+  return ["m", ...steps.map((step) => step.replace("h", "'"))].join("/");
+}
+
+/**
+ * Formats a key expression, e.g. [fp/48h/0h/0h/2h]xpub.../0/*
+ */
+export function formatDescriptorKey(key: DescriptorKey): string {
+  let result = "";
+  if (key.fingerprint) {
+    const path = key.originPath ? toDescriptorPath(key.originPath) : "";
+    result += `[${key.fingerprint}${path ? "/" + path : ""}]`;
+  }
+  result += key.key;
+  if (key.childPath) {
+    result += key.childPath;
+  }
+  return result;
+}
+
+/**
+ * Parses and validates a key expression
+ * @param expression - Key with optional origin and derivation
+ * @param network - Network extended keys must belong to
+ */
+export function parseDescriptorKey(
+  expression: string,
+  network: bitcoin.Network
+): DescriptorKey {
+  const match = expression.match(
+    /^(?:\[([^\]]*)\])?([1-9A-HJ-NP-Za-km-z]+|[0-9a-fA-F]+)((?:\/[^/]+)*)$/
+  );
+  if (!match) {
+    throw new Error(`Invalid key expression: ${expression}`);
+  }
+  const [, origin, key, childPath] = match;
+  const result: DescriptorKey = { key };
+
+  if (origin !== undefined) {
+    const [fingerprint, ...path] = origin.split("/");
+    if (!/^[0-9a-fA-F]{8}$/.test(fingerprint)) {
+      throw new Error(`Invalid key origin fingerprint: ${fingerprint}`);
+    }
+    result.fingerprint = fingerprint.toLowerCase();
+    result.originPath = fromDescriptorPath(path.join("/"));
+  }
+
+  if (/^(02|03)[0-9a-fA-F]{64}$/.test(key)) {
+    if (childPath) {
+      throw new Error("Derivation is only allowed after extended keys");
+    }
+    if (!ecc.isPoint(Buffer.from(key, "hex"))) {
+      throw new Error(`Invalid public key: ${key}`);
+    }
+    result.key = key.toLowerCase();
+    return result;
+  }
+
+  let node;
+  try {
+    node = bip32.fromBase58(key, network);
+  } catch (error) {
+    throw new Error(`Invalid extended public key for network: ${key}`);
+  }
+  if (!node.isNeutered()) {
+    throw new Error("Descriptors must not contain private keys");
+  }
+  if (
+    result.originPath !== undefined &&
+    result.originPath.split("/").length - 1 !== node.depth
+  ) {
+    throw new Error(
+      `Key origin path ${result.originPath} does not match key depth ${node.depth}`
+    );
+  }
+
+  if (childPath) {
+    const steps = childPath.slice(1).split("/");
+    steps.forEach((step, i) => {
+      const isWildcard = step === "*";
+      if (isWildcard && i !== steps.length - 1) {
+        throw new Error("Wildcard must be the last derivation step");
+      }
+      if (/['h]$/.test(step)) {
+        throw new Error("Hardened derivation requires a private key");
+      }
+      if (!isWildcard && !/^\d+$/.test(step)) {
+        throw new Error(`Invalid derivation step: ${step}`);
+      }
+    });
+    result.childPath = childPath;
+  }
+
+  return result;
+}
+
+/**
+ * Wraps a script expression for a script type and adds the checksum
+ */
+function wrapDescriptor(
+  scriptType: DescriptorScriptType,
+  inner: string
+): string {
+  const wrapped = {
+    p2sh: `sh(${inner})`,
+    p2wsh: `wsh(${inner})`,
+    p2shP2wsh: `sh(wsh(${inner}))`,
+  }[scriptType];
+  return addDescriptorChecksum(wrapped);
+}
+
+/**
+ * Validates the checksum and removes the sh/wsh/sh(wsh) wrapping
+ */
+function unwrapDescriptor(descriptor: string): {
+  scriptType: DescriptorScriptType;
+  inner: string;
+} {
+  const body = verifyDescriptorChecksum(descriptor.trim());
+
+  let match: RegExpMatchArray | null;
+  if ((match = body.match(/^sh\(wsh\((.*)\)\)$/))) {
+    return { scriptType: "p2shP2wsh", inner: match[1] };
+  }
+  if ((match = body.match(/^wsh\((.*)\)$/))) {
+    return { scriptType: "p2wsh", inner: match[1] };
+  }
+  if ((match = body.match(/^sh\((.*)\)$/))) {
+    return { scriptType: "p2sh", inner: match[1] };
+  }
+  throw new Error("Unsupported descriptor script type");
+}
+
+/**
+ * Formats a multisig descriptor with checksum, e.g.
+ * wsh(sortedmulti(2,[fp/48h/0h/0h/2h]xpub.../0/*,...))#checksum
+ */
+export function formatMultisigDescriptor(
+  descriptor: MultisigDescriptor
+): string {
+  const multi = `sortedmulti(${descriptor.threshold},${descriptor.keys
+    .map(formatDescriptorKey)
+    .join(",")})`;
+  return wrapDescriptor(descriptor.scriptType, multi);
+}
+
+/**
+ * Whether a descriptor describes a plain (sorted)multi script rather than
+ * a miniscript expression
+ */
+export function isMultisigDescriptor(descriptor: string): boolean {
+  return /^(sorted)?multi\([^()]*\)$/.test(unwrapDescriptor(descriptor).inner);
+}
+
+/**
+ * Formats a miniscript descriptor with checksum, e.g.
+ * wsh(or_d(multi(2,[fp/48h/0h/0h/2h]xpub.../0/*,...),and_v(...)))#checksum
+ * @param descriptor - Miniscript with keys in order of first appearance
+ */
+export function formatMiniscriptDescriptor(
+  descriptor: MiniscriptDescriptor
+): string {
+  const names = getMiniscriptKeys(descriptor.miniscript);
+  if (names.length !== descriptor.keys.length) {
+    throw new Error("Number of keys does not match the miniscript");
+  }
+  const miniscript = formatMiniscript(descriptor.miniscript, (name) =>
+    formatDescriptorKey(descriptor.keys[names.indexOf(name)])
+  );
+  return wrapDescriptor(descriptor.scriptType, miniscript);
+}
+
+/**
+ * Parses a sh/wsh/sh(wsh) miniscript descriptor and validates its
+ * checksum, type and key expressions
+ * @param descriptor - Descriptor string
+ * @param network - Network extended keys must belong to
+ */
+export function parseMiniscriptDescriptor(
+  descriptor: string,
+  network: bitcoin.Network
+): MiniscriptDescriptor {
+  const { scriptType, inner } = unwrapDescriptor(descriptor);
+  const miniscript = parseMiniscript(inner);
+  return {
+    scriptType,
+    miniscript,
+    keys: getMiniscriptKeys(miniscript).map((key) =>
+      parseDescriptorKey(key, network)
+    ),
+  };
+}
+
+/**
+ * Parses a sh/wsh/sh(wsh) sortedmulti descriptor and validates its
+ * checksum and key origins
+ * @param descriptor - Descriptor string
+ * @param network - Network extended keys must belong to
+ */
+export function parseMultisigDescriptor(
+  descriptor: string,
+  network: bitcoin.Network
+): MultisigDescriptor {
+  const { scriptType, inner } = unwrapDescriptor(descriptor);
+
+  const match = inner.match(/^(sorted)?multi\((.*)\)$/);
+  if (!match) {
+    throw new Error("Descriptor is not a multisig descriptor");
+  }
+  if (!match[1]) {
+    throw new Error("Only sortedmulti descriptors are supported");
+  }
+
+  const [thresholdArg, ...keyArgs] = match[2].split(",");
+  if (!/^\d+$/.test(thresholdArg)) {
+    throw new Error(`Invalid multisig threshold: ${thresholdArg}`);
+  }
+  const threshold = parseInt(thresholdArg, 10);
+  if (keyArgs.length === 0 || threshold <= 0 || threshold > keyArgs.length) {
+    throw new Error("Invalid multisig threshold");
+  }
+  if (keyArgs.length > (scriptType === "p2sh" ? 15 : 20)) {
+    throw new Error("Too many keys for multisig descriptor");
+  }
+
+  return {
+    scriptType,
+    threshold,
+    keys: keyArgs.map((key) => parseDescriptorKey(key, network)),
+  };
+}
+
+/**
+ * Derives the public key of a descriptor key expression
+ * @param key - Key expression
+ * @param network - Network of extended keys
+ * @param index - Index substituted for a wildcard
+ */
+export function deriveDescriptorKey(
+  key: DescriptorKey,
+  network: bitcoin.Network,
+  index: number = 0
+): Buffer {
+  if (!/^(02|03)[0-9a-f]{64}$/.test(key.key)) {
+    let node = bip32.fromBase58(key.key, network);
+    if (key.childPath) {
+      node = node.derivePath(
+        key.childPath.slice(1).replace("*", index.toString())
+      );
+    }
+    return Buffer.from(node.publicKey);
+  }
+  return Buffer.from(key.key, "hex");
+}
+
+/**
+ * BIP32 origin of a derived public key, as stored in PSBT
+ * bip32Derivation records
+ * @property masterFingerprint - Fingerprint of the master key
+ * @property path - Full derivation path from the master key
+ * @property pubkey - The derived public key
+ */
+export interface KeyOrigin {
+  masterFingerprint: Buffer;
+  path: string;
+  pubkey: Buffer;
+}
+
+/**
+ * Extended public key with its origin, as stored in PSBT_GLOBAL_XPUB
+ * @property extendedPubkey - 78 byte serialized extended public key
+ * @property masterFingerprint - Fingerprint of the master key
+ * @property path - Derivation path of the extended key
+ */
+export interface GlobalXpub {
+  extendedPubkey: Buffer;
+  masterFingerprint: Buffer;
+  path: string;
+}
+
+/**
+ * Returns the origin of the key a descriptor key expression derives at an
+ * index, or undefined if the expression has no key origin
+ * @param key - Key expression
+ * @param network - Network of extended keys
+ * @param index - Index substituted for a wildcard
+ */
+export function getDescriptorKeyOrigin(
+  key: DescriptorKey,
+  network: bitcoin.Network,
+  index: number = 0
+): KeyOrigin | undefined {
+  if (!key.fingerprint || key.originPath === undefined) {
+    return undefined;
+  }
+  const childPath = key.childPath
+    ? key.childPath.replace("*", index.toString())
+    : "";
+  return {
+    masterFingerprint: Buffer.from(key.fingerprint, "hex"),
+    path: key.originPath + childPath,
+    pubkey: deriveDescriptorKey(key, network, index),
+  };
+}
+
+/**
+ * Returns the PSBT global xpub record of a descriptor key expression, or
+ * undefined for raw public keys and keys without origin
+ * @param key - Key expression
+ * @param network - Network of extended keys
+ */
+export function getDescriptorGlobalXpub(
+  key: DescriptorKey,
+  network: bitcoin.Network
+): GlobalXpub | undefined {
+  if (
+    !key.fingerprint ||
+    key.originPath === undefined ||
+    /^(02|03)[0-9a-f]{64}$/.test(key.key)
+  ) {
+    return undefined;
+  }
+
+  // BIP32 serialization without the base58check encoding
+  const node = bip32.fromBase58(key.key, network);
+  const extendedPubkey = Buffer.alloc(78);
+  extendedPubkey.writeUInt32BE(network.bip32.public, 0);
+  extendedPubkey.writeUInt8(node.depth, 4);
+  extendedPubkey.writeUInt32BE(node.parentFingerprint, 5);
+  extendedPubkey.writeUInt32BE(node.index, 9);
+  Buffer.from(node.chainCode).copy(extendedPubkey, 13);
+  Buffer.from(node.publicKey).copy(extendedPubkey, 45);
+
+  return {
+    extendedPubkey,
+    masterFingerprint: Buffer.from(key.fingerprint, "hex"),
+    path: key.originPath,
+  };
+}
@@ -1,13 +1,19 @@
 import * as bitcoin from "bitcoinjs-lib";
+import { BIP32Factory } from "bip32";
 import { ECPairFactory } from "ecpair";
 import * as tinysecp from "tiny-secp256k1";
 import {
   MultisigWallet,
+  createTestUtxo,
   createTestWallet,
   UTXO,
 } from "./intermediate-musig-solution";
+import { getXOnlyPublicKey, keyAgg, keySort } from "./musig2";
+import { signet as signetNetwork } from "./networks";
+import { tapleafHash, verifyInputScript } from "./script-interpreter";
 
 const ECPair = ECPairFactory(tinysecp);
+const bip32 = BIP32Factory(tinysecp);
 const network = bitcoin.networks.testnet;
 
 describe("MultisigWallet", () => {
@@ -20,6 +26,8 @@ describe("MultisigWallet", () => {
       expect(addresses.p2wsh).toBeTruthy();
       expect(addresses.p2sh).toMatch(/^2/); // P2SH testnet addresses start with 2
       expect(addresses.p2wsh).toMatch(/^tb1/); // P2WSH testnet addresses start with tb1
+      expect(addresses.p2shP2wsh).toMatch(/^2/); // P2SH-P2WSH testnet addresses start with 2
+      expect(addresses.p2tr).toMatch(/^tb1p/); // P2TR testnet addresses start with tb1p
     });
 
     it("should throw error when required signatures exceed number of public keys", () => {
@@ -81,11 +89,40 @@ describe("MultisigWallet", () => {
       const psbt = wallet.createTransaction([mockUTXO], outputs, 1000);
       expect(psbt).toBeInstanceOf(bitcoin.Psbt);
       expect(psbt.data.inputs.length).toBe(1);
-      expect(psbt.data.outputs.length).toBe(1);
+      expect(psbt.data.outputs.length).toBe(2); // Payment and change
 
       // Additional verification
       const output = psbt.txOutputs[0];
       expect(output.value).toBe(50000); // Verify the value is a number
+      expect(psbt.txOutputs[1].value).toBe(49000);
+    });
+
+    it("should require the previous transaction of P2SH inputs", () => {
+      const outputs = [
+        {
+          address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+          value: BigInt(50000),
+        },
+      ];
+      const p2shUtxo = createTestUtxo(wallet.getAddresses().p2sh);
+
+      const psbt = wallet.createTransaction([p2shUtxo], outputs, 1000);
+      expect(psbt.data.inputs[0].nonWitnessUtxo!.toString("hex")).toBe(
+        p2shUtxo.prevTx
+      );
+      expect(psbt.data.inputs[0].witnessUtxo).toBeUndefined();
+
+      const { prevTx, ...withoutPrevTx } = p2shUtxo;
+      expect(() =>
+        wallet.createTransaction([withoutPrevTx], outputs, 1000)
+      ).toThrow(`P2SH input ${p2shUtxo.txid}:0 needs its previous transaction`);
+      expect(() =>
+        wallet.createTransaction(
+          [{ ...p2shUtxo, value: BigInt(200000) }],
+          outputs,
+          1000
+        )
+      ).toThrow(`Previous transaction does not match input ${p2shUtxo.txid}:0`);
     });
 
     it("should sign transaction with valid signers", () => {
@@ -125,22 +162,104 @@ describe("MultisigWallet", () => {
         wallet.signTransaction(psbt, keyPairs[0], 0);
       }).toThrow("This key has already signed");
     });
+
+    it("should refuse to sign finalized inputs", () => {
+      const outputs = [
+        {
+          address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+          value: BigInt(50000),
+        },
+      ];
+
+      const psbt = wallet.createTransaction([mockUTXO], outputs, 1000);
+      wallet.signTransaction(psbt, keyPairs[0], 0);
+      wallet.signTransaction(psbt, keyPairs[1], 0);
+      wallet.finalizeTransaction(psbt);
+
+      expect(() => {
+        wallet.signTransaction(psbt, keyPairs[0], 0);
+      }).toThrow("Input #0 is already finalized");
+      expect(wallet.signAllInputs(psbt, keyPairs[2])).toEqual([
+        { index: 0, status: "finalized" },
+      ]);
+    });
+  });
+
+  describe("Signing All Inputs", () => {
+    let wallet: MultisigWallet;
+    let keyPairs: any[];
+    const outputs = [
+      {
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: BigInt(50000),
+      },
+    ];
+    const utxo = (vout: number, address: string): UTXO =>
+      createTestUtxo(address, 60000, vout);
+
+    beforeEach(() => {
+      const testWallet = createTestWallet(2);
+      wallet = testWallet.wallet;
+      keyPairs = testWallet.keyPairs;
+    });
+
+    it("should sign every input and report per-input results", () => {
+      const { p2wsh, p2shP2wsh, p2tr } = wallet.getAddresses();
+      const psbt = wallet.createTransaction(
+        [utxo(0, p2wsh), utxo(1, p2shP2wsh), utxo(2, p2tr)],
+        outputs,
+        1000
+      );
+
+      expect(wallet.signAllInputs(psbt, keyPairs[0])).toEqual([
+        { index: 0, status: "signed" },
+        { index: 1, status: "signed" },
+        { index: 2, status: "signed" },
+      ]);
+      expect(
+        wallet.signAllInputs(psbt, keyPairs[0]).map((r) => r.status)
+      ).toEqual(["alreadySigned", "alreadySigned", "alreadySigned"]);
+
+      wallet.signAllInputs(psbt, keyPairs[2]);
+      expect(wallet.finalizeTransaction(psbt)).toMatch(/^[0-9a-f]+$/);
+    });
+
+    it("should skip inputs belonging to another wallet", () => {
+      const other = createTestWallet(2);
+      const psbt = wallet.createTransaction(
+        [utxo(0, wallet.getAddresses().p2wsh)],
+        outputs,
+        1000
+      );
+      const otherPsbt = other.wallet.createTransaction(
+        [utxo(1, other.wallet.getAddresses().p2wsh)],
+        outputs,
+        1000
+      );
+      psbt.addInput({
+        hash: otherPsbt.txInputs[0].hash,
+        index: 1,
+        witnessUtxo: otherPsbt.data.inputs[0].witnessUtxo,
+        witnessScript: otherPsbt.data.inputs[0].witnessScript,
+      });
+
+      expect(
+        wallet.signAllInputs(psbt, keyPairs[0]).map((r) => r.status)
+      ).toEqual(["signed", "notSignable"]);
+    });
   });
 
   describe("Transaction Verification and Finalization", () => {
     let wallet: MultisigWallet;
     let keyPairs: any[];
-    const mockUTXO = {
-      txid: "1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
-      vout: 0,
-      value: BigInt(100000),
-      scriptPubKey: "0020" + "00".repeat(32), // Mock P2WSH script
-    };
+    let mockUTXO: UTXO;
 
     beforeEach(() => {
       const testWallet = createTestWallet(2);
       wallet = testWallet.wallet;
       keyPairs = testWallet.keyPairs;
+
+      mockUTXO = createTestUtxo(wallet.getAddresses().p2wsh);
     });
 
     it("should verify transaction with sufficient signatures", () => {
@@ -156,7 +275,7 @@ describe("MultisigWallet", () => {
       wallet.signTransaction(psbt, keyPairs[0], 0);
       wallet.signTransaction(psbt, keyPairs[1], 0);
 
-      expect(wallet.verifyTransaction(psbt)).toBe(true);
+      expect(wallet.verifyTransaction(psbt).valid).toBe(true);
     });
 
     it("should fail verification with insufficient signatures", () => {
@@ -171,26 +290,1038 @@ describe("MultisigWallet", () => {
 
       wallet.signTransaction(psbt, keyPairs[0], 0);
 
-      expect(wallet.verifyTransaction(psbt)).toBe(false);
+      expect(wallet.verifyTransaction(psbt).valid).toBe(false);
     });
 
-    it("should reset signers tracking", () => {
+    describe("Signature verification report", () => {
       const outputs = [
         {
           address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
           value: BigInt(50000),
         },
       ];
+      const utxo = (vout: number, address: string): UTXO =>
+        createTestUtxo(address, 100000, vout);
 
-      const psbt = wallet.createTransaction([mockUTXO], outputs, 1000);
+      it("should report valid and missing signatures per input", () => {
+        const { p2sh, p2wsh, p2tr } = wallet.getAddresses();
+        const psbt = wallet.createTransaction(
+          [utxo(0, p2sh), utxo(1, p2wsh), utxo(2, p2tr)],
+          outputs,
+          1000
+        );
+        expect(wallet.signTransaction(psbt, keyPairs[0], 0)).toBe(true);
+        expect(
+          wallet.signAllInputs(psbt, keyPairs[1]).map((r) => r.status)
+        ).toEqual(["signed", "signed", "signed"]);
 
-      wallet.signTransaction(psbt, keyPairs[0], 0);
-      wallet.resetSigners();
+        const report = wallet.verifyTransaction(psbt);
+        expect(report.valid).toBe(false);
+        expect(
+          report.inputs.map(({ status, validSignatures }) => ({
+            status,
+            validSignatures,
+          }))
+        ).toEqual([
+          { status: "valid", validSignatures: 2 },
+          { status: "missing", validSignatures: 1 },
+          { status: "missing", validSignatures: 1 },
+        ]);
+
+        wallet.signAllInputs(psbt, keyPairs[2]);
+        expect(wallet.verifyTransaction(psbt).valid).toBe(true);
+      });
+
+      it("should detect corrupted ECDSA and Schnorr signatures", () => {
+        const { p2wsh, p2tr } = wallet.getAddresses();
+        const psbt = wallet.createTransaction(
+          [utxo(0, p2wsh), utxo(1, p2tr)],
+          outputs,
+          1000
+        );
+        wallet.signAllInputs(psbt, keyPairs[0]);
+        wallet.signAllInputs(psbt, keyPairs[1]);
+
+        const ecdsa = psbt.data.inputs[0].partialSig![0];
+        const decoded = bitcoin.script.signature.decode(ecdsa.signature);
+        decoded.signature[40] ^= 1;
+        ecdsa.signature = bitcoin.script.signature.encode(
+          decoded.signature,
+          decoded.hashType
+        );
+        psbt.data.inputs[1].tapScriptSig![1].signature[10] ^= 1;
 
-      // Should be able to sign with the same key again after reset
+        const report = wallet.verifyTransaction(psbt);
+        expect(report.inputs.map((input) => input.status)).toEqual([
+          "invalid",
+          "invalid",
+        ]);
+        expect(report.inputs[0].signatures[0].error).toBe(
+          "ECDSA signature does not match the sighash"
+        );
+        expect(report.inputs[1].signatures[1].error).toBe(
+          "Schnorr signature does not match the sighash"
+        );
+        expect(() => wallet.finalizeTransaction(psbt)).toThrow(
+          "Transaction verification failed: input 0 invalid, input 1 invalid"
+        );
+      });
+
+      it("should reject signatures for another transaction", () => {
+        const psbt = wallet.createTransaction(
+          [utxo(0, wallet.getAddresses().p2wsh)],
+          outputs,
+          1000
+        );
+        const other = wallet.createTransaction(
+          [utxo(0, wallet.getAddresses().p2wsh)],
+          outputs,
+          2000
+        );
+        wallet.signAllInputs(psbt, keyPairs[0]);
+        wallet.signAllInputs(other, keyPairs[1]);
+        psbt.data.inputs[0].partialSig!.push(
+          other.data.inputs[0].partialSig![0]
+        );
+
+        expect(wallet.verifyTransaction(psbt).inputs[0].status).toBe("invalid");
+      });
+
+      it("should reject unexpected sighash types", () => {
+        const psbt = wallet.createTransaction(
+          [utxo(0, wallet.getAddresses().p2wsh)],
+          outputs,
+          1000
+        );
+        wallet.signAllInputs(psbt, keyPairs[0]);
+        wallet.signAllInputs(psbt, keyPairs[1]);
+        const sig = psbt.data.inputs[0].partialSig![0];
+        sig.signature = bitcoin.script.signature.encode(
+          bitcoin.script.signature.decode(sig.signature).signature,
+          bitcoin.Transaction.SIGHASH_NONE
+        );
+
+        const report = wallet.verifyTransaction(psbt);
+        expect(report.inputs[0].signatures[0]).toMatchObject({
+          status: "invalid",
+          error: "Unexpected sighash type 2, expected 1",
+        });
+      });
+
+      it("should report signatures from keys outside the wallet", () => {
+        const psbt = wallet.createTransaction(
+          [utxo(0, wallet.getAddresses().p2wsh)],
+          outputs,
+          1000
+        );
+        wallet.signAllInputs(psbt, keyPairs[0]);
+        wallet.signAllInputs(psbt, keyPairs[1]);
+        const stranger = ECPair.makeRandom({ network });
+        psbt.data.inputs[0].partialSig!.push({
+          pubkey: Buffer.from(stranger.publicKey),
+          signature: psbt.data.inputs[0].partialSig![0].signature,
+        });
+
+        const report = wallet.verifyTransaction(psbt);
+        expect(report.inputs[0].status).toBe("foreignKey");
+        expect(report.inputs[0].validSignatures).toBe(2);
+        expect(report.inputs[0].signatures[2].status).toBe("foreignKey");
+      });
+    });
+
+    it("should let the same key sign other transactions", () => {
+      const outputs = [
+        {
+          address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+          value: BigInt(50000),
+        },
+      ];
+
+      const psbt1 = wallet.createTransaction([mockUTXO], outputs, 1000);
+      const psbt2 = wallet.createTransaction([mockUTXO], outputs, 2000);
+
+      wallet.signTransaction(psbt1, keyPairs[0], 0);
+
+      // Signing state is kept per PSBT, not on the wallet
       expect(() => {
-        wallet.signTransaction(psbt, keyPairs[0], 0);
+        wallet.signTransaction(psbt2, keyPairs[0], 0);
       }).not.toThrow();
     });
   });
+
+  describe("Nested SegWit P2SH-P2WSH", () => {
+    let wallet: MultisigWallet;
+    let keyPairs: any[];
+    let nestedUTXO: UTXO;
+    const outputs = [
+      {
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: BigInt(50000),
+      },
+    ];
+
+    beforeEach(() => {
+      const testWallet = createTestWallet(2);
+      wallet = testWallet.wallet;
+      keyPairs = testWallet.keyPairs;
+
+      nestedUTXO = createTestUtxo(wallet.getAddresses().p2shP2wsh);
+    });
+
+    it("should construct the input with P2WSH redeem script and multisig witness script", () => {
+      const psbt = wallet.createTransaction([nestedUTXO], outputs, 1000);
+      const input = psbt.data.inputs[0];
+      const p2wsh = bitcoin.payments.p2wsh({
+        redeem: { output: wallet.getRedeemScript() },
+        network,
+      });
+
+      expect(input.redeemScript).toEqual(p2wsh.output);
+      expect(input.witnessScript).toEqual(wallet.getRedeemScript());
+      expect(input.witnessUtxo!.script.toString("hex")).toBe(
+        nestedUTXO.scriptPubKey
+      );
+    });
+
+    it("should sign and finalize a nested SegWit spend", () => {
+      const psbt = wallet.createTransaction([nestedUTXO], outputs, 1000);
+
+      wallet.signTransaction(psbt, keyPairs[0], 0);
+      wallet.signTransaction(psbt, keyPairs[1], 0);
+      expect(
+        psbt.validateSignaturesOfInput(0, (pubkey, msghash, signature) =>
+          ECPair.fromPublicKey(pubkey).verify(msghash, signature)
+        )
+      ).toBe(true);
+
+      const tx = bitcoin.Transaction.fromHex(wallet.finalizeTransaction(psbt));
+      const p2wsh = bitcoin.payments.p2wsh({
+        redeem: { output: wallet.getRedeemScript() },
+        network,
+      });
+
+      // scriptSig only pushes the P2WSH program, signatures live in the witness
+      expect(bitcoin.script.decompile(tx.ins[0].script)).toEqual([
+        p2wsh.output,
+      ]);
+      expect(tx.ins[0].witness).toHaveLength(4);
+      expect(tx.ins[0].witness[3]).toEqual(wallet.getRedeemScript());
+    });
+  });
+
+  describe("Taproot multi_a Script Path", () => {
+    let wallet: MultisigWallet;
+    let keyPairs: any[];
+    let taprootUTXO: UTXO;
+    const outputs = [
+      {
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: BigInt(50000),
+      },
+    ];
+
+    beforeEach(() => {
+      const testWallet = createTestWallet(2);
+      wallet = testWallet.wallet;
+      keyPairs = testWallet.keyPairs;
+
+      taprootUTXO = createTestUtxo(wallet.getAddresses().p2tr);
+    });
+
+    it("should build a BIP342 multi_a leaf", () => {
+      const chunks = bitcoin.script.decompile(
+        wallet.getTaprootInfo().leafScript
+      )!;
+
+      expect(chunks).toHaveLength(3 * 2 + 2);
+      expect(chunks[1]).toBe(bitcoin.opcodes.OP_CHECKSIG);
+      expect(chunks[3]).toBe(bitcoin.opcodes.OP_CHECKSIGADD);
+      expect(chunks[5]).toBe(bitcoin.opcodes.OP_CHECKSIGADD);
+      expect(chunks[6]).toBe(bitcoin.opcodes.OP_2);
+      expect(chunks[7]).toBe(bitcoin.opcodes.OP_NUMEQUAL);
+    });
+
+    it("should sign and finalize a 2-of-3 script path spend", () => {
+      const psbt = wallet.createTransaction([taprootUTXO], outputs, 1000);
+
+      expect(wallet.signTransaction(psbt, keyPairs[0], 0)).toBe(true);
+      expect(wallet.signTransaction(psbt, keyPairs[2], 0)).toBe(true);
+      expect(
+        psbt.validateSignaturesOfInput(0, (pubkey, msghash, signature) =>
+          tinysecp.verifySchnorr(msghash, pubkey, signature)
+        )
+      ).toBe(true);
+      expect(wallet.verifyTransaction(psbt).valid).toBe(true);
+
+      const tx = bitcoin.Transaction.fromHex(wallet.finalizeTransaction(psbt));
+      const witness = tx.ins[0].witness;
+
+      // One element per key, then the leaf script and control block
+      expect(witness).toHaveLength(5);
+      expect(witness.slice(0, 3).filter((w) => w.length === 64)).toHaveLength(
+        2
+      );
+      expect(witness[3]).toEqual(wallet.getTaprootInfo().leafScript);
+      expect(witness[4]).toEqual(wallet.getTaprootInfo().controlBlock);
+    });
+
+    it("should only use m signatures when more signers have signed", () => {
+      const psbt = wallet.createTransaction([taprootUTXO], outputs, 1000);
+      keyPairs.forEach((keyPair) => wallet.signTransaction(psbt, keyPair, 0));
+
+      const tx = bitcoin.Transaction.fromHex(wallet.finalizeTransaction(psbt));
+      expect(
+        tx.ins[0].witness.slice(0, 3).filter((w) => w.length === 64)
+      ).toHaveLength(2);
+    });
+
+    it("should fail verification with insufficient signatures", () => {
+      const psbt = wallet.createTransaction([taprootUTXO], outputs, 1000);
+      wallet.signTransaction(psbt, keyPairs[0], 0);
+
+      expect(wallet.verifyTransaction(psbt).valid).toBe(false);
+    });
+
+    it("should use the NUMS point as internal key by default", () => {
+      expect(wallet.getTaprootInfo().internalKey.toString("hex")).toBe(
+        "50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0"
+      );
+    });
+
+    it("should use the MuSig2 aggregate key as internal key when requested", () => {
+      const pubkeys = keyPairs.map((kp) => Buffer.from(kp.publicKey));
+      const musigWallet = new MultisigWallet(2, pubkeys, {
+        musigInternalKey: true,
+      });
+
+      expect(musigWallet.getTaprootInfo().internalKey).toEqual(
+        getXOnlyPublicKey(keyAgg(keySort(pubkeys)))
+      );
+      expect(musigWallet.getAddresses().p2tr).not.toBe(
+        wallet.getAddresses().p2tr
+      );
+    });
+  });
+
+  describe("Change Outputs", () => {
+    let wallet: MultisigWallet;
+    let keyPairs: any[];
+    const destination = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+    const utxo = (value: number): UTXO =>
+      createTestUtxo(wallet.getAddresses().p2wsh, value);
+    const outputs = [{ address: destination, value: BigInt(50000) }];
+
+    beforeEach(() => {
+      const testWallet = createTestWallet(2);
+      wallet = testWallet.wallet;
+      keyPairs = testWallet.keyPairs;
+    });
+
+    it("should return the excess to the wallet and mark it as change", () => {
+      const psbt = wallet.createTransaction([utxo(100000)], outputs, 1000);
+
+      expect(psbt.txOutputs[1].address).toBe(wallet.getAddresses().p2wsh);
+      expect(psbt.txOutputs[1].value).toBe(49000);
+      expect(psbt.data.outputs[1].witnessScript).toEqual(
+        wallet.getRedeemScript()
+      );
+      expect(wallet.getChangeOutputs(psbt)).toEqual([1]);
+    });
+
+    it("should give change below the dust threshold to the fee", () => {
+      const psbt = wallet.createTransaction([utxo(51300)], outputs, 1000);
+
+      expect(psbt.txOutputs).toHaveLength(1);
+      expect(wallet.getChangeOutputs(psbt)).toEqual([]);
+    });
+
+    it("should keep change at the dust threshold", () => {
+      const psbt = wallet.createTransaction([utxo(51330)], outputs, 1000);
+
+      expect(psbt.txOutputs).toHaveLength(2);
+      expect(psbt.txOutputs[1].value).toBe(330);
+    });
+
+    it("should pay the fee rate for the change output", () => {
+      const psbt = wallet.createTransaction([utxo(100000)], outputs, 0, {
+        feeRate: 5,
+      });
+      wallet.signTransaction(psbt, keyPairs[0], 0);
+      wallet.signTransaction(psbt, keyPairs[1], 0);
+      const tx = bitcoin.Transaction.fromHex(wallet.finalizeTransaction(psbt));
+
+      const fee = 100000 - 50000 - tx.outs[1].value;
+      expect(fee / tx.virtualSize()).toBeGreaterThanOrEqual(5);
+      expect(fee / tx.virtualSize()).toBeLessThan(5.1);
+    });
+
+    it("should send change to another wallet with the requested type", () => {
+      const changeWallet = createTestWallet(2).wallet;
+      const psbt = wallet.createTransaction([utxo(100000)], outputs, 1000, {
+        changeWallet,
+        changeType: "p2tr",
+      });
+
+      expect(psbt.txOutputs[1].address).toBe(changeWallet.getAddresses().p2tr);
+      expect(psbt.data.outputs[1].tapInternalKey).toEqual(
+        changeWallet.getTaprootInfo().internalKey
+      );
+      expect(changeWallet.getChangeOutputs(psbt)).toEqual([1]);
+      expect(wallet.getChangeOutputs(psbt)).toEqual([]);
+    });
+
+    it("should not treat unmarked payments to the wallet as change", () => {
+      const psbt = wallet.createTransaction(
+        [utxo(100000)],
+        [{ address: wallet.getAddresses().p2sh, value: BigInt(99000) }],
+        1000
+      );
+
+      expect(psbt.txOutputs).toHaveLength(1);
+      expect(wallet.getChangeOutputs(psbt)).toEqual([]);
+    });
+  });
+
+  describe("Fee Bumping", () => {
+    let wallet: MultisigWallet;
+    let keyPairs: any[];
+    const destination = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+    const outputs = [{ address: destination, value: BigInt(50000) }];
+    const utxo = (vout: number, value: number, height?: number): UTXO => ({
+      ...createTestUtxo(wallet.getAddresses().p2wsh, value, vout),
+      height,
+    });
+    const feeOf = (psbt: bitcoin.Psbt) =>
+      psbt.data.inputs.reduce(
+        (sum, input) => sum + input.witnessUtxo!.value,
+        0
+      ) - psbt.txOutputs.reduce((sum, output) => sum + output.value, 0);
+    const signAndFinalize = (psbt: bitcoin.Psbt) => {
+      wallet.signAllInputs(psbt, keyPairs[0]);
+      wallet.signAllInputs(psbt, keyPairs[1]);
+      return wallet.finalizeTransaction(psbt);
+    };
+
+    beforeEach(() => {
+      const testWallet = createTestWallet(2);
+      wallet = testWallet.wallet;
+      keyPairs = testWallet.keyPairs;
+    });
+
+    it("should signal replaceability unless disabled", () => {
+      const psbt = wallet.createTransaction([utxo(0, 100000)], outputs, 1000);
+      expect(psbt.txInputs[0].sequence).toBe(0xfffffffd);
+
+      const final = wallet.createTransaction([utxo(0, 100000)], outputs, 1000, {
+        rbf: false,
+      });
+      expect(final.txInputs[0].sequence).toBe(0xffffffff);
+    });
+
+    it("should replace a PSBT by reducing its change", () => {
+      const original = wallet.createTransaction([utxo(0, 100000)], outputs, 0, {
+        feeRate: 2,
+      });
+      const replacement = wallet.createReplacement(original, 10);
+
+      expect(replacement.txInputs).toHaveLength(1);
+      expect(replacement.txOutputs[0]).toEqual(original.txOutputs[0]);
+      expect(replacement.txOutputs[1].value).toBeLessThan(
+        original.txOutputs[1].value
+      );
+      expect(wallet.getChangeOutputs(replacement)).toEqual([1]);
+      expect(feeOf(replacement)).toBeGreaterThanOrEqual(5 * feeOf(original));
+    });
+
+    it("should replace a signed raw transaction", () => {
+      const utxos = [utxo(0, 100000)];
+      const original = wallet.createTransaction(utxos, outputs, 0, {
+        feeRate: 2,
+      });
+      const hex = signAndFinalize(original);
+
+      const replacement = wallet.createReplacement(hex, 5, { utxos });
+      const tx = bitcoin.Transaction.fromHex(signAndFinalize(replacement));
+      const originalTx = bitcoin.Transaction.fromHex(hex);
+      const fee = (t: bitcoin.Transaction) =>
+        100000 - t.outs.reduce((sum, output) => sum + output.value, 0);
+
+      expect(fee(tx) / tx.virtualSize()).toBeGreaterThanOrEqual(5);
+      expect(fee(tx) - fee(originalTx)).toBeGreaterThanOrEqual(
+        tx.virtualSize()
+      );
+    });
+
+    it("should add confirmed UTXOs when the change runs out", () => {
+      const original = wallet.createTransaction([utxo(0, 50500)], outputs, 0, {
+        feeRate: 2,
+      });
+      expect(original.txOutputs).toHaveLength(1);
+
+      const replacement = wallet.createReplacement(original, 20, {
+        utxos: [utxo(1, 30000), utxo(2, 20000, 800000)],
+      });
+
+      expect(replacement.txInputs.map((input) => input.index)).toEqual([0, 2]);
+      expect(() =>
+        wallet.createReplacement(original, 20, { utxos: [utxo(1, 30000)] })
+      ).toThrow("Insufficient funds for transaction");
+    });
+
+    it("should reject replacements that break BIP125 rules", () => {
+      const original = wallet.createTransaction([utxo(0, 100000)], outputs, 0, {
+        feeRate: 5,
+      });
+      const cheaper = wallet.createTransaction([utxo(0, 100000)], outputs, 0, {
+        feeRate: 2,
+      });
+      const unrelated = wallet.createTransaction(
+        [utxo(1, 100000)],
+        outputs,
+        0,
+        {
+          feeRate: 20,
+        }
+      );
+      const tooSmall = wallet.createTransaction(
+        [utxo(0, 100000)],
+        outputs,
+        feeOf(original) + 10
+      );
+
+      expect(() => wallet.validateReplacement(original, cheaper)).toThrow(
+        "Replacement must pay a higher absolute fee"
+      );
+      expect(() => wallet.validateReplacement(original, unrelated)).toThrow(
+        "Replacement does not conflict with the original transaction"
+      );
+      expect(() => wallet.validateReplacement(original, tooSmall)).toThrow(
+        "Replacement fee increase must cover the incremental relay fee"
+      );
+    });
+
+    it("should refuse to replace transactions that don't signal RBF", () => {
+      const original = wallet.createTransaction([utxo(0, 100000)], outputs, 0, {
+        feeRate: 2,
+        rbf: false,
+      });
+      expect(() => wallet.createReplacement(original, 10)).toThrow(
+        "Original transaction does not signal BIP125 replaceability"
+      );
+    });
+
+    it("should build a CPFP child lifting the package fee rate", () => {
+      const parent = wallet.createTransaction([utxo(0, 100000)], outputs, 0, {
+        feeRate: 1,
+      });
+      const parentHex = signAndFinalize(parent);
+      const parentTx = bitcoin.Transaction.fromHex(parentHex);
+
+      const child = wallet.createCpfpChild(parent, 10);
+      expect(child.txInputs[0].hash.reverse().toString("hex")).toBe(
+        parentTx.getId()
+      );
+      expect(child.txInputs[0].index).toBe(1);
+
+      const childTx = bitcoin.Transaction.fromHex(signAndFinalize(child));
+      const parentFee =
+        100000 - parentTx.outs.reduce((sum, output) => sum + output.value, 0);
+      const childFee = parentTx.outs[1].value - childTx.outs[0].value;
+      expect(
+        (parentFee + childFee) /
+          (parentTx.virtualSize() + childTx.virtualSize())
+      ).toBeGreaterThanOrEqual(10);
+    });
+
+    it("should require a finalized parent for CPFP", () => {
+      const parent = wallet.createTransaction([utxo(0, 100000)], outputs, 1000);
+      expect(() => wallet.createCpfpChild(parent, 10)).toThrow(
+        "Parent transaction must be finalized"
+      );
+    });
+  });
+
+  describe("Decaying Multisig Recovery Path", () => {
+    // About 6 months of blocks
+    const SIX_MONTHS = 26280;
+    let keyPairs: any[];
+    let wallet: MultisigWallet;
+    const outputs = [
+      {
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: BigInt(50000),
+      },
+    ];
+    const utxo = (vout: number, address: string): UTXO =>
+      createTestUtxo(address, 100000, vout);
+
+    beforeEach(() => {
+      keyPairs = [0, 1, 2].map(() => ECPair.makeRandom({ network }));
+      wallet = new MultisigWallet(
+        2,
+        keyPairs.map((kp) => Buffer.from(kp.publicKey)),
+        {
+          recovery: {
+            threshold: 1,
+            timelock: { type: "relative", blocks: SIX_MONTHS },
+          },
+        }
+      );
+    });
+
+    it("should add a timelocked OP_IF branch to the scripts", () => {
+      const chunks = bitcoin.script.decompile(wallet.getRedeemScript())!;
+      expect(chunks[0]).toBe(bitcoin.opcodes.OP_IF);
+      expect(chunks).toContain(bitcoin.opcodes.OP_ELSE);
+      expect(chunks).toContain(bitcoin.opcodes.OP_CHECKSEQUENCEVERIFY);
+      expect(chunks[chunks.length - 1]).toBe(bitcoin.opcodes.OP_ENDIF);
+
+      const taproot = wallet.getTaprootInfo();
+      expect(taproot.recoveryLeafScript).toBeDefined();
+      // Both leaves sit at depth 1 of the tree
+      expect(taproot.controlBlock.length).toBe(65);
+      expect(taproot.recoveryControlBlock!.length).toBe(65);
+
+      const plain = new MultisigWallet(
+        2,
+        keyPairs.map((kp) => Buffer.from(kp.publicKey))
+      );
+      expect(wallet.getAddresses().p2wsh).not.toBe(plain.getAddresses().p2wsh);
+      expect(wallet.getAddresses().p2tr).not.toBe(plain.getAddresses().p2tr);
+      expect(() => wallet.getDescriptor()).toThrow(
+        "Wallets with a recovery path have no sortedmulti descriptor"
+      );
+    });
+
+    it("should spend through the primary branch with m signatures", () => {
+      const { p2wsh, p2shP2wsh, p2tr } = wallet.getAddresses();
+      const psbt = wallet.createTransaction(
+        [utxo(0, p2wsh), utxo(1, p2shP2wsh), utxo(2, p2tr)],
+        outputs,
+        0,
+        { feeRate: 2 }
+      );
+      wallet.signAllInputs(psbt, keyPairs[0]);
+      wallet.signAllInputs(psbt, keyPairs[1]);
+
+      const tx = bitcoin.Transaction.fromHex(
+        wallet.finalizeTransaction(psbt, { verifyScripts: true })
+      );
+      // OP_1 selects the OP_IF branch
+      const witness = tx.ins[0].witness;
+      expect(witness[witness.length - 2]).toEqual(Buffer.from([1]));
+      expect(tx.ins[0].sequence).toBe(0xfffffffd);
+    });
+
+    it("should spend through the recovery branch after the relative timelock", () => {
+      const { p2wsh, p2shP2wsh, p2tr } = wallet.getAddresses();
+      const psbt = wallet.createTransaction(
+        [utxo(0, p2wsh), utxo(1, p2shP2wsh), utxo(2, p2tr)],
+        outputs,
+        0,
+        { feeRate: 2, spendPath: "recovery" }
+      );
+      expect(
+        psbt.txInputs.every((input) => input.sequence === SIX_MONTHS)
+      ).toBe(true);
+      expect(psbt.data.inputs[2].tapLeafScript![0].script).toEqual(
+        wallet.getTaprootInfo().recoveryLeafScript
+      );
+
+      // One signature is enough once the timelock expired
+      wallet.signAllInputs(psbt, keyPairs[2]);
+      expect(wallet.verifyTransaction(psbt).valid).toBe(true);
+
+      const tx = bitcoin.Transaction.fromHex(
+        wallet.finalizeTransaction(psbt, { verifyScripts: true })
+      );
+      // An empty selector takes the OP_ELSE branch
+      const witness = tx.ins[0].witness;
+      expect(witness).toHaveLength(4);
+      expect(witness[witness.length - 2]).toEqual(Buffer.alloc(0));
+
+      // Before the timelock expires OP_CHECKSEQUENCEVERIFY fails
+      const prevouts = psbt.data.inputs.map((input) => input.witnessUtxo!);
+      tx.ins[0].sequence = SIX_MONTHS - 1;
+      expect(() => verifyInputScript(tx, 0, prevouts)).toThrow(
+        "Relative locktime requirement not satisfied"
+      );
+    });
+
+    it("should require m signatures when the timelock isn't satisfied", () => {
+      const psbt = wallet.createTransaction(
+        [utxo(0, wallet.getAddresses().p2wsh)],
+        outputs,
+        1000
+      );
+      wallet.signAllInputs(psbt, keyPairs[2]);
+
+      expect(wallet.verifyTransaction(psbt).inputs[0].status).toBe("missing");
+      expect(() => wallet.finalizeTransaction(psbt)).toThrow(
+        "Transaction verification failed: input 0 missing"
+      );
+    });
+
+    it("should set nLockTime for an absolute timelock with a recovery key", () => {
+      const recoveryKey = ECPair.makeRandom({ network });
+      const recoveryWallet = new MultisigWallet(
+        2,
+        keyPairs.map((kp) => Buffer.from(kp.publicKey)),
+        {
+          recovery: {
+            threshold: 1,
+            timelock: { type: "absolute", locktime: 900000 },
+            publicKeys: [Buffer.from(recoveryKey.publicKey)],
+          },
+        }
+      );
+      const { p2wsh, p2tr } = recoveryWallet.getAddresses();
+      const psbt = recoveryWallet.createTransaction(
+        [utxo(0, p2wsh), utxo(1, p2tr)],
+        outputs,
+        1000,
+        { spendPath: "recovery", rbf: false }
+      );
+      expect(psbt.locktime).toBe(900000);
+      expect(psbt.txInputs[0].sequence).toBe(0xfffffffe);
+
+      // Cosigner signatures don't count towards the recovery branch
+      recoveryWallet.signAllInputs(psbt, keyPairs[0]);
+      expect(recoveryWallet.verifyTransaction(psbt).valid).toBe(false);
+      const results = recoveryWallet.signAllInputs(psbt, recoveryKey);
+      expect(results.map((result) => result.status)).toEqual([
+        "signed",
+        "signed",
+      ]);
+
+      const tx = bitcoin.Transaction.fromHex(
+        recoveryWallet.finalizeTransaction(psbt, { verifyScripts: true })
+      );
+      expect(tx.locktime).toBe(900000);
+    });
+
+    it("should record the leaves of each key for recovery path spends", () => {
+      const path = "m/48'/1'/0'/2'/0/0";
+      const roots = [0, 1, 2, 3].map((i) =>
+        bip32.fromSeed(Buffer.alloc(32, i), network)
+      );
+      const keys = roots.map((root) =>
+        Buffer.from(root.derivePath(path).publicKey)
+      );
+      const keyOrigins = roots.map((root, i) => ({
+        masterFingerprint: Buffer.from(root.fingerprint),
+        path,
+        pubkey: keys[i],
+      }));
+      // Cosigner 0 and the dedicated key 3 can spend through recovery
+      const recoveryWallet = new MultisigWallet(2, keys.slice(0, 3), {
+        recovery: {
+          threshold: 1,
+          timelock: { type: "relative", blocks: SIX_MONTHS },
+          publicKeys: [keys[0], keys[3]],
+        },
+        keyOrigins,
+      });
+      const psbt = recoveryWallet.createTransaction(
+        [utxo(0, recoveryWallet.getAddresses().p2tr)],
+        outputs,
+        1000,
+        { spendPath: "recovery" }
+      );
+
+      const taproot = recoveryWallet.getTaprootInfo();
+      const primary = tapleafHash(taproot.leafScript);
+      const recovery = tapleafHash(taproot.recoveryLeafScript!);
+      const leafHashes = (key: Buffer) =>
+        psbt.data.inputs[0].tapBip32Derivation!.find((derivation) =>
+          derivation.pubkey.equals(key.subarray(1, 33))
+        )!.leafHashes;
+      expect(leafHashes(keys[0])).toEqual([primary, recovery]);
+      expect(leafHashes(keys[1])).toEqual([primary]);
+      expect(leafHashes(keys[3])).toEqual([recovery]);
+
+      // The dedicated recovery key signs from its derivation record
+      expect(
+        recoveryWallet.signWithExtendedKey(psbt, roots[3].toBase58())
+      ).toEqual([{ index: 0, status: "signed" }]);
+      expect(
+        recoveryWallet.finalizeTransaction(psbt, { verifyScripts: true })
+      ).toMatch(/^[0-9a-f]+$/);
+
+      expect(
+        () =>
+          new MultisigWallet(2, keys.slice(0, 3), {
+            keyOrigins: [keyOrigins[3]],
+          })
+      ).toThrow("Key origin 0 is not a key of the wallet");
+    });
+
+    it("should reject invalid recovery paths", () => {
+      const pubkeys = keyPairs.map((kp) => Buffer.from(kp.publicKey));
+      const relative = { type: "relative" as const, blocks: SIX_MONTHS };
+      expect(
+        () =>
+          new MultisigWallet(2, pubkeys, {
+            recovery: { threshold: 0, timelock: relative },
+          })
+      ).toThrow("Recovery threshold must be a positive integer");
+      expect(
+        () =>
+          new MultisigWallet(2, pubkeys, {
+            recovery: { threshold: 4, timelock: relative },
+          })
+      ).toThrow("Recovery threshold cannot exceed number of recovery keys");
+      expect(
+        () =>
+          new MultisigWallet(2, pubkeys, {
+            recovery: {
+              threshold: 1,
+              timelock: { type: "relative", blocks: 70000 },
+            },
+          })
+      ).toThrow("Relative timelock must be between 1 and 65535 blocks");
+
+      const { wallet: plain } = createTestWallet(2);
+      expect(() =>
+        plain.createTransaction(
+          [utxo(0, plain.getAddresses().p2wsh)],
+          outputs,
+          1000,
+          { spendPath: "recovery" }
+        )
+      ).toThrow("Wallet has no recovery path");
+    });
+  });
+
+  describe("Spending Policies", () => {
+    const SIX_MONTHS = 26280;
+    const policy = `or(thresh(2,pk(A),pk(B),pk(C)),and(pk(R),older(${SIX_MONTHS})))`;
+    let keyPairs: any[];
+    let wallet: MultisigWallet;
+    const outputs = [
+      {
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: BigInt(50000),
+      },
+    ];
+    const utxo = (vout: number, address: string): UTXO =>
+      createTestUtxo(address, 100000, vout);
+
+    beforeEach(() => {
+      // Cosigners A, B and C, and recovery key R
+      keyPairs = [0, 1, 2, 3].map(() => ECPair.makeRandom({ network }));
+      wallet = new MultisigWallet(
+        { policy },
+        keyPairs.map((kp) => Buffer.from(kp.publicKey))
+      );
+    });
+
+    it("should spend with the cosigners' signatures", () => {
+      const { p2wsh, p2shP2wsh, p2tr } = wallet.getAddresses();
+      const psbt = wallet.createTransaction(
+        [utxo(0, p2wsh), utxo(1, p2shP2wsh), utxo(2, p2tr)],
+        outputs,
+        0,
+        { feeRate: 2 }
+      );
+      wallet.signAllInputs(psbt, keyPairs[0]);
+      expect(wallet.verifyTransaction(psbt).inputs[0].status).toBe("missing");
+      wallet.signAllInputs(psbt, keyPairs[2]);
+
+      expect(wallet.finalizeTransaction(psbt, { verifyScripts: true })).toMatch(
+        /^[0-9a-f]+$/
+      );
+    });
+
+    it("should spend with the recovery key after the timelock", () => {
+      const { p2wsh, p2shP2wsh, p2tr } = wallet.getAddresses();
+      const utxos = [utxo(0, p2wsh), utxo(1, p2shP2wsh), utxo(2, p2tr)];
+
+      const early = wallet.createTransaction(utxos, outputs, 1000);
+      wallet.signAllInputs(early, keyPairs[3]);
+      expect(wallet.verifyTransaction(early).valid).toBe(false);
+
+      const psbt = wallet.createTransaction(utxos, outputs, 0, {
+        feeRate: 2,
+        timelock: { type: "relative", blocks: SIX_MONTHS },
+      });
+      expect(
+        psbt.txInputs.every((input) => input.sequence === SIX_MONTHS)
+      ).toBe(true);
+      wallet.signAllInputs(psbt, keyPairs[3]);
+      expect(wallet.verifyTransaction(psbt).valid).toBe(true);
+
+      const tx = bitcoin.Transaction.fromHex(
+        wallet.finalizeTransaction(psbt, { verifyScripts: true })
+      );
+      // Dissatisfied multi(): dummy and two empty signatures
+      expect(tx.ins[0].witness.slice(1, 4)).toEqual([
+        Buffer.alloc(0),
+        Buffer.alloc(0),
+        Buffer.alloc(0),
+      ]);
+    });
+
+    it("should round trip through a miniscript descriptor", () => {
+      const descriptor = wallet.getDescriptor();
+      expect(descriptor).toMatch(/^wsh\(or_d\(multi\(2,/);
+
+      const imported = MultisigWallet.fromDescriptor(descriptor);
+      expect(imported.getAddresses()).toEqual(wallet.getAddresses());
+      expect(imported.getDescriptor()).toBe(descriptor);
+    });
+
+    it("should reject policies that don't match the public keys", () => {
+      const pubkeys = keyPairs.map((kp) => Buffer.from(kp.publicKey));
+      expect(() => new MultisigWallet({ policy }, pubkeys.slice(0, 3))).toThrow(
+        "Policy has 4 keys but 3 public keys were given"
+      );
+      expect(
+        () => new MultisigWallet({ miniscript: "and_v(pk(A),pk(B))" }, pubkeys)
+      ).toThrow("Invalid miniscript: and_v() requires a V first argument");
+      expect(
+        () =>
+          new MultisigWallet({ policy }, pubkeys, {
+            recovery: {
+              threshold: 1,
+              timelock: { type: "relative", blocks: SIX_MONTHS },
+            },
+          })
+      ).toThrow("A spending policy can't have a recovery path");
+    });
+  });
+
+  describe("Networks", () => {
+    const pubkeys = [1, 2, 3].map((i) =>
+      Buffer.from(tinysecp.pointFromScalar(Buffer.alloc(32, i), true)!)
+    );
+    const utxoFor = (wallet: MultisigWallet): UTXO => ({
+      ...createTestUtxo(
+        wallet.getAddresses().p2wsh,
+        100000,
+        0,
+        bitcoin.networks.regtest
+      ),
+      address: wallet.getAddresses().p2wsh,
+    });
+
+    it("should generate addresses for the configured network", () => {
+      const mainnet = new MultisigWallet(2, pubkeys, {
+        network: bitcoin.networks.bitcoin,
+      });
+      const regtest = new MultisigWallet(2, pubkeys, {
+        network: bitcoin.networks.regtest,
+      });
+      const signet = new MultisigWallet(2, pubkeys, {
+        network: signetNetwork,
+      });
+
+      expect(mainnet.getAddresses().p2wsh).toMatch(/^bc1q/);
+      expect(mainnet.getAddresses().p2sh).toMatch(/^3/);
+      expect(regtest.getAddresses().p2wsh).toMatch(/^bcrt1q/);
+      expect(regtest.getAddresses().p2tr).toMatch(/^bcrt1p/);
+      // Signet shares testnet's address prefixes
+      expect(signet.getAddresses()).toEqual(
+        new MultisigWallet(2, pubkeys).getAddresses()
+      );
+    });
+
+    it("should create PSBTs paying regtest addresses", () => {
+      const wallet = new MultisigWallet(2, pubkeys, {
+        network: bitcoin.networks.regtest,
+      });
+      const psbt = wallet.createTransaction(
+        [utxoFor(wallet)],
+        [{ address: wallet.getAddresses().p2tr, value: BigInt(50000) }],
+        1000
+      );
+
+      expect(psbt.txOutputs[0].address).toBe(wallet.getAddresses().p2tr);
+      expect(
+        MultisigWallet.fromDescriptor(
+          wallet.getDescriptor(),
+          0,
+          bitcoin.networks.regtest
+        ).getAddresses()
+      ).toEqual(wallet.getAddresses());
+    });
+
+    it("should refuse to mix networks", () => {
+      const wallet = new MultisigWallet(2, pubkeys, {
+        network: bitcoin.networks.regtest,
+      });
+      const testnetWallet = new MultisigWallet(2, pubkeys);
+      const utxo = utxoFor(wallet);
+      const output = {
+        address: wallet.getAddresses().p2wsh,
+        value: BigInt(5000),
+      };
+
+      expect(() =>
+        wallet.createTransaction(
+          [utxo],
+          [{ ...output, address: testnetWallet.getAddresses().p2wsh }],
+          1000
+        )
+      ).toThrow(
+        `Address ${testnetWallet.getAddresses().p2wsh} is for testnet, not the wallet's network`
+      );
+      expect(() =>
+        wallet.createTransaction(
+          [{ ...utxo, address: testnetWallet.getAddresses().p2wsh }],
+          [output],
+          1000
+        )
+      ).toThrow("is for testnet, not the wallet's network");
+      expect(() =>
+        wallet.createTransaction([utxo], [output], 1000, {
+          changeWallet: testnetWallet,
+        })
+      ).toThrow("Change wallet is on a different network");
+      expect(() =>
+        wallet.createTransaction(
+          [utxo],
+          [{ ...output, address: "bcrt1qinvalid" }],
+          1000
+        )
+      ).toThrow("Invalid address: bcrt1qinvalid");
+    });
+  });
+
+  describe("UTXO Validation", () => {
+    it("should reject UTXOs that are not the wallet's own scripts", () => {
+      const { wallet } = createTestWallet(2);
+      const other = createTestWallet(2).wallet;
+      const utxo = (scriptPubKey: Buffer): UTXO => ({
+        ...createTestUtxo(wallet.getAddresses().p2wsh),
+        scriptPubKey: scriptPubKey.toString("hex"),
+      });
+      const create = (scriptPubKey: Buffer) =>
+        wallet.createTransaction(
+          [utxo(scriptPubKey)],
+          [{ address: wallet.getAddresses().p2wsh, value: BigInt(50000) }],
+          1000
+        );
+
+      expect(() =>
+        create(
+          bitcoin.address.toOutputScript(other.getAddresses().p2wsh, network)
+        )
+      ).toThrow("(p2wsh) does not belong to this wallet");
+      expect(() =>
+        create(bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20) }).output!)
+      ).toThrow("(p2wpkh) does not belong to this wallet");
+      expect(() => create(Buffer.from("deadbeef", "hex"))).toThrow(
+        "scriptPubKey deadbeef (nonstandard) does not belong to this wallet"
+      );
+      expect(() =>
+        create(
+          bitcoin.address.toOutputScript(
+            wallet.getAddresses().p2shP2wsh,
+            network
+          )
+        )
+      ).not.toThrow();
+    });
+  });
 });
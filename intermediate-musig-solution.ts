@@ -1,19 +1,95 @@
 import * as bitcoin from "bitcoinjs-lib";
 import { ECPairFactory, ECPairInterface } from "ecpair";
 import * as tinysecp from "tiny-secp256k1";
+import { BIP32Factory, BIP32Interface } from "bip32";
+import * as bip39 from "bip39";
+import { getXOnlyPublicKey, keyAgg, keySort } from "./musig2";
 import {
-  validate,
-  Network as ValidatorNetwork,
-} from "bitcoin-address-validation";
+  DescriptorKey,
+  DescriptorScriptType,
+  GlobalXpub,
+  KeyOrigin,
+  deriveDescriptorKey,
+  formatMultisigDescriptor,
+  getDescriptorGlobalXpub,
+  getDescriptorKeyOrigin,
+  formatMiniscriptDescriptor,
+  isMultisigDescriptor,
+  parseMiniscriptDescriptor,
+  parseMultisigDescriptor,
+} from "./descriptors";
+import {
+  CoinSelectionStrategy,
+  feeForWeight,
+  selectCoins,
+} from "./coin-selection";
+import {
+  MultisigInputType,
+  estimateTransactionWeight,
+  getDustThreshold,
+  multisigInputWeight,
+  outputWeight,
+  scriptInputWeight,
+  serializeWitness,
+  transactionOverheadWeight,
+  weightToVsize,
+} from "./tx-weight";
+import { tapleafHash, verifyTransactionScripts } from "./script-interpreter";
+import {
+  Miniscript,
+  Satisfier,
+  compilePolicy,
+  formatMiniscript,
+  getMiniscriptKeys,
+  maxSatisfaction,
+  miniscriptToScript,
+  minimumSignatures,
+  parseMiniscript,
+  satisfy,
+  toTapMiniscript,
+} from "./miniscript";
+import {
+  Timelock,
+  isTimelockSatisfied,
+  timelockScript,
+  validateTimelock,
+} from "./timelock";
+import {
+  PsbtFormat,
+  combinePsbts,
+  exportPsbt,
+  importPsbt,
+} from "./psbt-exchange";
+import { toOutputScript } from "./networks";
+import { classifyScript } from "./script-classifier";
 
 const ECPair = ECPairFactory(tinysecp);
-const network = bitcoin.networks.testnet;
+const bip32 = BIP32Factory(tinysecp);
+bitcoin.initEccLib(tinysecp);
+
+// BIP341 "nothing up my sleeve" point with no known private key. Used as
+// the Taproot internal key when only the script path should be spendable.
+const NUMS_INTERNAL_KEY = Buffer.from(
+  "50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0",
+  "hex"
+);
+const TAPSCRIPT_LEAF_VERSION = 0xc0;
+// BIP125: any input sequence below 0xfffffffe signals replaceability
+const RBF_SEQUENCE = 0xfffffffd;
+const FINAL_SEQUENCE = 0xffffffff;
+// Enables nLockTime without signalling BIP125 replaceability
+const LOCKTIME_SEQUENCE = 0xfffffffe;
+// Bitcoin Core's default incremental relay fee rate in sat/vB
+const DEFAULT_INCREMENTAL_RELAY_FEE_RATE = 1;
 
 export interface UTXO {
   txid: string;
   vout: number;
   value: bigint;
   scriptPubKey: string;
+  height?: number; // Confirmation height, used by oldest-first selection
+  address?: string; // Address of scriptPubKey, checked against the network
+  prevTx?: string; // Hex of the transaction creating the output, for P2SH
 }
 
 interface Output {
@@ -21,24 +97,277 @@ interface Output {
   value: bigint;
 }
 
-// We are using either P2SH or P2WSH for the wallet addresses.
+/* The `RecoveryPath` interface describes the timelocked branch of a
+   decaying multisig, e.g. "1-of-3 after 6 months of inactivity":
+    1. threshold: number - Signatures required once the timelock expires
+    2. timelock: Timelock - Relative (OP_CHECKSEQUENCEVERIFY) or absolute
+       (OP_CHECKLOCKTIMEVERIFY) timelock guarding the branch
+    3. publicKeys: Buffer[] - Keys of the recovery branch, e.g. a dedicated
+       recovery key (defaults to the wallet's public keys)
+*/
+export interface RecoveryPath {
+  threshold: number;
+  timelock: Timelock;
+  publicKeys?: Buffer[];
+}
+
+/* The `SpendingPolicy` type replaces the m-of-n pair of a wallet with
+   custom spending conditions, given as either:
+    1. policy: string - A policy compiled to miniscript, e.g.
+       or(thresh(2,pk(A),pk(B),pk(C)),and(pk(R),older(26280)))
+    2. miniscript: string - A miniscript expression, e.g.
+       or_d(multi(2,A,B,C),and_v(v:pk(R),older(26280)))
+   Key names are bound to the public keys in order of first appearance.
+*/
+export type SpendingPolicy = { policy: string } | { miniscript: string };
+
+/**
+ * Branch of a decaying multisig a transaction spends through
+ */
+export type SpendPath = "primary" | "recovery";
+
+/* The `MultisigWalletOptions` interface holds optional wallet settings:
+    1. musigInternalKey: boolean - Use the MuSig2 aggregate of all public keys
+       as the Taproot internal key instead of the unspendable NUMS point, so
+       that all n signers together can also spend through the key path
+    2. recovery: RecoveryPath - Add a timelocked branch with a reduced
+       threshold. The witness script becomes
+       OP_IF <m-of-n> OP_ELSE <timelock> <recovery m-of-n> OP_ENDIF and the
+       Taproot tree gets a second leaf for the recovery branch.
+    3. network: bitcoin.Network - Network of the addresses, UTXOs and
+       outputs (defaults to testnet)
+    4. keyOrigins: KeyOrigin[] - Master fingerprint and path of the
+       wallet's and recovery keys, added to PSBTs for external signers
+*/
+export interface MultisigWalletOptions {
+  musigInternalKey?: boolean;
+  recovery?: RecoveryPath;
+  network?: bitcoin.Network;
+  keyOrigins?: KeyOrigin[];
+}
+
+/* The `CreateTransactionOptions` interface holds optional settings for
+   createTransaction:
+    1. coinSelection: CoinSelectionStrategy - Select a subset of the given
+       UTXOs instead of spending all of them (requires feeRate)
+    2. feeRate: number - Fee rate in sat/vB; the fee is computed from the
+       estimated transaction weight and the fee argument acts as a minimum
+       absolute fee
+    3. changeWallet: MultisigWallet - Wallet receiving the change, e.g. one
+       for a fresh change address (defaults to this wallet)
+    4. changeType: AddressType - Address type of the change output
+       (defaults to P2WSH)
+    5. rbf: boolean - Signal BIP125 replaceability in the input sequences
+       (defaults to true). Relative timelocks always signal it.
+    6. spendPath: SpendPath - Spend through the recovery branch, setting
+       nSequence or nLockTime to satisfy its timelock (defaults to primary)
+    7. timelock: Timelock - nSequence or nLockTime to set for the older()
+       or after() conditions of a spending policy
+*/
+export interface CreateTransactionOptions {
+  coinSelection?: CoinSelectionStrategy;
+  feeRate?: number;
+  changeWallet?: MultisigWallet;
+  changeType?: AddressType;
+  rbf?: boolean;
+  spendPath?: SpendPath;
+  timelock?: Timelock;
+}
+
+/* The `FeeBumpOptions` interface holds settings for createReplacement,
+   createCpfpChild and validateReplacement:
+    1. utxos: UTXO[] - Previous outputs spent by a raw hex transaction, and
+       confirmed UTXOs a replacement may add when the change runs out
+    2. incrementalRelayFeeRate: number - Fee rate in sat/vB the replacement
+       must pay on top of the original fee (defaults to 1)
+    3. changeWallet: MultisigWallet - Wallet owning the change output
+       (defaults to this wallet)
+    4. changeType: AddressType - Address type of new change outputs
+*/
+export interface FeeBumpOptions {
+  utxos?: UTXO[];
+  incrementalRelayFeeRate?: number;
+  changeWallet?: MultisigWallet;
+  changeType?: AddressType;
+}
+
+/* The `FinalizeOptions` interface holds settings for finalizeTransaction:
+    1. verifyScripts: boolean - Execute every input's scriptSig and witness
+       with the local script interpreter before returning the transaction
+*/
+export interface FinalizeOptions {
+  verifyScripts?: boolean;
+}
+
+/**
+ * Languages of the BIP39 wordlists
+ */
+export type MnemonicLanguage =
+  | "english"
+  | "japanese"
+  | "korean"
+  | "spanish"
+  | "chinese_simplified"
+  | "chinese_traditional"
+  | "french"
+  | "italian"
+  | "czech"
+  | "portuguese";
+
+/**
+ * The BIP39 wordlist of a language
+ * @throws If there is no wordlist for the language
+ */
+export function getWordlist(language: MnemonicLanguage): string[] {
+  const wordlist = bip39.wordlists[language];
+  if (!wordlist) {
+    throw new Error(`Unsupported wordlist language: ${language}`);
+  }
+  return wordlist;
+}
+
+/**
+ * Whether a script pushes the public key
+ */
+function scriptContainsKey(script: Buffer, pubkey: Buffer): boolean {
+  return (bitcoin.script.decompile(script) || []).some(
+    (chunk) => Buffer.isBuffer(chunk) && chunk.equals(pubkey)
+  );
+}
+
+/**
+ * The output a PSBT input spends, from its witnessUtxo or, for legacy
+ * inputs, its previous transaction
+ * @throws If the input carries neither
+ */
+function getPrevout(
+  psbt: bitcoin.Psbt,
+  index: number
+): { script: Buffer; value: number } {
+  const input = psbt.data.inputs[index];
+  if (input.witnessUtxo) {
+    return input.witnessUtxo;
+  }
+  if (input.nonWitnessUtxo) {
+    const prevTx = bitcoin.Transaction.fromBuffer(input.nonWitnessUtxo);
+    return prevTx.outs[psbt.txInputs[index].index];
+  }
+  throw new Error(`Missing previous output for input ${index}`);
+}
+
+/* The `InputSigningResult` interface reports what happened to one input
+   when signing:
+    1. index: number - The input index
+    2. status: InputSigningStatus - "signed", "alreadySigned" when the PSBT
+       already holds this key's signature, "finalized" when the input takes
+       no more signatures, "notSignable" when the key is not in the input's
+       script, or "failed"
+    3. error: string - The signing error for failed inputs
+*/
+export type InputSigningStatus =
+  "signed" | "alreadySigned" | "finalized" | "notSignable" | "failed";
+
+export interface InputSigningResult {
+  index: number;
+  status: InputSigningStatus;
+  error?: string;
+}
+
+/* The `InputVerification` interface reports the signatures of one input:
+    1. index: number - The input index
+    2. status: InputVerificationStatus - "valid" with m valid signatures
+       (or signatures satisfying the spending policy), "invalid" when a
+       signature doesn't verify against the sighash, "missing" with fewer
+       than m signatures, or "foreignKey" when a signature is from a key
+       outside the wallet
+    3. validSignatures: number - Signatures that verified, from keys of
+       the branch the input spends through
+    4. signatures: SignatureVerification[] - The outcome per signature
+*/
+export type InputVerificationStatus =
+  "valid" | "invalid" | "missing" | "foreignKey";
+
+export interface SignatureVerification {
+  pubkey: Buffer;
+  status: "valid" | "invalid" | "foreignKey";
+  error?: string;
+}
+
+export interface InputVerification {
+  index: number;
+  status: InputVerificationStatus;
+  validSignatures: number;
+  signatures: SignatureVerification[];
+}
+
+/* The `VerificationReport` interface is returned by verifyTransaction:
+    1. valid: boolean - Whether every input can be finalized
+    2. inputs: InputVerification[] - The report for each input
+*/
+export interface VerificationReport {
+  valid: boolean;
+  inputs: InputVerification[];
+}
+
+/* The `ParsedTransaction` interface describes a transaction being bumped:
+    1. tx: bitcoin.Transaction - The (possibly unsigned) transaction
+    2. prevouts: UTXO[] - The outputs spent by each input
+    3. fee: bigint - The absolute fee
+    4. vsize: number - The virtual size, estimated when not yet signed
+*/
+interface ParsedTransaction {
+  tx: bitcoin.Transaction;
+  prevouts: UTXO[];
+  fee: bigint;
+  vsize: number;
+}
+
+/* The `TaprootInfo` interface describes the wallet's Taproot output:
+    1. internalKey: Buffer - The x-only internal key
+    2. leafScript: Buffer - The multi_a (or spending policy) tapscript leaf
+    3. controlBlock: Buffer - The control block proving the leaf
+    4. merkleRoot: Buffer - The script tree merkle root
+    5. recoveryLeafScript: Buffer - The timelocked multi_a leaf of wallets
+       with a recovery path
+    6. recoveryControlBlock: Buffer - The control block proving it
+*/
+export interface TaprootInfo {
+  internalKey: Buffer;
+  leafScript: Buffer;
+  controlBlock: Buffer;
+  merkleRoot: Buffer;
+  recoveryLeafScript?: Buffer;
+  recoveryControlBlock?: Buffer;
+}
+
+// We are using either P2SH, P2WSH, P2SH-P2WSH or P2TR for the wallet addresses.
 // P2SH is the standard multisig address format
 // P2WSH is the SegWit version of the multisig address
+// P2SH-P2WSH is the SegWit version wrapped in P2SH for senders that
+// can only pay to 3-prefixed addresses
+// P2TR is the Taproot version, with a BIP342 multi_a script leaf because
+// OP_CHECKMULTISIG is disabled in tapscript
 // We don't want to use P2MS becuase it is not common to find
 // P2MS scripts in the blockchain, as most multisig transactions
 // are wrapped inside P2SH or P2WSH instead.
 
 /* The `WalletAddresses` interface is defining a structure
     for representing wallet addresses in a
-    multisig setup. It has two properties: 
+    multisig setup. It has four properties: 
     1. p2sh: string - The Pay to Script Hash address
     2. p2wsh: string - The Pay to Witness Script Hash address
+    3. p2shP2wsh: string - The P2WSH address nested in P2SH
+    4. p2tr: string - The Pay to Taproot address
 */
 interface WalletAddresses {
   p2sh: string;
   p2wsh: string;
+  p2shP2wsh: string;
+  p2tr: string;
 }
 
+export type AddressType = keyof WalletAddresses;
+
 /* The `MultisigWallet` class is a representation of a multisig wallet.
     It is initialized with the required number of signatures and the public keys of the signers.
     It creates the redeem script and the P2SH and P2WSH addresses and returns a wallet instance
@@ -49,7 +378,21 @@ interface WalletAddresses {
     4. redeemScript: Buffer - The redeem script
     5. p2shAddress: string - The Pay to Script Hash address
     6. p2wshAddress: string - The Pay to Witness Script Hash address
-    7. usedSigners: Set<string> - Track unique signers
+    7. p2shP2wshAddress: string - The P2WSH address nested in P2SH
+    8. taproot: TaprootInfo - The Taproot internal key and multi_a leaf
+    9. p2trAddress: string - The Pay to Taproot address
+    10. descriptorKeys: DescriptorKey[] - Key origins when imported from a descriptor
+    11. keyOrigins: KeyOrigin[] - Master fingerprint and path of each
+        wallet and recovery key, added to PSBTs as bip32Derivation and
+        tapBip32Derivation records for external signers
+    12. globalXpubs: GlobalXpub[] - Cosigner xpubs for PSBT_GLOBAL_XPUB
+    13. recovery: RecoveryPath - The timelocked branch of a decaying
+        multisig, with its public keys sorted
+    14. miniscript: Miniscript - The spending policy replacing the m-of-n
+        pair, with m the fewest signatures satisfying it
+    15. policyKeys: Map<string, Buffer> - Public key of each policy key name
+    Signing state lives in the PSBTs themselves, so a key can sign any
+    number of transactions.
 */
 class MultisigWallet {
   private m: number; // Required signatures
@@ -58,17 +401,39 @@ class MultisigWallet {
   private redeemScript: Buffer;
   private p2shAddress: string;
   private p2wshAddress: string;
-  private usedSigners: Set<string>; // Track unique signers
+  private p2shP2wshAddress: string;
+  private taproot: TaprootInfo;
+  private p2trAddress: string;
+  private descriptorKeys?: DescriptorKey[];
+  private keyOrigins: KeyOrigin[] = [];
+  private globalXpubs: GlobalXpub[] = [];
+  private recovery?: Required<RecoveryPath>;
+  private miniscript?: Miniscript;
+  private policyKeys?: Map<string, Buffer>;
+  private network: bitcoin.Network;
 
-  constructor(requiredSigs: number, publicKeys: Buffer[]) {
+  /**
+   * @param requiredSigs - Required signatures, or a spending policy
+   *   replacing the m-of-n pair
+   * @param publicKeys - Public keys of the signers, in the order of the
+   *   policy's key names
+   */
+  constructor(
+    requiredSigs: number | SpendingPolicy,
+    publicKeys: Buffer[],
+    options: MultisigWalletOptions = {}
+  ) {
     // Validate inputs
-    if (!Number.isInteger(requiredSigs) || requiredSigs <= 0) {
+    if (
+      typeof requiredSigs === "number" &&
+      (!Number.isInteger(requiredSigs) || requiredSigs <= 0)
+    ) {
       throw new Error("Required signatures must be a positive integer");
     }
     if (!Array.isArray(publicKeys) || publicKeys.length === 0) {
       throw new Error("Public keys array cannot be empty");
     }
-    if (requiredSigs > publicKeys.length) {
+    if (typeof requiredSigs === "number" && requiredSigs > publicKeys.length) {
       throw new Error(
         "Required signatures cannot exceed number of public keys"
       );
@@ -81,11 +446,26 @@ class MultisigWallet {
       }
     });
 
-    this.m = requiredSigs;
+    if (typeof requiredSigs !== "number") {
+      this.miniscript = this.bindSpendingPolicy(
+        requiredSigs,
+        publicKeys,
+        options
+      );
+    }
+    this.m = this.miniscript
+      ? minimumSignatures(this.miniscript)
+      : (requiredSigs as number);
     this.n = publicKeys.length;
+    this.network = options.network ?? bitcoin.networks.testnet;
     // Sort public keys for consistent script generation
     this.pubkeys = [...publicKeys].sort((a, b) => a.compare(b));
-    this.usedSigners = new Set<string>();
+    if (options.recovery) {
+      this.recovery = this.validateRecoveryPath(options.recovery);
+    }
+    if (options.keyOrigins) {
+      this.keyOrigins = this.validateKeyOrigins(options.keyOrigins);
+    }
 
     // Create redeem script and addresses
     this.redeemScript = this.createRedeemScript();
@@ -94,49 +474,246 @@ class MultisigWallet {
     const p2sh = bitcoin.payments.p2sh({
       redeem: {
         output: this.redeemScript,
-        network,
+        network: this.network,
       },
-      network,
+      network: this.network,
     });
 
     // Create proper P2WSH
     const p2wsh = bitcoin.payments.p2wsh({
       redeem: {
         output: this.redeemScript,
-        network,
+        network: this.network,
       },
-      network,
+      network: this.network,
+    });
+
+    // Create P2SH-wrapped P2WSH
+    const p2shP2wsh = bitcoin.payments.p2sh({
+      redeem: p2wsh,
+      network: this.network,
     });
 
-    if (!p2sh.address || !p2wsh.address) {
+    if (!p2sh.address || !p2wsh.address || !p2shP2wsh.address) {
       throw new Error("Failed to generate addresses");
     }
 
     this.p2shAddress = p2sh.address;
     this.p2wshAddress = p2wsh.address;
+    this.p2shP2wshAddress = p2shP2wsh.address;
+
+    // Create Taproot output with a multi_a leaf, and a timelocked multi_a
+    // leaf next to it for the recovery branch
+    const leafScript = this.createTapLeafScript("primary");
+    const recoveryLeafScript = this.recovery
+      ? this.createTapLeafScript("recovery")
+      : undefined;
+    const scriptTree: bitcoin.Payment["scriptTree"] = recoveryLeafScript
+      ? [{ output: leafScript }, { output: recoveryLeafScript }]
+      : { output: leafScript };
+    const internalKey = options.musigInternalKey
+      ? getXOnlyPublicKey(keyAgg(keySort(this.pubkeys)))
+      : NUMS_INTERNAL_KEY;
+    const controlBlockFor = (output: Buffer): Buffer | undefined => {
+      const witness = bitcoin.payments.p2tr({
+        internalPubkey: internalKey,
+        scriptTree,
+        redeem: { output, redeemVersion: TAPSCRIPT_LEAF_VERSION },
+        network: this.network,
+      }).witness;
+      return witness && witness[witness.length - 1];
+    };
+    const p2tr = bitcoin.payments.p2tr({
+      internalPubkey: internalKey,
+      scriptTree,
+      network: this.network,
+    });
+    const controlBlock = controlBlockFor(leafScript);
+
+    if (!p2tr.address || !p2tr.hash || !controlBlock) {
+      throw new Error("Failed to generate Taproot address");
+    }
+
+    this.p2trAddress = p2tr.address;
+    this.taproot = {
+      internalKey,
+      leafScript,
+      controlBlock,
+      merkleRoot: p2tr.hash,
+      ...(recoveryLeafScript && {
+        recoveryLeafScript,
+        recoveryControlBlock: controlBlockFor(recoveryLeafScript),
+      }),
+    };
+  }
+
+  /**
+   * Compiles a spending policy and binds its key names to the public keys
+   * in order of first appearance
+   */
+  private bindSpendingPolicy(
+    spendingPolicy: SpendingPolicy,
+    publicKeys: Buffer[],
+    options: MultisigWalletOptions
+  ): Miniscript {
+    if (options.recovery) {
+      throw new Error("A spending policy can't have a recovery path");
+    }
+    const miniscript =
+      "policy" in spendingPolicy
+        ? compilePolicy(spendingPolicy.policy)
+        : parseMiniscript(spendingPolicy.miniscript);
+    const names = getMiniscriptKeys(miniscript);
+    if (names.length !== publicKeys.length) {
+      throw new Error(
+        `Policy has ${names.length} keys but ${publicKeys.length} public keys were given`
+      );
+    }
+    this.policyKeys = new Map(
+      names.map((name, index) => [name, publicKeys[index]])
+    );
+    return miniscript;
+  }
+
+  private getPolicyKey(name: string): Buffer {
+    const pubkey = this.policyKeys?.get(name);
+    if (!pubkey) {
+      throw new Error(`Unknown policy key: ${name}`);
+    }
+    return pubkey;
+  }
+
+  /**
+   * Checks the recovery branch and sorts its keys like the wallet's keys
+   */
+  private validateRecoveryPath(recovery: RecoveryPath): Required<RecoveryPath> {
+    const publicKeys = recovery.publicKeys ?? this.pubkeys;
+    if (!Number.isInteger(recovery.threshold) || recovery.threshold <= 0) {
+      throw new Error("Recovery threshold must be a positive integer");
+    }
+    if (recovery.threshold > publicKeys.length) {
+      throw new Error(
+        "Recovery threshold cannot exceed number of recovery keys"
+      );
+    }
+    publicKeys.forEach((pubkey, index) => {
+      if (!Buffer.isBuffer(pubkey) || !tinysecp.isPoint(pubkey)) {
+        throw new Error(`Invalid recovery public key at index ${index}`);
+      }
+    });
+    validateTimelock(recovery.timelock);
+
+    return {
+      threshold: recovery.threshold,
+      timelock: recovery.timelock,
+      publicKeys: [...publicKeys].sort((a, b) => a.compare(b)),
+    };
+  }
+
+  /**
+   * Checks that every key origin describes one of the wallet's or
+   * recovery keys
+   */
+  private validateKeyOrigins(keyOrigins: KeyOrigin[]): KeyOrigin[] {
+    const keys = [...this.pubkeys, ...(this.recovery?.publicKeys || [])];
+    keyOrigins.forEach((origin, index) => {
+      if (!keys.some((key) => key.equals(origin.pubkey))) {
+        throw new Error(`Key origin ${index} is not a key of the wallet`);
+      }
+    });
+    return keyOrigins;
+  }
+
+  /**
+   * Threshold and sorted public keys of a spending branch
+   */
+  private getBranch(path: SpendPath): { m: number; pubkeys: Buffer[] } {
+    if (path === "recovery") {
+      if (!this.recovery) {
+        throw new Error("Wallet has no recovery path");
+      }
+      return {
+        m: this.recovery.threshold,
+        pubkeys: this.recovery.publicKeys,
+      };
+    }
+    return { m: this.m, pubkeys: this.pubkeys };
   }
 
   private createRedeemScript(): Buffer {
+    if (this.miniscript) {
+      return miniscriptToScript(this.miniscript, (name) =>
+        this.getPolicyKey(name)
+      );
+    }
+
     // Create proper multisig redeem script
-    const script = bitcoin.script.compile([
+    const multisig = (m: number, pubkeys: Buffer[]) => [
       // OP_M
-      bitcoin.script.number.encode(this.m),
+      bitcoin.script.number.encode(m),
       // Sorted public keys
-      ...this.pubkeys,
+      ...pubkeys,
       // OP_N
-      bitcoin.script.number.encode(this.n),
+      bitcoin.script.number.encode(pubkeys.length),
       // OP_CHECKMULTISIG
       bitcoin.opcodes.OP_CHECKMULTISIG,
-    ]);
+    ];
+
+    // Decaying multisig: the spender selects the branch with OP_1 or empty
+    const script = this.recovery
+      ? bitcoin.script.compile([
+          bitcoin.opcodes.OP_IF,
+          ...multisig(this.m, this.pubkeys),
+          bitcoin.opcodes.OP_ELSE,
+          ...timelockScript(this.recovery.timelock),
+          ...multisig(this.recovery.threshold, this.recovery.publicKeys),
+          bitcoin.opcodes.OP_ENDIF,
+        ])
+      : bitcoin.script.compile(multisig(this.m, this.pubkeys));
 
     // Convert Uint8Array to Buffer
     return Buffer.from(script);
   }
 
+  private createTapLeafScript(path: SpendPath): Buffer {
+    if (this.miniscript) {
+      return miniscriptToScript(
+        toTapMiniscript(this.miniscript),
+        (name) => this.getPolicyKey(name),
+        "tap"
+      );
+    }
+
+    // BIP342 multi_a: <pk1> OP_CHECKSIG <pk2> OP_CHECKSIGADD ... <m> OP_NUMEQUAL
+    const { m } = this.getBranch(path);
+    const xOnlyPubkeys = this.getXOnlyPubkeys(path);
+    const script = bitcoin.script.compile([
+      ...(path === "recovery" ? timelockScript(this.recovery!.timelock) : []),
+      xOnlyPubkeys[0],
+      bitcoin.opcodes.OP_CHECKSIG,
+      ...xOnlyPubkeys
+        .slice(1)
+        .flatMap((pubkey) => [pubkey, bitcoin.opcodes.OP_CHECKSIGADD]),
+      bitcoin.script.number.encode(m),
+      bitcoin.opcodes.OP_NUMEQUAL,
+    ]);
+
+    return Buffer.from(script);
+  }
+
+  // Sorted x-only public keys used in a branch's tapscript leaf
+  private getXOnlyPubkeys(path: SpendPath = "primary"): Buffer[] {
+    return this.getBranch(path)
+      .pubkeys.map((pubkey) => pubkey.subarray(1, 33))
+      .sort((a, b) => a.compare(b));
+  }
+
   public getAddresses(): WalletAddresses {
     return {
       p2sh: this.p2shAddress,
       p2wsh: this.p2wshAddress,
+      p2shP2wsh: this.p2shP2wshAddress,
+      p2tr: this.p2trAddress,
     };
   }
 
@@ -144,10 +721,210 @@ class MultisigWallet {
     return this.redeemScript;
   }
 
+  public getTaprootInfo(): TaprootInfo {
+    return this.taproot;
+  }
+
+  /**
+   * Exports the wallet as a BIP380/383 sortedmulti output descriptor, or a
+   * BIP379 miniscript descriptor for wallets with a spending policy.
+   * Key origins are included when the wallet was imported from a
+   * descriptor, otherwise the raw public keys are used.
+   * @param scriptType - Address type to describe (defaults to P2WSH)
+   */
+  public getDescriptor(scriptType: DescriptorScriptType = "p2wsh"): string {
+    if (this.miniscript) {
+      return formatMiniscriptDescriptor({
+        scriptType,
+        miniscript: this.miniscript,
+        keys:
+          this.descriptorKeys ||
+          getMiniscriptKeys(this.miniscript).map((name) => ({
+            key: this.getPolicyKey(name).toString("hex"),
+          })),
+      });
+    }
+    if (this.recovery) {
+      throw new Error(
+        "Wallets with a recovery path have no sortedmulti descriptor"
+      );
+    }
+    return formatMultisigDescriptor({
+      scriptType,
+      threshold: this.m,
+      keys:
+        this.descriptorKeys ||
+        this.pubkeys.map((pubkey) => ({ key: pubkey.toString("hex") })),
+    });
+  }
+
+  /**
+   * Creates a wallet from a sh/wsh/sh(wsh) sortedmulti or miniscript
+   * descriptor
+   * @param descriptor - Descriptor string including checksum
+   * @param addressIndex - Index substituted for wildcard derivation
+   * @param network - Network of the descriptor's keys and the addresses
+   */
+  public static fromDescriptor(
+    descriptor: string,
+    addressIndex: number = 0,
+    network: bitcoin.Network = bitcoin.networks.testnet
+  ): MultisigWallet {
+    const parsed = isMultisigDescriptor(descriptor)
+      ? parseMultisigDescriptor(descriptor, network)
+      : parseMiniscriptDescriptor(descriptor, network);
+    const publicKeys = parsed.keys.map((key) =>
+      deriveDescriptorKey(key, network, addressIndex)
+    );
+
+    // Miniscript key names are the key expressions, in the order of keys
+    const wallet = new MultisigWallet(
+      "threshold" in parsed
+        ? parsed.threshold
+        : { miniscript: formatMiniscript(parsed.miniscript) },
+      publicKeys,
+      { network }
+    );
+    wallet.descriptorKeys = parsed.keys;
+    wallet.keyOrigins = parsed.keys.flatMap(
+      (key) => getDescriptorKeyOrigin(key, network, addressIndex) || []
+    );
+    wallet.globalXpubs = parsed.keys.flatMap(
+      (key) => getDescriptorGlobalXpub(key, network) || []
+    );
+    return wallet;
+  }
+
+  /**
+   * Determines how a UTXO of this wallet is spent from its scriptPubKey
+   * @throws If the script is not one of this wallet's addresses
+   */
+  private getInputType(scriptPubKey: string): MultisigInputType {
+    const script = Buffer.from(scriptPubKey, "hex");
+    const type = this.getAddressType(script);
+    if (!type) {
+      throw new Error(
+        `scriptPubKey ${scriptPubKey} (${
+          classifyScript(script).type
+        }) does not belong to this wallet`
+      );
+    }
+    return type;
+  }
+
+  /**
+   * Estimated weight of the input spending a UTXO of this wallet
+   * @param spendPath - Branch the input spends through
+   */
+  public getInputWeight(utxo: UTXO, spendPath: SpendPath = "primary"): number {
+    return this.getInputWeightForScript(utxo.scriptPubKey, spendPath);
+  }
+
+  private getInputWeightForScript(
+    scriptPubKey: string,
+    spendPath: SpendPath = "primary"
+  ): number {
+    const type = this.getInputType(scriptPubKey);
+    if (this.miniscript) {
+      // Largest satisfaction of the policy, with maximum size signatures
+      const context = type === "p2tr" ? "tap" : "wsh";
+      const satisfaction = maxSatisfaction(
+        context === "tap" ? toTapMiniscript(this.miniscript) : this.miniscript,
+        context
+      );
+      return scriptInputWeight(
+        type,
+        satisfaction.map((item) => item.length),
+        context === "tap"
+          ? this.taproot.leafScript.length
+          : this.redeemScript.length
+      );
+    }
+    const { m, pubkeys } = this.getBranch(spendPath);
+    if (type === "p2tr") {
+      const leafScript =
+        spendPath === "recovery"
+          ? this.taproot.recoveryLeafScript!
+          : this.taproot.leafScript;
+      return multisigInputWeight(type, m, pubkeys.length, leafScript.length, {
+        leafDepth: this.recovery ? 1 : 0,
+      });
+    }
+    return multisigInputWeight(
+      type,
+      m,
+      pubkeys.length,
+      this.redeemScript.length,
+      { selector: !!this.recovery }
+    );
+  }
+
+  /**
+   * Estimates the weight of the transaction spending the UTXOs to the
+   * outputs once the signatures of its branch are added to every input
+   * @param scriptPubKeys - Hex scriptPubKeys of the spent UTXOs
+   * @param outputScripts - scriptPubKeys of the outputs
+   * @param spendPaths - Branch of each input (defaults to primary)
+   */
+  private estimateWeight(
+    scriptPubKeys: string[],
+    outputScripts: Buffer[],
+    spendPaths: SpendPath[] = []
+  ): number {
+    return estimateTransactionWeight(
+      scriptPubKeys.map((scriptPubKey, index) => ({
+        type: this.getInputType(scriptPubKey),
+        weight: this.getInputWeightForScript(scriptPubKey, spendPaths[index]),
+      })),
+      outputScripts.map((script) => script.length)
+    );
+  }
+
+  /**
+   * Estimates the weight of a transaction spending all UTXOs to the outputs
+   * @param spendPath - Branch all inputs spend through
+   */
+  public estimateTransactionWeight(
+    utxos: UTXO[],
+    outputs: Output[],
+    spendPath: SpendPath = "primary"
+  ): number {
+    return this.estimateWeight(
+      utxos.map((utxo) => utxo.scriptPubKey),
+      outputs.map((output) => toOutputScript(output.address, this.network)),
+      utxos.map(() => spendPath)
+    );
+  }
+
+  /**
+   * Estimates the fee of a transaction spending all UTXOs to the outputs
+   * @param feeRate - Fee rate in sat/vB
+   * @param spendPath - Branch all inputs spend through
+   */
+  public estimateFee(
+    utxos: UTXO[],
+    outputs: Output[],
+    feeRate: number,
+    spendPath: SpendPath = "primary"
+  ): bigint {
+    return feeForWeight(
+      this.estimateTransactionWeight(utxos, outputs, spendPath),
+      feeRate
+    );
+  }
+
+  /**
+   * Creates a PSBT spending the given UTXOs to the outputs
+   * @param utxos - UTXOs to spend, or to select from with coinSelection
+   * @param outputs - Payment outputs
+   * @param fee - Absolute fee in satoshis
+   * @param options - Coin selection strategy and fee rate
+   */
   public createTransaction(
     utxos: UTXO[],
     outputs: Output[],
-    fee: number
+    fee: number,
+    options: CreateTransactionOptions = {}
   ): bitcoin.Psbt {
     // Validate inputs
     if (!Array.isArray(utxos) || utxos.length === 0) {
@@ -159,9 +936,21 @@ class MultisigWallet {
     if (fee < 0) {
       throw new Error("Fee cannot be negative");
     }
-
-    // Calculate total input amount (convert fee to bigint for comparison)
-    const totalInput = utxos.reduce((sum, utxo) => sum + utxo.value, BigInt(0));
+    utxos.forEach((utxo) => {
+      if (
+        utxo.address !== undefined &&
+        toOutputScript(utxo.address, this.network).toString("hex") !==
+          utxo.scriptPubKey
+      ) {
+        throw new Error("UTXO address does not match its scriptPubKey");
+      }
+    });
+    outputs.forEach((output) => {
+      toOutputScript(output.address, this.network);
+      if (output.value <= BigInt(0)) {
+        throw new Error("Output value must be positive");
+      }
+    });
 
     // Calculate total output amount
     const totalOutput = outputs.reduce(
@@ -169,152 +958,1302 @@ class MultisigWallet {
       BigInt(0)
     );
 
+    if (options.coinSelection && options.feeRate === undefined) {
+      throw new Error("Coin selection requires a positive fee rate");
+    }
+    if (options.feeRate !== undefined && !(options.feeRate > 0)) {
+      throw new Error("Fee rate must be positive");
+    }
+    const spendPath = options.spendPath ?? "primary";
+    if (spendPath === "recovery" && !this.recovery) {
+      throw new Error("Wallet has no recovery path");
+    }
+    const timelock =
+      spendPath === "recovery" ? this.recovery!.timelock : options.timelock;
+    if (timelock) {
+      validateTimelock(timelock);
+    }
+
+    // Change goes back to the wallet, or to the wallet of a change address
+    const changeWallet = options.changeWallet ?? this;
+    const changeType = options.changeType ?? "p2wsh";
+    const changeScript = this.getChangeScript(changeWallet, changeType);
+
+    // Select the UTXOs to spend, paying the fee rate for their weight
+    let selectedUtxos = utxos;
+    let totalFee = BigInt(fee);
+    let changeless = false;
+    if (options.coinSelection && options.feeRate) {
+      const hasWitness = utxos.some(
+        (utxo) => this.getInputType(utxo.scriptPubKey) !== "p2sh"
+      );
+      const baseWeight = outputs.reduce(
+        (weight, output) =>
+          weight +
+          outputWeight(toOutputScript(output.address, this.network).length),
+        transactionOverheadWeight(hasWitness)
+      );
+      const selection = selectCoins(
+        utxos.map((utxo) => ({
+          ...utxo,
+          weight: this.getInputWeight(utxo, spendPath),
+        })),
+        {
+          strategy: options.coinSelection,
+          target: totalOutput,
+          feeRate: options.feeRate,
+          baseWeight,
+          minimumFee: totalFee,
+          // Fee to create the change output now and to spend it later
+          costOfChange: feeForWeight(
+            outputWeight(changeScript.length) +
+              changeWallet.getInputWeightForScript(
+                changeScript.toString("hex")
+              ),
+            options.feeRate
+          ),
+        }
+      );
+      selectedUtxos = selection.selected;
+      totalFee = selection.fee;
+      changeless = selection.changeless;
+    } else if (options.feeRate) {
+      // Fee-rate mode: pay for the estimated size of the signed transaction
+      const estimatedFee = this.estimateFee(
+        utxos,
+        outputs,
+        options.feeRate,
+        spendPath
+      );
+      if (estimatedFee > totalFee) {
+        totalFee = estimatedFee;
+      }
+    }
+
+    // Calculate total input amount (convert fee to bigint for comparison)
+    const totalInput = selectedUtxos.reduce(
+      (sum, utxo) => sum + utxo.value,
+      BigInt(0)
+    );
+
     // Validate amounts (convert fee to bigint)
-    if (totalInput < totalOutput + BigInt(fee)) {
+    if (totalInput < totalOutput + totalFee) {
       throw new Error("Insufficient funds for transaction");
     }
 
+    // Return the excess as change unless it is dust or coin selection found
+    // a match without change, in which case it goes to the fee
+    let feeWithChange = totalFee;
+    if (options.feeRate) {
+      const estimatedFee = feeForWeight(
+        this.estimateWeight(
+          selectedUtxos.map((utxo) => utxo.scriptPubKey),
+          [
+            ...outputs.map((output) =>
+              toOutputScript(output.address, this.network)
+            ),
+            changeScript,
+          ],
+          selectedUtxos.map(() => spendPath)
+        ),
+        options.feeRate
+      );
+      feeWithChange = estimatedFee > BigInt(fee) ? estimatedFee : BigInt(fee);
+    }
+    const change = totalInput - totalOutput - feeWithChange;
+    const hasChange = !changeless && change >= getDustThreshold(changeScript);
+
     // Create new PSBT
-    const psbt = new bitcoin.Psbt({ network });
+    const psbt = new bitcoin.Psbt({ network: this.network });
+    if (this.globalXpubs.length) {
+      psbt.updateGlobal({ globalXpub: this.globalXpubs });
+    }
 
     // Add inputs with proper script handling
-    utxos.forEach((utxo) => {
+    let sequence = options.rbf === false ? FINAL_SEQUENCE : RBF_SEQUENCE;
+    if (timelock) {
+      // The recovery branch or the policy's timelocks need nSequence or
+      // nLockTime past the timelock
+      if (timelock.type === "relative") {
+        sequence = timelock.blocks;
+      } else {
+        psbt.setLocktime(timelock.locktime);
+        if (sequence === FINAL_SEQUENCE) {
+          sequence = LOCKTIME_SEQUENCE;
+        }
+      }
+    }
+    selectedUtxos.forEach((utxo) => {
+      const inputType = this.getInputType(utxo.scriptPubKey);
+      if (inputType === "p2tr") {
+        // P2TR script path through the leaf of the spending branch
+        const payment = bitcoin.payments.p2tr({
+          internalPubkey: this.taproot.internalKey,
+          hash: this.taproot.merkleRoot,
+          network: this.network,
+        });
+
+        psbt.addInput({
+          hash: utxo.txid,
+          index: utxo.vout,
+          sequence,
+          witnessUtxo: {
+            script: payment.output!,
+            value: Number(utxo.value),
+          },
+          tapInternalKey: this.taproot.internalKey,
+          tapMerkleRoot: this.taproot.merkleRoot,
+          tapLeafScript: [
+            spendPath === "recovery"
+              ? {
+                  leafVersion: TAPSCRIPT_LEAF_VERSION,
+                  script: this.taproot.recoveryLeafScript!,
+                  controlBlock: this.taproot.recoveryControlBlock!,
+                }
+              : {
+                  leafVersion: TAPSCRIPT_LEAF_VERSION,
+                  script: this.taproot.leafScript,
+                  controlBlock: this.taproot.controlBlock,
+                },
+          ],
+          ...this.getKeyDerivations("p2tr"),
+        });
+        return;
+      }
+
       const inputData: any = {
         hash: utxo.txid,
         index: utxo.vout,
-        redeemScript: this.redeemScript,
-        witnessScript: this.redeemScript, // Add witnessScript for P2WSH
+        sequence,
+        ...this.getKeyDerivations(inputType),
       };
 
+      const p2wsh = bitcoin.payments.p2wsh({
+        redeem: {
+          output: this.redeemScript,
+          network: this.network,
+        },
+        network: this.network,
+      });
+      const p2shP2wsh = bitcoin.payments.p2sh({
+        redeem: p2wsh,
+        network: this.network,
+      });
+
       // Handle both legacy and SegWit inputs
-      if (utxo.scriptPubKey.startsWith("0020")) {
+      if (inputType === "p2wsh") {
         // P2WSH
-        const payment = bitcoin.payments.p2wsh({
-          redeem: {
-            output: this.redeemScript,
-            network,
-          },
-          network,
-        });
-        
+        inputData.witnessScript = this.redeemScript;
         inputData.witnessUtxo = {
-          script: payment.output!, // Use the correct P2WSH scriptPubKey
+          script: p2wsh.output!, // Use the correct P2WSH scriptPubKey
+          value: Number(utxo.value),
+        };
+      } else if (inputType === "p2shP2wsh") {
+        // P2SH-P2WSH: the P2SH redeem script is the P2WSH output script
+        inputData.redeemScript = p2wsh.output;
+        inputData.witnessScript = this.redeemScript;
+        inputData.witnessUtxo = {
+          script: p2shP2wsh.output!,
           value: Number(utxo.value),
         };
       } else {
-        // P2SH
+        // P2SH: legacy signatures commit to the whole previous transaction
+        inputData.redeemScript = this.redeemScript;
         const payment = bitcoin.payments.p2sh({
           redeem: {
             output: this.redeemScript,
-            network,
+            network: this.network,
           },
-          network,
+          network: this.network,
         });
         
-        inputData.witnessUtxo = {
-          script: payment.output!,
-          value: Number(utxo.value),
-        };
+        if (!utxo.prevTx) {
+          throw new Error(
+            `P2SH input ${utxo.txid}:${utxo.vout} needs its previous transaction`
+          );
+        }
+        const prevTx = bitcoin.Transaction.fromHex(utxo.prevTx);
+        const prevout = prevTx.outs[utxo.vout];
+        if (
+          prevTx.getId() !== utxo.txid ||
+          !prevout ||
+          !prevout.script.equals(payment.output!) ||
+          BigInt(prevout.value) !== utxo.value
+        ) {
+          throw new Error(
+            `Previous transaction does not match input ${utxo.txid}:${utxo.vout}`
+          );
+        }
+        inputData.nonWitnessUtxo = prevTx.toBuffer();
       }
 
       psbt.addInput(inputData);
     });
-
     // Add outputs (modify to handle BigInt properly)
     outputs.forEach((output) => {
-      const validatorNetwork =
-        network === bitcoin.networks.testnet ? "testnet" : "mainnet";
-      if (!validate(output.address, validatorNetwork as ValidatorNetwork)) {
-        throw new Error(`Invalid address: ${output.address}`);
-      }
-      if (output.value <= BigInt(0)) {
-        throw new Error("Output value must be positive");
-      }
       psbt.addOutput({
         address: output.address,
         value: Number(output.value),
       });
     });
 
+    // Add the change output with the scripts that let signers recognise it
+    if (hasChange) {
+      psbt.addOutput({
+        script: changeScript,
+        value: Number(change),
+        ...changeWallet.getOutputScripts(changeType),
+        ...changeWallet.getKeyDerivations(changeType),
+      });
+    }
+
     return psbt;
   }
 
+  /**
+   * PSBT output fields describing this wallet's scripts for an address type
+   */
+  private getOutputScripts(
+    type: AddressType
+  ): Partial<bitcoin.Psbt["data"]["outputs"][number]> {
+    switch (type) {
+      case "p2sh":
+        return { redeemScript: this.redeemScript };
+      case "p2wsh":
+        return { witnessScript: this.redeemScript };
+      case "p2shP2wsh":
+        return {
+          redeemScript: bitcoin.payments.p2wsh({
+            redeem: { output: this.redeemScript, network: this.network },
+            network: this.network,
+          }).output,
+          witnessScript: this.redeemScript,
+        };
+      case "p2tr": {
+        const leafScripts = [
+          this.taproot.leafScript,
+          ...(this.taproot.recoveryLeafScript
+            ? [this.taproot.recoveryLeafScript]
+            : []),
+        ];
+        return {
+          tapInternalKey: this.taproot.internalKey,
+          tapTree: {
+            leaves: leafScripts.map((script) => ({
+              depth: leafScripts.length - 1,
+              leafVersion: TAPSCRIPT_LEAF_VERSION,
+              script,
+            })),
+          },
+        };
+      }
+    }
+  }
+
+  /**
+   * PSBT key records for an address type: the origin of every cosigner
+   * key, so external signers can find their key and verify change
+   */
+  private getKeyDerivations(
+    type: AddressType | MultisigInputType
+  ): Partial<bitcoin.Psbt["data"]["outputs"][number]> {
+    if (this.keyOrigins.length === 0) {
+      return {};
+    }
+    if (type === "p2tr") {
+      // BIP371: each key lists the hashes of the leaves it appears in
+      const leaves = [
+        this.taproot.leafScript,
+        ...(this.taproot.recoveryLeafScript
+          ? [this.taproot.recoveryLeafScript]
+          : []),
+      ];
+      return {
+        tapBip32Derivation: this.keyOrigins.map((origin) => {
+          const pubkey = origin.pubkey.subarray(1, 33);
+          return {
+            ...origin,
+            pubkey,
+            leafHashes: leaves
+              .filter((leaf) => scriptContainsKey(leaf, pubkey))
+              .map((leaf) => tapleafHash(leaf)),
+          };
+        }),
+      };
+    }
+    return { bip32Derivation: this.keyOrigins };
+  }
+
+  /**
+   * Returns the indexes of outputs that pay to this wallet and carry its
+   * scripts, i.e. the change outputs a signer can recognise as its own
+   */
+  public getChangeOutputs(psbt: bitcoin.Psbt): number[] {
+    return psbt.txOutputs.flatMap((output, index) => {
+      const type = this.getAddressType(output.script);
+      if (!type) {
+        return [];
+      }
+      const data = psbt.data.outputs[index];
+      const expected = this.getOutputScripts(type);
+      const marked =
+        (!expected.redeemScript ||
+          !!data.redeemScript?.equals(expected.redeemScript)) &&
+        (!expected.witnessScript ||
+          !!data.witnessScript?.equals(expected.witnessScript)) &&
+        (!expected.tapInternalKey ||
+          !!data.tapInternalKey?.equals(expected.tapInternalKey));
+      return marked ? [index] : [];
+    });
+  }
+
+  /**
+   * Output script of a change wallet's address
+   * @throws If the change wallet is on another network
+   */
+  private getChangeScript(
+    changeWallet: MultisigWallet,
+    changeType: AddressType = "p2wsh"
+  ): Buffer {
+    if (changeWallet.network !== this.network) {
+      throw new Error("Change wallet is on a different network");
+    }
+    return toOutputScript(
+      changeWallet.getAddresses()[changeType],
+      this.network
+    );
+  }
+
+  /**
+   * Returns which of this wallet's addresses an output script pays to
+   */
+  private getAddressType(script: Buffer): AddressType | undefined {
+    const addresses = this.getAddresses();
+    return (Object.keys(addresses) as AddressType[]).find((type) =>
+      toOutputScript(addresses[type], this.network).equals(script)
+    );
+  }
+
+  /**
+   * Change outputs of a transaction: marked outputs for a PSBT, and any
+   * output paying to this wallet for a raw transaction
+   */
+  private getChangeIndexes(
+    transaction: bitcoin.Psbt | string,
+    tx: bitcoin.Transaction
+  ): number[] {
+    if (typeof transaction !== "string") {
+      return this.getChangeOutputs(transaction);
+    }
+    return tx.outs.flatMap((output, index) =>
+      this.getAddressType(output.script) ? [index] : []
+    );
+  }
+
+  /**
+   * Reads the inputs, fee and size of a PSBT or raw hex transaction
+   * @param transaction - PSBT, or raw transaction hex
+   * @param utxos - Previous outputs of a raw transaction's inputs
+   */
+  private parseTransaction(
+    transaction: bitcoin.Psbt | string,
+    utxos: UTXO[] = []
+  ): ParsedTransaction {
+    let tx: bitcoin.Transaction;
+    let prevouts: UTXO[];
+    let vsize: number;
+
+    if (typeof transaction === "string") {
+      tx = bitcoin.Transaction.fromHex(transaction);
+      prevouts = tx.ins.map((input) => {
+        const txid = Buffer.from(input.hash).reverse().toString("hex");
+        const utxo = utxos.find(
+          (u) => u.txid === txid && u.vout === input.index
+        );
+        if (!utxo) {
+          throw new Error(`Missing UTXO for input ${txid}:${input.index}`);
+        }
+        return utxo;
+      });
+      vsize = tx.virtualSize();
+    } else {
+      const finalized = transaction.data.inputs.every(
+        (input) => input.finalScriptSig || input.finalScriptWitness
+      );
+      tx = finalized
+        ? transaction.extractTransaction(true)
+        : bitcoin.Transaction.fromBuffer(transaction.data.getTransaction());
+      prevouts = transaction.data.inputs.map((input, index) => {
+        const prevout = getPrevout(transaction, index);
+        return {
+          txid: Buffer.from(tx.ins[index].hash).reverse().toString("hex"),
+          vout: tx.ins[index].index,
+          value: BigInt(prevout.value),
+          scriptPubKey: prevout.script.toString("hex"),
+          ...(input.nonWitnessUtxo && {
+            prevTx: input.nonWitnessUtxo.toString("hex"),
+          }),
+        };
+      });
+      // Unsigned transactions are sized by the estimate their fee used
+      vsize = finalized
+        ? tx.virtualSize()
+        : weightToVsize(
+            this.estimateWeight(
+              prevouts.map((prevout) => prevout.scriptPubKey),
+              tx.outs.map((output) => output.script)
+            )
+          );
+    }
+
+    const totalInput = prevouts.reduce((sum, p) => sum + p.value, BigInt(0));
+    const totalOutput = tx.outs.reduce(
+      (sum, output) => sum + BigInt(output.value),
+      BigInt(0)
+    );
+    return { tx, prevouts, fee: totalInput - totalOutput, vsize };
+  }
+
+  /**
+   * Builds a BIP125 replacement of a transaction paying a higher fee rate.
+   * The payments are kept and the fee is taken from the change first; when
+   * the change runs out, confirmed UTXOs from options.utxos are added.
+   * @param original - Original PSBT, or raw transaction hex
+   * @param feeRate - Fee rate of the replacement in sat/vB
+   * @param options - Previous outputs, extra UTXOs and relay settings
+   */
+  public createReplacement(
+    original: bitcoin.Psbt | string,
+    feeRate: number,
+    options: FeeBumpOptions = {}
+  ): bitcoin.Psbt {
+    if (!(feeRate > 0)) {
+      throw new Error("Fee rate must be positive");
+    }
+
+    const changeWallet = options.changeWallet ?? this;
+    const parsed = this.parseTransaction(original, options.utxos);
+    const changeIndexes = changeWallet.getChangeIndexes(original, parsed.tx);
+    const payments = parsed.tx.outs
+      .filter((_, index) => !changeIndexes.includes(index))
+      .map((output) => ({
+        address: bitcoin.address.fromOutputScript(output.script, this.network),
+        value: BigInt(output.value),
+      }));
+    if (payments.length === 0) {
+      throw new Error("Original transaction has no payment outputs");
+    }
+
+    // BIP125 rule 2: only confirmed UTXOs may be added, largest first
+    const extraUtxos = (options.utxos || [])
+      .filter(
+        (utxo) =>
+          utxo.height !== undefined &&
+          !parsed.prevouts.some(
+            (p) => p.txid === utxo.txid && p.vout === utxo.vout
+          )
+      )
+      .sort((a, b) => (a.value === b.value ? 0 : a.value > b.value ? -1 : 1));
+
+    const changeScript = this.getChangeScript(changeWallet, options.changeType);
+    const incrementalRelayFeeRate =
+      options.incrementalRelayFeeRate ?? DEFAULT_INCREMENTAL_RELAY_FEE_RATE;
+    const inputs = [...parsed.prevouts];
+
+    for (;;) {
+      // BIP125 rule 4: pay for the replacement's own relay on top of the
+      // original fee
+      const minimumFee =
+        parsed.fee +
+        feeForWeight(
+          this.estimateWeight(
+            inputs.map((utxo) => utxo.scriptPubKey),
+            [
+              ...payments.map((p) => toOutputScript(p.address, this.network)),
+              changeScript,
+            ]
+          ),
+          incrementalRelayFeeRate
+        );
+
+      try {
+        const replacement = this.createTransaction(
+          inputs,
+          payments,
+          Number(minimumFee),
+          {
+            feeRate,
+            changeWallet,
+            changeType: options.changeType,
+          }
+        );
+        this.validateReplacement(original, replacement, options);
+        return replacement;
+      } catch (error) {
+        const insufficient =
+          error instanceof Error &&
+          error.message === "Insufficient funds for transaction";
+        if (!insufficient || extraUtxos.length === 0) {
+          throw error;
+        }
+        inputs.push(extraUtxos.shift()!);
+      }
+    }
+  }
+
+  /**
+   * Checks the BIP125 replacement rules before cosigners sign again
+   * @param original - Original PSBT, or raw transaction hex
+   * @param replacement - Replacement PSBT
+   * @param options - Previous outputs and relay settings
+   * @throws If the replacement would not be relayed
+   */
+  public validateReplacement(
+    original: bitcoin.Psbt | string,
+    replacement: bitcoin.Psbt,
+    options: FeeBumpOptions = {}
+  ): void {
+    const before = this.parseTransaction(original, options.utxos);
+    const after = this.parseTransaction(replacement);
+    const spends = (tx: ParsedTransaction, utxo: UTXO) =>
+      tx.prevouts.some((p) => p.txid === utxo.txid && p.vout === utxo.vout);
+
+    // Rule 1: the original must signal replaceability
+    if (!before.tx.ins.some((input) => input.sequence < FINAL_SEQUENCE - 1)) {
+      throw new Error(
+        "Original transaction does not signal BIP125 replaceability"
+      );
+    }
+    if (!after.prevouts.some((utxo) => spends(before, utxo))) {
+      throw new Error(
+        "Replacement does not conflict with the original transaction"
+      );
+    }
+
+    // Rule 2: new inputs must be confirmed
+    after.prevouts
+      .filter((utxo) => !spends(before, utxo))
+      .forEach((utxo) => {
+        const known = (options.utxos || []).find(
+          (u) => u.txid === utxo.txid && u.vout === utxo.vout
+        );
+        if (!known || known.height === undefined) {
+          throw new Error(
+            `Replacement adds unconfirmed input ${utxo.txid}:${utxo.vout}`
+          );
+        }
+      });
+
+    // Rule 3: higher absolute fee
+    if (after.fee <= before.fee) {
+      throw new Error("Replacement must pay a higher absolute fee");
+    }
+
+    // Rule 4: the extra fee pays for relaying the replacement
+    const incrementalRelayFeeRate =
+      options.incrementalRelayFeeRate ?? DEFAULT_INCREMENTAL_RELAY_FEE_RATE;
+    if (
+      after.fee - before.fee <
+      feeForWeight(after.vsize * 4, incrementalRelayFeeRate)
+    ) {
+      throw new Error(
+        "Replacement fee increase must cover the incremental relay fee"
+      );
+    }
+
+    // Rule 6: higher fee rate
+    if (Number(after.fee) / after.vsize <= Number(before.fee) / before.vsize) {
+      throw new Error("Replacement must pay a higher fee rate");
+    }
+  }
+
+  /**
+   * Builds a CPFP child spending this wallet's change output of a stuck
+   * parent, paying enough that parent and child together reach the fee rate
+   * @param parent - Finalized parent PSBT, or raw transaction hex
+   * @param feeRate - Package fee rate in sat/vB
+   * @param options - Previous outputs of a raw parent and the destination
+   */
+  public createCpfpChild(
+    parent: bitcoin.Psbt | string,
+    feeRate: number,
+    options: FeeBumpOptions = {}
+  ): bitcoin.Psbt {
+    if (!(feeRate > 0)) {
+      throw new Error("Fee rate must be positive");
+    }
+    // The child commits to the parent's txid, which signing may change
+    if (
+      typeof parent !== "string" &&
+      !parent.data.inputs.every(
+        (input) => input.finalScriptSig || input.finalScriptWitness
+      )
+    ) {
+      throw new Error("Parent transaction must be finalized");
+    }
+
+    const parsed = this.parseTransaction(parent, options.utxos);
+    const [outputIndex] = this.getChangeIndexes(parent, parsed.tx);
+    if (outputIndex === undefined) {
+      throw new Error(
+        "Parent transaction has no change output for this wallet"
+      );
+    }
+    const output = parsed.tx.outs[outputIndex];
+    const utxo: UTXO = {
+      txid: parsed.tx.getId(),
+      vout: outputIndex,
+      value: BigInt(output.value),
+      scriptPubKey: output.script.toString("hex"),
+    };
+
+    const changeWallet = options.changeWallet ?? this;
+    const changeType = options.changeType ?? "p2wsh";
+    const destination = changeWallet.getAddresses()[changeType];
+    const destinationScript = this.getChangeScript(changeWallet, changeType);
+    const childVsize = weightToVsize(
+      this.estimateWeight([utxo.scriptPubKey], [destinationScript])
+    );
+
+    // The child pays its own fee and lifts the whole package to the rate
+    const childFee = feeForWeight(childVsize * 4, feeRate);
+    const packageFee = feeForWeight((parsed.vsize + childVsize) * 4, feeRate);
+    const fee =
+      packageFee - parsed.fee > childFee ? packageFee - parsed.fee : childFee;
+    const value = utxo.value - fee;
+    if (value < getDustThreshold(destinationScript)) {
+      throw new Error("Change output is too small to pay for the child");
+    }
+
+    return this.createTransaction(
+      [utxo],
+      [{ address: destination, value }],
+      Number(fee)
+    );
+  }
+
   public signTransaction(
     psbt: bitcoin.Psbt,
     keyPair: ECPairInterface,
     inputIndex: number
   ): boolean {
-    // Validate signer
+    this.validateSigner(keyPair);
+
+    const result = this.signInput(psbt, keyPair, inputIndex);
+    if (result.status === "alreadySigned") {
+      throw new Error("This key has already signed");
+    }
+    if (result.status === "finalized") {
+      throw new Error(`Input #${inputIndex} is already finalized`);
+    }
+    if (result.status === "notSignable") {
+      console.error(
+        `Signing error: the key is not in the script of input #${inputIndex}`
+      );
+      return false;
+    }
+    if (result.status === "failed") {
+      console.error("Signing error:", result.error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * @deprecated Signing state is read from each PSBT, so there is nothing
+   *   to reset
+   */
+  public resetSigners(): void {}
+
+  /**
+   * Signs every input of the PSBT whose script contains the key
+   * @returns The outcome for each input
+   */
+  public signAllInputs(
+    psbt: bitcoin.Psbt,
+    keyPair: ECPairInterface
+  ): InputSigningResult[] {
+    this.validateSigner(keyPair);
+    return psbt.data.inputs.map((_, index) =>
+      this.signInput(psbt, keyPair, index)
+    );
+  }
+
+  /**
+   * Signs every input with the child key named by the PSBT's
+   * bip32Derivation records, derived from a BIP39 mnemonic
+   * @param mnemonic - BIP39 mnemonic of a cosigner
+   * @param passphrase - Optional BIP39 passphrase
+   * @param language - Wordlist of the mnemonic (defaults to English)
+   * @returns The outcome for each input
+   */
+  public signWithMnemonic(
+    psbt: bitcoin.Psbt,
+    mnemonic: string,
+    passphrase: string = "",
+    language: MnemonicLanguage = "english"
+  ): InputSigningResult[] {
+    if (!bip39.validateMnemonic(mnemonic, getWordlist(language))) {
+      throw new Error("Invalid mnemonic");
+    }
+    const seed = bip39.mnemonicToSeedSync(mnemonic, passphrase);
+    return this.signWithHDKey(psbt, bip32.fromSeed(seed, this.network));
+  }
+
+  /**
+   * Signs every input with the child key named by the PSBT's
+   * bip32Derivation records, derived from an extended private key
+   * @param xprv - Master key, or an account key from the records' paths
+   * @returns The outcome for each input
+   */
+  public signWithExtendedKey(
+    psbt: bitcoin.Psbt,
+    xprv: string
+  ): InputSigningResult[] {
+    const node = bip32.fromBase58(xprv, this.network);
+    if (node.isNeutered()) {
+      throw new Error("Extended key has no private key");
+    }
+    return this.signWithHDKey(psbt, node);
+  }
+
+  private signWithHDKey(
+    psbt: bitcoin.Psbt,
+    node: BIP32Interface
+  ): InputSigningResult[] {
+    const fingerprint = Buffer.from(node.fingerprint);
+
+    return psbt.data.inputs.map((input, index) => {
+      const derivations = [
+        ...(input.bip32Derivation || []),
+        ...(input.tapBip32Derivation || []),
+      ];
+
+      // A master key must match the fingerprint; an account key derives
+      // the path steps below its own depth
+      for (const derivation of derivations) {
+        const steps = derivation.path.split("/").slice(1);
+        if (
+          (node.depth === 0 &&
+            !derivation.masterFingerprint.equals(fingerprint)) ||
+          steps.length < node.depth
+        ) {
+          continue;
+        }
+        const relative = steps.slice(node.depth).join("/");
+        const child = relative ? node.derivePath(relative) : node;
+        const pubkey = Buffer.from(child.publicKey);
+        const matches =
+          derivation.pubkey.length === 32
+            ? derivation.pubkey.equals(pubkey.subarray(1, 33))
+            : derivation.pubkey.equals(pubkey);
+        if (matches) {
+          return this.signInput(
+            psbt,
+            ECPair.fromPrivateKey(Buffer.from(child.privateKey!), {
+              network: this.network,
+            }),
+            index
+          );
+        }
+      }
+      return { index, status: "notSignable" };
+    });
+  }
+
+  private validateSigner(keyPair: ECPairInterface): void {
     const pubkey = Buffer.from(keyPair.publicKey).toString("hex");
-    if (!this.pubkeys.some((p) => Buffer.from(p).toString("hex") === pubkey)) {
+    const signers = [...this.pubkeys, ...(this.recovery?.publicKeys || [])];
+    if (!signers.some((p) => Buffer.from(p).toString("hex") === pubkey)) {
       throw new Error("Signer is not part of the multisig setup");
     }
+  }
 
-    // Check for duplicate signers
-    if (this.usedSigners.has(pubkey)) {
-      throw new Error("This key has already signed");
+  private signInput(
+    psbt: bitcoin.Psbt,
+    keyPair: ECPairInterface,
+    inputIndex: number
+  ): InputSigningResult {
+    const input = psbt.data.inputs[inputIndex];
+    if (!input) {
+      return {
+        index: inputIndex,
+        status: "failed",
+        error: `No input #${inputIndex}`,
+      };
+    }
+
+    // A finalized input takes no more signatures
+    if (input.finalScriptSig || input.finalScriptWitness) {
+      return { index: inputIndex, status: "finalized" };
+    }
+
+    // The PSBT records who signed: partialSig, or tapScriptSig by x-only key
+    const pubkey = Buffer.from(keyPair.publicKey);
+    const xOnlyPubkey = pubkey.subarray(1, 33);
+    if (
+      input.partialSig?.some((sig) => sig.pubkey.equals(pubkey)) ||
+      input.tapScriptSig?.some((sig) => sig.pubkey.equals(xOnlyPubkey))
+    ) {
+      return { index: inputIndex, status: "alreadySigned" };
+    }
+
+    const scripts = input.tapLeafScript
+      ? input.tapLeafScript.map((leaf) => leaf.script)
+      : [input.witnessScript || input.redeemScript].filter(
+          (script): script is Buffer => !!script
+        );
+    const key = input.tapLeafScript ? xOnlyPubkey : pubkey;
+    const inScript = scripts.some((script) => scriptContainsKey(script, key));
+    if (!inScript) {
+      return { index: inputIndex, status: "notSignable" };
     }
 
     try {
-      // Sign with SIGHASH_ALL
-      psbt.signInput(inputIndex, keyPair, [bitcoin.Transaction.SIGHASH_ALL]);
-      this.usedSigners.add(pubkey);
-      return true;
+      // Sign with SIGHASH_ALL (SIGHASH_DEFAULT for Taproot script path)
+      const sighashType = input.tapLeafScript
+        ? bitcoin.Transaction.SIGHASH_DEFAULT
+        : bitcoin.Transaction.SIGHASH_ALL;
+      psbt.signInput(inputIndex, keyPair, [sighashType]);
+      return { index: inputIndex, status: "signed" };
     } catch (error) {
-      console.error("Signing error:", error);
-      return false;
+      return { index: inputIndex, status: "failed", error: `${error}` };
     }
   }
 
-  public finalizeTransaction(psbt: bitcoin.Psbt): string {
-    if (!this.verifyTransaction(psbt)) {
-      throw new Error("Transaction verification failed");
+  /**
+   * Encodes a PSBT for passing to another cosigner
+   * @param psbt - PSBT to export
+   * @param format - base64 (default) or hex
+   */
+  public exportPsbt(psbt: bitcoin.Psbt, format: PsbtFormat = "base64"): string {
+    return exportPsbt(psbt, format);
+  }
+
+  /**
+   * Decodes a base64 or hex PSBT received from another cosigner
+   */
+  public importPsbt(data: string): bitcoin.Psbt {
+    return importPsbt(data, this.network);
+  }
+
+  /**
+   * Merges copies of a PSBT signed by different cosigners (BIP174 combiner)
+   * @param psbts - PSBTs or encoded PSBTs sharing the same unsigned transaction
+   * @throws If the unsigned transactions differ or the copies conflict
+   */
+  public combine(psbts: (bitcoin.Psbt | string)[]): bitcoin.Psbt {
+    return combinePsbts(
+      psbts.map((psbt) =>
+        typeof psbt === "string" ? this.importPsbt(psbt) : psbt
+      ),
+      this.network
+    );
+  }
+
+  public finalizeTransaction(
+    psbt: bitcoin.Psbt,
+    options: FinalizeOptions = {}
+  ): string {
+    const report = this.verifyTransaction(psbt);
+    if (!report.valid) {
+      const failed = report.inputs
+        .filter((input) => input.status !== "valid")
+        .map((input) => `input ${input.index} ${input.status}`);
+      throw new Error(`Transaction verification failed: ${failed.join(", ")}`);
     }
 
     try {
-      psbt.finalizeAllInputs();
+      psbt.data.inputs.forEach((input, index) => {
+        if (input.tapLeafScript) {
+          psbt.finalizeTaprootInput(index, undefined, (i, taprootInput) =>
+            this.finalizeTapscriptInput(psbt, i, taprootInput)
+          );
+        } else if (this.recovery || this.miniscript) {
+          psbt.finalizeInput(
+            index,
+            (i: number, scriptInput: bitcoin.Psbt["data"]["inputs"][number]) =>
+              this.finalizeScriptInput(
+                scriptInput,
+                this.miniscript
+                  ? this.satisfyPolicy(psbt, i)
+                  : this.getBranchStack(
+                      i,
+                      scriptInput,
+                      this.getSpendPath(psbt, i)
+                    )
+              )
+          );
+        } else {
+          psbt.finalizeInput(index);
+        }
+      });
       const tx = psbt.extractTransaction();
+      this.checkVirtualSize(psbt, tx);
+      if (options.verifyScripts) {
+        verifyTransactionScripts(
+          tx,
+          psbt.data.inputs.map((_, index) => getPrevout(psbt, index))
+        );
+      }
       return tx.toHex();
     } catch (error) {
       throw new Error(`Transaction finalization failed: ${error}`);
     }
   }
 
-  public verifyTransaction(psbt: bitcoin.Psbt): boolean {
-    const inputs = psbt.data.inputs;
+  /**
+   * Confirms the finalized transaction is no larger than the estimate the
+   * fee was based on, so fee-rate transactions never underpay
+   */
+  private checkVirtualSize(psbt: bitcoin.Psbt, tx: bitcoin.Transaction): void {
+    const scriptPubKeys = psbt.data.inputs.map((_, index) =>
+      getPrevout(psbt, index).script.toString("hex")
+    );
+    const estimatedVsize = weightToVsize(
+      this.estimateWeight(
+        scriptPubKeys,
+        psbt.txOutputs.map((output) => output.script),
+        psbt.data.inputs.map((_, index) => this.getSpendPath(psbt, index))
+      )
+    );
 
-    for (const input of inputs) {
-      // Verify we have enough signatures
-      if (!input.partialSig || input.partialSig.length < this.m) {
-        return false;
-      }
+    if (tx.virtualSize() > estimatedVsize) {
+      throw new Error(
+        `Transaction vsize ${tx.virtualSize()} exceeds estimated vsize ${estimatedVsize}`
+      );
+    }
+  }
 
-      // Verify signatures are from unique signers
-      const signers = new Set<string>();
-      for (const sig of input.partialSig) {
-        const pubkeyHex = Buffer.from(sig.pubkey).toString("hex");
-        if (signers.has(pubkeyHex)) {
-          return false;
+  /**
+   * Branch an input of a decaying multisig spends through: the Taproot leaf
+   * it commits to, otherwise the recovery branch once the transaction's
+   * nSequence/nLockTime satisfies the timelock
+   */
+  private getSpendPath(psbt: bitcoin.Psbt, index: number): SpendPath {
+    const input = psbt.data.inputs[index];
+    if (!this.recovery) {
+      return "primary";
+    }
+    if (input.tapLeafScript) {
+      return input.tapLeafScript[0].script.equals(
+        this.taproot.recoveryLeafScript!
+      )
+        ? "recovery"
+        : "primary";
+    }
+    const tx = bitcoin.Transaction.fromBuffer(psbt.data.getTransaction());
+    return isTimelockSatisfied(this.recovery.timelock, tx, index)
+      ? "recovery"
+      : "primary";
+  }
+
+  /**
+   * Builds the stack satisfying the OP_IF script of a decaying multisig:
+   * the branch's signatures in key order after the dummy element, then
+   * OP_1 for the primary branch or empty for the recovery branch
+   */
+  private getBranchStack(
+    inputIndex: number,
+    input: bitcoin.Psbt["data"]["inputs"][number],
+    path: SpendPath
+  ): Buffer[] {
+    const { m, pubkeys } = this.getBranch(path);
+    const sigs = pubkeys
+      .flatMap(
+        (pubkey) =>
+          input.partialSig?.find((sig) => sig.pubkey.equals(pubkey)) || []
+      )
+      .slice(0, m)
+      .map((sig) => sig.signature);
+    if (sigs.length < m) {
+      throw new Error(`Can not finalize input #${inputIndex}`);
+    }
+
+    return [
+      Buffer.alloc(0),
+      ...sigs,
+      path === "primary" ? Buffer.from([1]) : Buffer.alloc(0),
+    ];
+  }
+
+  /**
+   * Satisfies the spending policy with the signatures of the input and the
+   * transaction's nSequence/nLockTime
+   * @param signers - Only use signatures of these keys (defaults to all)
+   * @throws If the policy can't be satisfied
+   */
+  private satisfyPolicy(
+    psbt: bitcoin.Psbt,
+    index: number,
+    signers?: Buffer[]
+  ): Buffer[] {
+    const input = psbt.data.inputs[index];
+    const tx = bitcoin.Transaction.fromBuffer(psbt.data.getTransaction());
+    const sigs =
+      (input.tapLeafScript ? input.tapScriptSig : input.partialSig) || [];
+    const satisfier: Satisfier = {
+      sign: (name) => {
+        const pubkey = this.getPolicyKey(name);
+        const key = input.tapLeafScript ? pubkey.subarray(1, 33) : pubkey;
+        if (signers && !signers.some((signer) => signer.equals(key))) {
+          return undefined;
         }
-        signers.add(pubkeyHex);
+        return sigs.find((sig) => sig.pubkey.equals(key))?.signature;
+      },
+      older: (blocks) =>
+        isTimelockSatisfied({ type: "relative", blocks }, tx, index),
+      after: (locktime) =>
+        isTimelockSatisfied({ type: "absolute", locktime }, tx, index),
+    };
+    return satisfy(
+      input.tapLeafScript
+        ? toTapMiniscript(this.miniscript!)
+        : this.miniscript!,
+      satisfier
+    );
+  }
 
-        // Verify signer is authorized
-        if (
-          !this.pubkeys.some(
-            (p) => Buffer.from(p).toString("hex") === pubkeyHex
-          )
-        ) {
-          return false;
+  /**
+   * Wraps a satisfying stack into the scriptSig and witness of a P2SH,
+   * P2WSH or P2SH-P2WSH input
+   */
+  private finalizeScriptInput(
+    input: bitcoin.Psbt["data"]["inputs"][number],
+    stack: Buffer[]
+  ): {
+    finalScriptSig: Buffer | undefined;
+    finalScriptWitness: Buffer | undefined;
+  } {
+    if (!input.witnessScript) {
+      return {
+        finalScriptSig: bitcoin.script.compile([...stack, input.redeemScript!]),
+        finalScriptWitness: undefined,
+      };
+    }
+    return {
+      // P2SH-P2WSH pushes the witness program as its redeem script
+      finalScriptSig: input.redeemScript
+        ? bitcoin.script.compile([input.redeemScript])
+        : undefined,
+      finalScriptWitness: serializeWitness([...stack, input.witnessScript]),
+    };
+  }
+
+  /**
+   * Builds the witness for a multi_a leaf. Tapscript needs one stack
+   * element per key (in reverse script order), an empty one for keys that
+   * don't sign, and exactly m signatures for OP_NUMEQUAL to succeed.
+   * Spending policy leaves use the policy's satisfaction instead.
+   */
+  private finalizeTapscriptInput(
+    psbt: bitcoin.Psbt,
+    inputIndex: number,
+    input: bitcoin.Psbt["data"]["inputs"][number]
+  ): { finalScriptWitness: Buffer | undefined } {
+    const tapLeaf = input.tapLeafScript![0];
+    if (this.miniscript) {
+      return {
+        finalScriptWitness: serializeWitness([
+          ...this.satisfyPolicy(psbt, inputIndex),
+          tapLeaf.script,
+          tapLeaf.controlBlock,
+        ]),
+      };
+    }
+    const sigs = input.tapScriptSig || [];
+    const path: SpendPath = tapLeaf.script.equals(this.taproot.leafScript)
+      ? "primary"
+      : "recovery";
+
+    let remaining = this.getBranch(path).m;
+    const stack = this.getXOnlyPubkeys(path).map((pubkey) => {
+      const sig = sigs.find((s) => s.pubkey.equals(pubkey));
+      if (sig && remaining > 0) {
+        remaining--;
+        return sig.signature;
+      }
+      return Buffer.alloc(0);
+    });
+
+    if (remaining > 0) {
+      throw new Error(`Can not finalize input #${inputIndex}`);
+    }
+
+    return {
+      finalScriptWitness: serializeWitness([
+        ...stack.reverse(),
+        tapLeaf.script,
+        tapLeaf.controlBlock,
+      ]),
+    };
+  }
+
+  /**
+   * Verifies every signature in the PSBT against the sighash of its input
+   * (legacy for P2SH, BIP143 for P2WSH, BIP341 for Taproot) and checks
+   * that each input has m valid signatures from wallet keys
+   * @returns The outcome per input and signature
+   */
+  public verifyTransaction(psbt: bitcoin.Psbt): VerificationReport {
+    const inputs = psbt.data.inputs.map((input, index) =>
+      this.verifyInput(psbt, index)
+    );
+    return {
+      valid: inputs.every((input) => input.status === "valid"),
+      inputs,
+    };
+  }
+
+  private verifyInput(psbt: bitcoin.Psbt, index: number): InputVerification {
+    const input = psbt.data.inputs[index];
+    // Taproot script path signatures are keyed by x-only public key
+    const partialSigs =
+      (input.tapLeafScript ? input.tapScriptSig : input.partialSig) || [];
+    // Keys of both branches belong to the wallet, but only signatures from
+    // the spending branch count towards its threshold
+    const path = this.getSpendPath(psbt, index);
+    const { m, pubkeys } = this.getBranch(path);
+    const toKey = (pubkey: Buffer) =>
+      input.tapLeafScript ? pubkey.subarray(1, 33) : pubkey;
+    const authorizedKeys = [
+      ...this.pubkeys,
+      ...(this.recovery?.publicKeys || []),
+    ].map(toKey);
+    const branchKeys = pubkeys.map(toKey);
+
+    const signatures = partialSigs.map(
+      ({ pubkey, signature }): SignatureVerification => {
+        if (!authorizedKeys.some((key) => key.equals(pubkey))) {
+          return { pubkey, status: "foreignKey" };
+        }
+        try {
+          this.verifySignature(psbt, index, pubkey, signature);
+          return { pubkey, status: "valid" };
+        } catch (error) {
+          return {
+            pubkey,
+            status: "invalid",
+            error: error instanceof Error ? error.message : `${error}`,
+          };
         }
       }
+    );
+
+    // Signatures are keyed by public key, so valid ones are from unique signers
+    const validKeys = signatures
+      .filter(
+        (sig) =>
+          sig.status === "valid" &&
+          branchKeys.some((key) => key.equals(sig.pubkey))
+      )
+      .map((sig) => sig.pubkey);
+    const validSignatures = validKeys.length;
+    let status: InputVerificationStatus = "valid";
+    if (signatures.some((sig) => sig.status === "foreignKey")) {
+      status = "foreignKey";
+    } else if (signatures.some((sig) => sig.status === "invalid")) {
+      status = "invalid";
+    } else if (
+      this.miniscript
+        ? !this.canSatisfyPolicy(psbt, index, validKeys)
+        : validSignatures < m
+    ) {
+      status = "missing";
     }
 
-    return true;
+    return { index, status, validSignatures, signatures };
+  }
+
+  private canSatisfyPolicy(
+    psbt: bitcoin.Psbt,
+    index: number,
+    signers: Buffer[]
+  ): boolean {
+    try {
+      this.satisfyPolicy(psbt, index, signers);
+      return true;
+    } catch (error) {
+      return false;
+    }
   }
 
-  // Helper method to reset used signers tracking
-  public resetSigners(): void {
-    this.usedSigners.clear();
+  /**
+   * Checks a signature and its sighash type against the input's sighash
+   * @throws Describing why the signature is invalid
+   */
+  private verifySignature(
+    psbt: bitcoin.Psbt,
+    index: number,
+    pubkey: Buffer,
+    signature: Buffer
+  ): void {
+    const input = psbt.data.inputs[index];
+    const tx = bitcoin.Transaction.fromBuffer(psbt.data.getTransaction());
+
+    if (input.tapLeafScript) {
+      if (signature.length !== 64 && signature.length !== 65) {
+        throw new Error("Invalid Schnorr signature length");
+      }
+      // BIP341: 64 byte signatures imply SIGHASH_DEFAULT
+      const hashType =
+        signature.length === 65
+          ? signature[64]
+          : bitcoin.Transaction.SIGHASH_DEFAULT;
+      this.checkSighashType(
+        input.sighashType ?? bitcoin.Transaction.SIGHASH_DEFAULT,
+        hashType
+      );
+
+      const prevouts = psbt.data.inputs.map((_, i) => getPrevout(psbt, i));
+      const leaf = input.tapLeafScript[0];
+      const hash = tx.hashForWitnessV1(
+        index,
+        prevouts.map((prevout) => prevout.script),
+        prevouts.map((prevout) => prevout.value),
+        hashType,
+        tapleafHash(leaf.script, leaf.leafVersion)
+      );
+      if (!tinysecp.verifySchnorr(hash, pubkey, signature.subarray(0, 64))) {
+        throw new Error("Schnorr signature does not match the sighash");
+      }
+      return;
+    }
+
+    const decoded = bitcoin.script.signature.decode(signature);
+    this.checkSighashType(
+      input.sighashType ?? bitcoin.Transaction.SIGHASH_ALL,
+      decoded.hashType
+    );
+
+    let hash: Buffer;
+    if (input.witnessScript) {
+      if (!input.witnessUtxo) {
+        throw new Error(`Missing witnessUtxo for input ${index}`);
+      }
+      hash = tx.hashForWitnessV0(
+        index,
+        input.witnessScript,
+        input.witnessUtxo.value,
+        decoded.hashType
+      );
+    } else if (input.redeemScript) {
+      hash = tx.hashForSignature(index, input.redeemScript, decoded.hashType);
+    } else {
+      throw new Error("Input has no redeem or witness script");
+    }
+
+    if (!tinysecp.verify(hash, pubkey, decoded.signature)) {
+      throw new Error("ECDSA signature does not match the sighash");
+    }
+  }
+
+  private checkSighashType(expected: number, actual: number): void {
+    if (expected !== actual) {
+      throw new Error(
+        `Unexpected sighash type ${actual}, expected ${expected}`
+      );
+    }
   }
 }
 
@@ -324,9 +2263,9 @@ function createTestWallet(m: number = 2): {
   keyPairs: ECPairInterface[];
 } {
   const keyPairs = [
-    ECPair.makeRandom({ network }),
-    ECPair.makeRandom({ network }),
-    ECPair.makeRandom({ network }),
+    ECPair.makeRandom({ network: bitcoin.networks.testnet }),
+    ECPair.makeRandom({ network: bitcoin.networks.testnet }),
+    ECPair.makeRandom({ network: bitcoin.networks.testnet }),
   ];
 
   const pubkeys = keyPairs.map((kp) => Buffer.from(kp.publicKey));
@@ -339,4 +2278,27 @@ function createTestWallet(m: number = 2): {
   };
 }
 
-export { MultisigWallet, createTestWallet };
+// Test helper function: a UTXO paying to the address, created by a
+// placeholder transaction paying the same output up to vout
+function createTestUtxo(
+  address: string,
+  value: number = 100000,
+  vout: number = 0,
+  network: bitcoin.Network = bitcoin.networks.testnet
+): UTXO {
+  const script = bitcoin.address.toOutputScript(address, network);
+  const prevTx = new bitcoin.Transaction();
+  prevTx.addInput(Buffer.alloc(32), 0);
+  for (let i = 0; i <= vout; i++) {
+    prevTx.addOutput(script, value);
+  }
+  return {
+    txid: prevTx.getId(),
+    vout,
+    value: BigInt(value),
+    scriptPubKey: script.toString("hex"),
+    prevTx: prevTx.toHex(),
+  };
+}
+
+export { MultisigWallet, createTestWallet, createTestUtxo };
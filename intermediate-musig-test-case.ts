@@ -24,6 +24,7 @@ async function runTests() {
     console.log("✓ Wallet created successfully");
     console.log("P2SH Address:", addresses.p2sh);
     console.log("P2WSH Address:", addresses.p2wsh);
+    console.log("P2TR Address:", addresses.p2tr);
     console.log("");
 
     // Test 2: Create Transaction
@@ -80,7 +81,7 @@ async function runTests() {
 
     // Test 4: Verify and Finalize Transaction
     console.log("Test 4: Verifying and Finalizing Transaction");
-    const isValid = wallet.verifyTransaction(psbt);
+    const isValid = wallet.verifyTransaction(psbt).valid;
     console.log("✓ Transaction verification:", isValid);
 
     if (isValid) {
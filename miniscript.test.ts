@@ -0,0 +1,188 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { ECPairFactory, ECPairInterface } from "ecpair";
+import * as tinysecp from "tiny-secp256k1";
+import {
+  Satisfier,
+  compilePolicy,
+  formatMiniscript,
+  getMiniscriptKeys,
+  maxSatisfactionSize,
+  miniscriptToScript,
+  minimumSignatures,
+  parseMiniscript,
+  parsePolicy,
+  satisfy,
+  toTapMiniscript,
+  typeCheck,
+} from "./miniscript";
+import { verifyInputScript } from "./script-interpreter";
+
+const ECPair = ECPairFactory(tinysecp);
+const network = bitcoin.networks.testnet;
+
+const POLICY = "or(thresh(2,pk(A),pk(B),pk(C)),and(pk(R),older(26280)))";
+const MINISCRIPT = "or_d(multi(2,A,B,C),and_v(v:pk(R),older(26280)))";
+
+describe("Miniscript", () => {
+  describe("Policy compiler", () => {
+    it("should compile a decaying multisig policy", () => {
+      const miniscript = compilePolicy(POLICY);
+
+      expect(formatMiniscript(miniscript)).toBe(MINISCRIPT);
+      expect(getMiniscriptKeys(miniscript)).toEqual(["A", "B", "C", "R"]);
+      expect(minimumSignatures(miniscript)).toBe(1);
+      expect(formatMiniscript(compilePolicy(POLICY, "tap"))).toBe(
+        "or_d(multi_a(2,A,B,C),and_v(v:pk(R),older(26280)))"
+      );
+    });
+
+    it("should put the likelier branch of an or first", () => {
+      expect(formatMiniscript(compilePolicy("or(pk(A),9@pk(B))"))).toBe(
+        "or_d(pk(B),pk(A))"
+      );
+      // or_d() needs a dissatisfiable first branch, whatever the odds
+      expect(
+        formatMiniscript(compilePolicy("or(pk(A),9@and(pk(B),after(100)))"))
+      ).toBe("or_d(pk(A),and_v(v:pk(B),after(100)))");
+    });
+
+    it("should wrap the arguments of a thresh", () => {
+      const miniscript = compilePolicy("thresh(2,pk(A),or(pk(B),pk(C)),pk(D))");
+
+      expect(formatMiniscript(miniscript)).toBe(
+        "thresh(2,pk(A),a:or_d(pk(B),pk(C)),s:pk(D))"
+      );
+      expect(minimumSignatures(miniscript)).toBe(2);
+    });
+
+    it("should reject invalid policies", () => {
+      expect(() => parsePolicy("thresh(4,pk(A),pk(B))")).toThrow();
+      expect(() => parsePolicy("older(0)")).toThrow(
+        "Relative timelock must be between 1 and 65535 blocks"
+      );
+      expect(() => parsePolicy("pk(A")).toThrow();
+    });
+  });
+
+  describe("Parsing and type checking", () => {
+    it("should round trip miniscript expressions", () => {
+      expect(formatMiniscript(parseMiniscript(MINISCRIPT))).toBe(MINISCRIPT);
+      expect(
+        formatMiniscript(
+          parseMiniscript("thresh(2,pk(A),a:or_d(pk(B),pk(C)),s:pk(D))")
+        )
+      ).toBe("thresh(2,pk(A),a:or_d(pk(B),pk(C)),s:pk(D))");
+    });
+
+    it("should reject ill-typed miniscript", () => {
+      expect(() => parseMiniscript("and_v(pk(A),pk(B))")).toThrow(
+        "Invalid miniscript: and_v() requires a V first argument"
+      );
+      expect(() => parseMiniscript("v:pk(A)")).toThrow(
+        "Top level miniscript must be of type B"
+      );
+      expect(typeCheck(parseMiniscript(MINISCRIPT)).base).toBe("B");
+    });
+  });
+
+  describe("Script and satisfaction", () => {
+    let keyPairs: Record<string, ECPairInterface>;
+    const resolveKey = (name: string) => Buffer.from(keyPairs[name].publicKey);
+
+    beforeEach(() => {
+      keyPairs = Object.fromEntries(
+        ["A", "B", "C", "R"].map((name) => [
+          name,
+          ECPair.makeRandom({ network }),
+        ])
+      );
+    });
+
+    it("should compile to script", () => {
+      const script = miniscriptToScript(
+        parseMiniscript(MINISCRIPT),
+        resolveKey
+      );
+      const ops = bitcoin.opcodes;
+
+      expect(bitcoin.script.decompile(script)).toEqual([
+        ops.OP_2,
+        resolveKey("A"),
+        resolveKey("B"),
+        resolveKey("C"),
+        ops.OP_3,
+        ops.OP_CHECKMULTISIG,
+        ops.OP_IFDUP,
+        ops.OP_NOTIF,
+        resolveKey("R"),
+        ops.OP_CHECKSIGVERIFY,
+        bitcoin.script.number.encode(26280),
+        ops.OP_CHECKSEQUENCEVERIFY,
+        ops.OP_ENDIF,
+      ]);
+      expect(() =>
+        miniscriptToScript(parseMiniscript(MINISCRIPT), resolveKey, "tap")
+      ).toThrow("multi() is disabled in tapscript, use multi_a()");
+    });
+
+    it("should compute the largest satisfaction size", () => {
+      const miniscript = parseMiniscript(MINISCRIPT);
+
+      // Dummy, two signatures and the dissatisfaction of nothing else
+      expect(maxSatisfactionSize(miniscript)).toBe(147);
+      expect(
+        maxSatisfactionSize(toTapMiniscript(miniscript), "tap")
+      ).toBeLessThan(147);
+    });
+
+    it("should satisfy either branch with a witness the interpreter accepts", () => {
+      const miniscript = parseMiniscript(MINISCRIPT);
+      const witnessScript = miniscriptToScript(miniscript, resolveKey);
+      const prevouts = [
+        {
+          script: bitcoin.payments.p2wsh({
+            redeem: { output: witnessScript, network },
+            network,
+          }).output!,
+          value: 100000,
+        },
+      ];
+      const spend = (sequence: number, signers: string[]) => {
+        const tx = new bitcoin.Transaction();
+        tx.version = 2;
+        tx.addInput(Buffer.alloc(32, 1), 0, sequence);
+        tx.addOutput(prevouts[0].script, 99000);
+        const hash = tx.hashForWitnessV0(
+          0,
+          witnessScript,
+          prevouts[0].value,
+          bitcoin.Transaction.SIGHASH_ALL
+        );
+        const satisfier: Satisfier = {
+          sign: (name) =>
+            signers.includes(name)
+              ? bitcoin.script.signature.encode(
+                  Buffer.from(keyPairs[name].sign(hash)),
+                  bitcoin.Transaction.SIGHASH_ALL
+                )
+              : undefined,
+          older: (blocks) => sequence >= blocks,
+          after: () => false,
+        };
+        tx.ins[0].witness = [...satisfy(miniscript, satisfier), witnessScript];
+        return tx;
+      };
+
+      expect(() =>
+        verifyInputScript(spend(0xfffffffd, ["A", "C"]), 0, prevouts)
+      ).not.toThrow();
+      expect(() =>
+        verifyInputScript(spend(26280, ["R"]), 0, prevouts)
+      ).not.toThrow();
+      // Before the timelock the recovery key alone can't satisfy the policy
+      expect(() => spend(100, ["R"])).toThrow(
+        "Miniscript can not be satisfied"
+      );
+    });
+  });
+});
@@ -0,0 +1,917 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { validateTimelock } from "./timelock";
+import { varIntSize } from "./tx-weight";
+
+// Miniscript (BIP379) for custom spending conditions: a compiler from the
+// policy language, type checking, script generation, satisfaction sizes and
+// witnesses built from the available signatures and timelocks.
+// Supported fragments: pk, pk_k, older, after, multi, multi_a, and_v, and_b,
+// or_b, or_d, or_i, thresh and the a:, s:, c:, v: wrappers.
+
+/**
+ * Script context: P2WSH/P2SH scripts, or BIP342 tapscript leaves
+ */
+export type MiniscriptContext = "wsh" | "tap";
+
+/**
+ * A spending policy, e.g. or(thresh(2,pk(A),pk(B),pk(C)),and(pk(R),older(26280))).
+ * Keys are names bound to public keys by the wallet.
+ */
+export type Policy =
+  | { type: "pk"; key: string }
+  | { type: "older" | "after"; value: number }
+  | { type: "and"; subs: Policy[] }
+  | { type: "or"; subs: Policy[]; weights: number[] }
+  | { type: "thresh"; k: number; subs: Policy[] };
+
+/**
+ * A miniscript expression. Wrappers are nodes with a single sub, so
+ * pk(K) is c:pk_k(K) and v:pk(K) is v:c:pk_k(K).
+ */
+export type Miniscript =
+  | { fragment: "pk_k"; key: string }
+  | { fragment: "older" | "after"; value: number }
+  | { fragment: "multi" | "multi_a"; k: number; keys: string[] }
+  | {
+      fragment: "and_v" | "and_b" | "or_b" | "or_d" | "or_i";
+      subs: [Miniscript, Miniscript];
+    }
+  | { fragment: "thresh"; k: number; subs: Miniscript[] }
+  | { fragment: "a" | "s" | "c" | "v"; sub: Miniscript };
+
+/* The `MiniscriptType` interface holds the BIP379 type of an expression:
+    1. base: "B" | "V" | "K" | "W" - Base type: pushes a boolean, verifies,
+       pushes a key, or works one element below the top of the stack
+    2. z: boolean - Consumes no stack elements
+    3. o: boolean - Consumes exactly one stack element
+    4. n: boolean - Its satisfaction never needs an empty top element
+    5. d: boolean - Has a dissatisfaction
+    6. u: boolean - Leaves exactly 1 on the stack when satisfied
+*/
+export interface MiniscriptType {
+  base: "B" | "V" | "K" | "W";
+  z: boolean;
+  o: boolean;
+  n: boolean;
+  d: boolean;
+  u: boolean;
+}
+
+/* The `Satisfier` interface provides what a satisfaction may use:
+    1. sign: (key: string) => Buffer | undefined - The key's signature,
+       if it signed
+    2. older: (blocks: number) => boolean - Whether the input's nSequence
+       satisfies older(blocks)
+    3. after: (locktime: number) => boolean - Whether the transaction's
+       nLockTime satisfies after(locktime)
+*/
+export interface Satisfier {
+  sign(key: string): Buffer | undefined;
+  older(blocks: number): boolean;
+  after(locktime: number): boolean;
+}
+
+// OP_CHECKMULTISIG takes at most 20 keys
+const MAX_MULTI_KEYS = 20;
+// Largest DER signature with low S plus the sighash type byte
+const MAX_ECDSA_SIGNATURE_SIZE = 72;
+// BIP340 signature with SIGHASH_DEFAULT
+const SCHNORR_SIGNATURE_SIZE = 64;
+const EMPTY = Buffer.alloc(0);
+const ONE = Buffer.from([1]);
+
+interface Expression {
+  name: string;
+  args: string[];
+}
+
+/**
+ * Splits name(arg,arg,...) at the commas outside nested parentheses
+ */
+function parseExpression(text: string): Expression {
+  const open = text.indexOf("(");
+  if (open === -1) {
+    return { name: text, args: [] };
+  }
+  if (!text.endsWith(")")) {
+    throw new Error(`Invalid expression: ${text}`);
+  }
+
+  const args: string[] = [];
+  let depth = 0;
+  let start = open + 1;
+  for (let i = start; i < text.length - 1; i++) {
+    if (text[i] === "(") depth++;
+    if (text[i] === ")") depth--;
+    if (depth < 0) {
+      throw new Error(`Unbalanced parentheses in: ${text}`);
+    }
+    if (text[i] === "," && depth === 0) {
+      args.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (depth !== 0) {
+    throw new Error(`Unbalanced parentheses in: ${text}`);
+  }
+  args.push(text.slice(start, text.length - 1));
+  return { name: text.slice(0, open), args };
+}
+
+function parseKeyName(arg: string): string {
+  if (!arg || /[(),@\s]/.test(arg)) {
+    throw new Error(`Invalid key: ${arg}`);
+  }
+  return arg;
+}
+
+function parseInteger(arg: string, what: string): number {
+  if (!/^\d+$/.test(arg)) {
+    throw new Error(`Invalid ${what}: ${arg}`);
+  }
+  return parseInt(arg, 10);
+}
+
+function checkArity(expression: Expression, min: number, max = min): void {
+  const count = expression.args.length;
+  if (count < min || count > max) {
+    throw new Error(`Wrong number of arguments for ${expression.name}()`);
+  }
+}
+
+function checkThreshold(k: number, n: number, name: string): void {
+  if (k < 1 || k > n) {
+    throw new Error(`Invalid threshold ${k} of ${n} in ${name}()`);
+  }
+}
+
+function parseTimelock(type: "older" | "after", arg: string): number {
+  const value = parseInteger(arg, `${type}() value`);
+  validateTimelock(
+    type === "older"
+      ? { type: "relative", blocks: value }
+      : { type: "absolute", locktime: value }
+  );
+  return value;
+}
+
+/**
+ * Parses a policy such as or(9@pk(A),1@and(pk(R),older(26280))). Optional
+ * N@ prefixes give the relative probability of or() branches.
+ */
+export function parsePolicy(text: string): Policy {
+  const expression = parseExpression(text.replace(/\s/g, ""));
+
+  switch (expression.name) {
+    case "pk":
+      checkArity(expression, 1);
+      return { type: "pk", key: parseKeyName(expression.args[0]) };
+    case "older":
+    case "after":
+      checkArity(expression, 1);
+      return {
+        type: expression.name,
+        value: parseTimelock(expression.name, expression.args[0]),
+      };
+    case "and":
+      checkArity(expression, 2);
+      return { type: "and", subs: expression.args.map(parsePolicy) };
+    case "or": {
+      checkArity(expression, 2);
+      const branches = expression.args.map((arg) => {
+        const match = arg.match(/^(\d+)@(.*)$/);
+        return match
+          ? { weight: parseInteger(match[1], "probability"), policy: match[2] }
+          : { weight: 1, policy: arg };
+      });
+      return {
+        type: "or",
+        subs: branches.map((branch) => parsePolicy(branch.policy)),
+        weights: branches.map((branch) => branch.weight),
+      };
+    }
+    case "thresh": {
+      checkArity(expression, 2, Infinity);
+      const [kArg, ...subArgs] = expression.args;
+      const k = parseInteger(kArg, "threshold");
+      checkThreshold(k, subArgs.length, "thresh");
+      return { type: "thresh", k, subs: subArgs.map(parsePolicy) };
+    }
+    default:
+      throw new Error(`Unsupported policy fragment: ${expression.name}`);
+  }
+}
+
+/**
+ * Parses a miniscript expression such as
+ * or_d(multi(2,A,B,C),and_v(v:pk(R),older(26280))) and type checks it
+ */
+export function parseMiniscript(text: string): Miniscript {
+  const node = parseNode(text.replace(/\s/g, ""));
+  const type = typeCheck(node);
+  if (type.base !== "B") {
+    throw new Error("Top level miniscript must be of type B");
+  }
+  return node;
+}
+
+function parseNode(text: string): Miniscript {
+  const colon = text.indexOf(":");
+  const open = text.indexOf("(");
+  if (colon !== -1 && (open === -1 || colon < open)) {
+    const wrappers = text.slice(0, colon);
+    let node = parseNode(text.slice(colon + 1));
+    for (const wrapper of wrappers.split("").reverse()) {
+      if (!["a", "s", "c", "v"].includes(wrapper)) {
+        throw new Error(`Unsupported miniscript wrapper: ${wrapper}`);
+      }
+      node = { fragment: wrapper as "a" | "s" | "c" | "v", sub: node };
+    }
+    return node;
+  }
+
+  const expression = parseExpression(text);
+  switch (expression.name) {
+    case "pk":
+    case "pk_k": {
+      checkArity(expression, 1);
+      const pkK: Miniscript = {
+        fragment: "pk_k",
+        key: parseKeyName(expression.args[0]),
+      };
+      return expression.name === "pk" ? { fragment: "c", sub: pkK } : pkK;
+    }
+    case "older":
+    case "after":
+      checkArity(expression, 1);
+      return {
+        fragment: expression.name,
+        value: parseTimelock(expression.name, expression.args[0]),
+      };
+    case "multi":
+    case "multi_a": {
+      checkArity(expression, 2, Infinity);
+      const [kArg, ...keyArgs] = expression.args;
+      const k = parseInteger(kArg, "threshold");
+      checkThreshold(k, keyArgs.length, expression.name);
+      return {
+        fragment: expression.name,
+        k,
+        keys: keyArgs.map(parseKeyName),
+      };
+    }
+    case "and_v":
+    case "and_b":
+    case "or_b":
+    case "or_d":
+    case "or_i":
+      checkArity(expression, 2);
+      return {
+        fragment: expression.name,
+        subs: [parseNode(expression.args[0]), parseNode(expression.args[1])],
+      };
+    case "thresh": {
+      checkArity(expression, 2, Infinity);
+      const [kArg, ...subArgs] = expression.args;
+      const k = parseInteger(kArg, "threshold");
+      checkThreshold(k, subArgs.length, "thresh");
+      return { fragment: "thresh", k, subs: subArgs.map(parseNode) };
+    }
+    default:
+      throw new Error(`Unsupported miniscript fragment: ${expression.name}`);
+  }
+}
+
+/**
+ * Formats a miniscript expression, optionally replacing its key names
+ * @param formatKey - Maps each key name to its text, e.g. a key expression
+ */
+export function formatMiniscript(
+  node: Miniscript,
+  formatKey: (key: string) => string = (key) => key
+): string {
+  let wrappers = "";
+  while ("sub" in node && !(node.fragment === "c" && "key" in node.sub)) {
+    wrappers += node.fragment;
+    node = node.sub;
+  }
+
+  let body: string;
+  if ("sub" in node) {
+    // c:pk_k(K) is written pk(K)
+    body = `pk(${formatKey((node.sub as { key: string }).key)})`;
+  } else if ("key" in node) {
+    body = `pk_k(${formatKey(node.key)})`;
+  } else if ("value" in node) {
+    body = `${node.fragment}(${node.value})`;
+  } else if ("keys" in node) {
+    body = `${node.fragment}(${[node.k, ...node.keys.map(formatKey)].join(
+      ","
+    )})`;
+  } else if (node.fragment === "thresh") {
+    body = `thresh(${[
+      node.k,
+      ...node.subs.map((sub) => formatMiniscript(sub, formatKey)),
+    ].join(",")})`;
+  } else {
+    body = `${node.fragment}(${node.subs
+      .map((sub) => formatMiniscript(sub, formatKey))
+      .join(",")})`;
+  }
+  return wrappers ? `${wrappers}:${body}` : body;
+}
+
+/**
+ * Key names of a miniscript in order of first appearance
+ */
+export function getMiniscriptKeys(node: Miniscript): string[] {
+  const keys: string[] = [];
+  const visit = (n: Miniscript) => {
+    if ("key" in n) {
+      keys.push(n.key);
+    } else if ("keys" in n) {
+      keys.push(...n.keys);
+    } else if ("sub" in n) {
+      visit(n.sub);
+    } else if ("subs" in n) {
+      n.subs.forEach(visit);
+    }
+  };
+  visit(node);
+  return keys.filter((key, index) => keys.indexOf(key) === index);
+}
+
+/**
+ * Fewest signatures any satisfaction of the miniscript needs
+ */
+export function minimumSignatures(node: Miniscript): number {
+  switch (node.fragment) {
+    case "pk_k":
+      return 1;
+    case "older":
+    case "after":
+      return 0;
+    case "multi":
+    case "multi_a":
+      return node.k;
+    case "and_v":
+    case "and_b":
+      return minimumSignatures(node.subs[0]) + minimumSignatures(node.subs[1]);
+    case "or_b":
+    case "or_d":
+    case "or_i":
+      return Math.min(...node.subs.map(minimumSignatures));
+    case "thresh":
+      return node.subs
+        .map(minimumSignatures)
+        .sort((a, b) => a - b)
+        .slice(0, node.k)
+        .reduce((sum, count) => sum + count, 0);
+    default:
+      return minimumSignatures(node.sub);
+  }
+}
+
+/**
+ * Computes the type of a miniscript expression
+ * @throws If a fragment's arguments have the wrong types
+ */
+export function typeCheck(node: Miniscript): MiniscriptType {
+  const require = (condition: boolean, message: string): void | never => {
+    if (!condition) {
+      throw new Error(`Invalid miniscript: ${message}`);
+    }
+  };
+
+  switch (node.fragment) {
+    case "pk_k":
+      return { base: "K", z: false, o: true, n: true, d: true, u: true };
+    case "older":
+    case "after":
+      return { base: "B", z: true, o: false, n: false, d: false, u: false };
+    case "multi":
+      require(node.keys.length <=
+        MAX_MULTI_KEYS, `multi() takes at most ${MAX_MULTI_KEYS} keys`);
+      return { base: "B", z: false, o: false, n: true, d: true, u: true };
+    case "multi_a":
+      return { base: "B", z: false, o: false, n: false, d: true, u: true };
+    case "c": {
+      const x = typeCheck(node.sub);
+      require(x.base === "K", "c: requires a K expression");
+      return { ...x, base: "B", u: true };
+    }
+    case "v": {
+      const x = typeCheck(node.sub);
+      require(x.base === "B", "v: requires a B expression");
+      return { ...x, base: "V", d: false, u: false };
+    }
+    case "a": {
+      const x = typeCheck(node.sub);
+      require(x.base === "B", "a: requires a B expression");
+      return { ...x, base: "W", z: false, o: false, n: false };
+    }
+    case "s": {
+      const x = typeCheck(node.sub);
+      require(x.base === "B" && x.o, "s: requires a Bo expression");
+      return { ...x, base: "W", z: false, o: false, n: false };
+    }
+    case "and_v": {
+      const [x, y] = node.subs.map(typeCheck);
+      require(x.base === "V", "and_v() requires a V first argument");
+      require(y.base !== "W", "and_v() requires a B, K or V second argument");
+      return {
+        base: y.base,
+        z: x.z && y.z,
+        o: (x.z && y.o) || (x.o && y.z),
+        n: x.n || (x.z && y.n),
+        d: false,
+        u: y.u,
+      };
+    }
+    case "and_b": {
+      const [x, y] = node.subs.map(typeCheck);
+      require(x.base === "B" &&
+        y.base === "W", "and_b() requires B and W arguments");
+      return {
+        base: "B",
+        z: x.z && y.z,
+        o: (x.z && y.o) || (x.o && y.z),
+        n: x.n || (x.z && y.n),
+        d: x.d && y.d,
+        u: true,
+      };
+    }
+    case "or_b": {
+      const [x, z] = node.subs.map(typeCheck);
+      require(x.base === "B" &&
+        x.d &&
+        z.base === "W" &&
+        z.d, "or_b() requires Bd and Wd arguments");
+      return {
+        base: "B",
+        z: x.z && z.z,
+        o: (x.z && z.o) || (x.o && z.z),
+        n: false,
+        d: true,
+        u: true,
+      };
+    }
+    case "or_d": {
+      const [x, z] = node.subs.map(typeCheck);
+      require(x.base === "B" &&
+        x.d &&
+        x.u, "or_d() requires a Bdu first argument");
+      require(z.base === "B", "or_d() requires a B second argument");
+      return {
+        base: "B",
+        z: x.z && z.z,
+        o: x.o && z.z,
+        n: false,
+        d: z.d,
+        u: z.u,
+      };
+    }
+    case "or_i": {
+      const [x, z] = node.subs.map(typeCheck);
+      require(x.base === z.base &&
+        x.base !== "W", "or_i() requires two B, K or V arguments");
+      return {
+        base: x.base,
+        z: false,
+        o: x.z && z.z,
+        n: false,
+        d: x.d || z.d,
+        u: x.u && z.u,
+      };
+    }
+    case "thresh": {
+      const types = node.subs.map(typeCheck);
+      types.forEach((t, i) => {
+        require(t.base === (i === 0 ? "B" : "W") &&
+          t.d &&
+          t.u, `thresh() argument ${i} must be ${i === 0 ? "Bdu" : "Wdu"}`);
+      });
+      const zeroArgs = types.filter((t) => t.z).length;
+      return {
+        base: "B",
+        z: zeroArgs === types.length,
+        o: zeroArgs === types.length - 1 && types.every((t) => t.z || t.o),
+        n: false,
+        d: true,
+        u: true,
+      };
+    }
+  }
+}
+
+function pkK(key: string): Miniscript {
+  return { fragment: "c", sub: { fragment: "pk_k", key } };
+}
+
+/**
+ * Compiles a policy to miniscript: thresholds of keys become multi() (or
+ * multi_a() in tapscript), and() becomes and_v() with timelocks last, and
+ * or() becomes or_d() when a branch can be dissatisfied, else or_i()
+ * @param policy - Policy or policy text
+ * @param context - Script context the miniscript is for
+ */
+export function compilePolicy(
+  policy: Policy | string,
+  context: MiniscriptContext = "wsh"
+): Miniscript {
+  const compile = (p: Policy): Miniscript => {
+    switch (p.type) {
+      case "pk":
+        return pkK(p.key);
+      case "older":
+      case "after":
+        return { fragment: p.type, value: p.value };
+      case "and": {
+        let [x, y] = p.subs.map(compile);
+        if (typeCheck(x).z && !typeCheck(y).z) {
+          [x, y] = [y, x];
+        }
+        return { fragment: "and_v", subs: [{ fragment: "v", sub: x }, y] };
+      }
+      case "or": {
+        // The likelier branch goes first, where it is cheaper to satisfy
+        let [x, z] = p.subs.map(compile);
+        if (p.weights[1] > p.weights[0]) {
+          [x, z] = [z, x];
+        }
+        const canDissatisfy = (node: Miniscript) => {
+          const type = typeCheck(node);
+          return type.d && type.u;
+        };
+        if (canDissatisfy(x)) {
+          return { fragment: "or_d", subs: [x, z] };
+        }
+        if (canDissatisfy(z)) {
+          return { fragment: "or_d", subs: [z, x] };
+        }
+        return { fragment: "or_i", subs: [x, z] };
+      }
+      case "thresh": {
+        if (
+          p.subs.every((sub) => sub.type === "pk") &&
+          (context === "tap" || p.subs.length <= MAX_MULTI_KEYS)
+        ) {
+          return {
+            fragment: context === "tap" ? "multi_a" : "multi",
+            k: p.k,
+            keys: p.subs.map((sub) => (sub as { key: string }).key),
+          };
+        }
+        if (p.k === p.subs.length) {
+          return compile(
+            p.subs.reduce((acc, sub) => ({ type: "and", subs: [acc, sub] }))
+          );
+        }
+        if (p.k === 1) {
+          return compile(
+            p.subs.reduce((acc, sub) => ({
+              type: "or",
+              subs: [acc, sub],
+              weights: [1, 1],
+            }))
+          );
+        }
+        const subs = p.subs.map(compile);
+        return {
+          fragment: "thresh",
+          k: p.k,
+          subs: subs.map((sub, i) => {
+            const type = typeCheck(sub);
+            if (!type.d || !type.u) {
+              throw new Error(
+                "Unsupported policy: thresh() arguments must be dissatisfiable"
+              );
+            }
+            if (i === 0) {
+              return sub;
+            }
+            return { fragment: type.o ? "s" : "a", sub };
+          }),
+        };
+      }
+    }
+  };
+
+  const node = compile(
+    typeof policy === "string" ? parsePolicy(policy) : policy
+  );
+  typeCheck(node);
+  return node;
+}
+
+/**
+ * Converts a P2WSH miniscript for use in a tapscript leaf, where
+ * OP_CHECKMULTISIG is disabled and multi() becomes multi_a()
+ */
+export function toTapMiniscript(node: Miniscript): Miniscript {
+  if (node.fragment === "multi") {
+    return { ...node, fragment: "multi_a" };
+  }
+  if ("sub" in node) {
+    return { ...node, sub: toTapMiniscript(node.sub) };
+  }
+  if ("subs" in node) {
+    return {
+      ...node,
+      subs: node.subs.map(toTapMiniscript),
+    } as Miniscript;
+  }
+  return node;
+}
+
+/**
+ * Compiles a miniscript to Bitcoin script
+ * @param resolveKey - Maps each key name to its compressed public key
+ * @param context - wsh for P2WSH/P2SH, tap for tapscript (x-only keys)
+ */
+export function miniscriptToScript(
+  node: Miniscript,
+  resolveKey: (key: string) => Buffer,
+  context: MiniscriptContext = "wsh"
+): Buffer {
+  const ops = bitcoin.opcodes;
+  const key = (name: string) => {
+    const pubkey = resolveKey(name);
+    return context === "tap" && pubkey.length === 33
+      ? pubkey.subarray(1, 33)
+      : pubkey;
+  };
+  const number = (n: number) => bitcoin.script.number.encode(n);
+  // Opcodes v: merges into their VERIFY variant
+  const verifyVariants: Record<number, number> = {
+    [ops.OP_CHECKSIG]: ops.OP_CHECKSIGVERIFY,
+    [ops.OP_CHECKMULTISIG]: ops.OP_CHECKMULTISIGVERIFY,
+    [ops.OP_EQUAL]: ops.OP_EQUALVERIFY,
+    [ops.OP_NUMEQUAL]: ops.OP_NUMEQUALVERIFY,
+  };
+
+  const build = (n: Miniscript): (number | Buffer)[] => {
+    switch (n.fragment) {
+      case "pk_k":
+        return [key(n.key)];
+      case "older":
+        return [number(n.value), ops.OP_CHECKSEQUENCEVERIFY];
+      case "after":
+        return [number(n.value), ops.OP_CHECKLOCKTIMEVERIFY];
+      case "multi":
+        if (context === "tap") {
+          throw new Error("multi() is disabled in tapscript, use multi_a()");
+        }
+        return [
+          number(n.k),
+          ...n.keys.map(key),
+          number(n.keys.length),
+          ops.OP_CHECKMULTISIG,
+        ];
+      case "multi_a":
+        if (context !== "tap") {
+          throw new Error("multi_a() is only available in tapscript");
+        }
+        return [
+          key(n.keys[0]),
+          ops.OP_CHECKSIG,
+          ...n.keys.slice(1).flatMap((k) => [key(k), ops.OP_CHECKSIGADD]),
+          number(n.k),
+          ops.OP_NUMEQUAL,
+        ];
+      case "c":
+        return [...build(n.sub), ops.OP_CHECKSIG];
+      case "v": {
+        const chunks = build(n.sub);
+        const last = chunks[chunks.length - 1];
+        if (typeof last === "number" && verifyVariants[last]) {
+          return [...chunks.slice(0, -1), verifyVariants[last]];
+        }
+        return [...chunks, ops.OP_VERIFY];
+      }
+      case "a":
+        return [ops.OP_TOALTSTACK, ...build(n.sub), ops.OP_FROMALTSTACK];
+      case "s":
+        return [ops.OP_SWAP, ...build(n.sub)];
+      case "and_v":
+        return [...build(n.subs[0]), ...build(n.subs[1])];
+      case "and_b":
+        return [...build(n.subs[0]), ...build(n.subs[1]), ops.OP_BOOLAND];
+      case "or_b":
+        return [...build(n.subs[0]), ...build(n.subs[1]), ops.OP_BOOLOR];
+      case "or_d":
+        return [
+          ...build(n.subs[0]),
+          ops.OP_IFDUP,
+          ops.OP_NOTIF,
+          ...build(n.subs[1]),
+          ops.OP_ENDIF,
+        ];
+      case "or_i":
+        return [
+          ops.OP_IF,
+          ...build(n.subs[0]),
+          ops.OP_ELSE,
+          ...build(n.subs[1]),
+          ops.OP_ENDIF,
+        ];
+      case "thresh":
+        return [
+          ...build(n.subs[0]),
+          ...n.subs.slice(1).flatMap((sub) => [...build(sub), ops.OP_ADD]),
+          number(n.k),
+          ops.OP_EQUAL,
+        ];
+    }
+  };
+
+  return Buffer.from(bitcoin.script.compile(build(node)));
+}
+
+/**
+ * Serialized size of witness stack items including their length prefixes
+ */
+export function witnessStackSize(stack: Buffer[]): number {
+  return stack.reduce(
+    (size, item) => size + varIntSize(item.length) + item.length,
+    0
+  );
+}
+
+interface Satisfactions {
+  sat?: Buffer[];
+  dissat?: Buffer[];
+}
+
+/**
+ * Computes a satisfaction and dissatisfaction of every expression,
+ * picking the smallest (or largest) witness where there is a choice
+ */
+function satisfactions(
+  node: Miniscript,
+  satisfier: Satisfier,
+  pick: "smallest" | "largest"
+): Satisfactions {
+  const best = (...options: (Buffer[] | undefined)[]) =>
+    options
+      .filter((option): option is Buffer[] => !!option)
+      .reduce<Buffer[] | undefined>((chosen, option) => {
+        if (!chosen) {
+          return option;
+        }
+        const larger = witnessStackSize(option) > witnessStackSize(chosen);
+        return larger === (pick === "largest") ? option : chosen;
+      }, undefined);
+  const concat = (...parts: (Buffer[] | undefined)[]) =>
+    parts.every((part) => part)
+      ? ([] as Buffer[]).concat(...(parts as Buffer[][]))
+      : undefined;
+  const of = (sub: Miniscript) => satisfactions(sub, satisfier, pick);
+
+  switch (node.fragment) {
+    case "pk_k": {
+      const signature = satisfier.sign(node.key);
+      return { sat: signature && [signature], dissat: [EMPTY] };
+    }
+    case "older":
+      return { sat: satisfier.older(node.value) ? [] : undefined };
+    case "after":
+      return { sat: satisfier.after(node.value) ? [] : undefined };
+    case "multi": {
+      // Signatures in key order after the dummy element
+      const signatures = node.keys
+        .flatMap((key) => satisfier.sign(key) || [])
+        .slice(0, node.k);
+      return {
+        sat: signatures.length === node.k ? [EMPTY, ...signatures] : undefined,
+        dissat: Array(node.k + 1).fill(EMPTY),
+      };
+    }
+    case "multi_a": {
+      // One element per key, the first key's on top of the stack
+      let remaining = node.k;
+      const stack = node.keys.map((key) => {
+        const signature = satisfier.sign(key);
+        if (signature && remaining > 0) {
+          remaining--;
+          return signature;
+        }
+        return EMPTY;
+      });
+      return {
+        sat: remaining === 0 ? stack.reverse() : undefined,
+        dissat: Array(node.keys.length).fill(EMPTY),
+      };
+    }
+    case "c":
+    case "a":
+    case "s":
+      return of(node.sub);
+    case "v":
+      return { sat: of(node.sub).sat };
+    case "and_v": {
+      const [x, y] = node.subs.map(of);
+      return { sat: concat(y.sat, x.sat) };
+    }
+    case "and_b": {
+      const [x, y] = node.subs.map(of);
+      return {
+        sat: concat(y.sat, x.sat),
+        dissat: concat(y.dissat, x.dissat),
+      };
+    }
+    case "or_b": {
+      const [x, z] = node.subs.map(of);
+      return {
+        sat: best(concat(z.dissat, x.sat), concat(z.sat, x.dissat)),
+        dissat: concat(z.dissat, x.dissat),
+      };
+    }
+    case "or_d": {
+      const [x, z] = node.subs.map(of);
+      return {
+        sat: best(x.sat, concat(z.sat, x.dissat)),
+        dissat: concat(z.dissat, x.dissat),
+      };
+    }
+    case "or_i": {
+      const [x, z] = node.subs.map(of);
+      return {
+        sat: best(concat(x.sat, [ONE]), concat(z.sat, [EMPTY])),
+        dissat: best(concat(x.dissat, [ONE]), concat(z.dissat, [EMPTY])),
+      };
+    }
+    case "thresh": {
+      const subs = node.subs.map(of);
+      // Satisfy the k arguments whose satisfaction adds the least (most)
+      const cost = (s: Satisfactions) =>
+        witnessStackSize(s.sat!) - witnessStackSize(s.dissat!);
+      const chosen = subs
+        .map((s, index) => ({ s, index }))
+        .filter(({ s }) => s.sat && s.dissat)
+        .sort((a, b) =>
+          pick === "smallest" ? cost(a.s) - cost(b.s) : cost(b.s) - cost(a.s)
+        )
+        .slice(0, node.k)
+        .map(({ index }) => index);
+      // The first argument's elements end up on top of the stack
+      return {
+        sat:
+          chosen.length === node.k
+            ? concat(
+                ...subs
+                  .map((s, i) => (chosen.includes(i) ? s.sat : s.dissat))
+                  .reverse()
+              )
+            : undefined,
+        dissat: concat(...subs.map((s) => s.dissat).reverse()),
+      };
+    }
+  }
+}
+
+/**
+ * Builds the smallest witness stack (without the script) satisfying the
+ * miniscript with the available signatures and timelocks
+ * @throws If the miniscript can't be satisfied
+ */
+export function satisfy(node: Miniscript, satisfier: Satisfier): Buffer[] {
+  const { sat } = satisfactions(node, satisfier, "smallest");
+  if (!sat) {
+    throw new Error("Miniscript can not be satisfied");
+  }
+  return sat;
+}
+
+/**
+ * The largest satisfaction of the miniscript, with placeholder signatures
+ * of maximum size, to estimate the weight of spending it
+ */
+export function maxSatisfaction(
+  node: Miniscript,
+  context: MiniscriptContext = "wsh"
+): Buffer[] {
+  const signature = Buffer.alloc(
+    context === "tap" ? SCHNORR_SIGNATURE_SIZE : MAX_ECDSA_SIGNATURE_SIZE
+  );
+  const { sat } = satisfactions(
+    node,
+    { sign: () => signature, older: () => true, after: () => true },
+    "largest"
+  );
+  if (!sat) {
+    throw new Error("Miniscript can not be satisfied");
+  }
+  return sat;
+}
+
+/**
+ * Size in bytes of the largest witness stack satisfying the miniscript,
+ * excluding the script itself
+ */
+export function maxSatisfactionSize(
+  node: Miniscript,
+  context: MiniscriptContext = "wsh"
+): number {
+  return witnessStackSize(maxSatisfaction(node, context));
+}
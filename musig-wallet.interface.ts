@@ -1,7 +1,12 @@
 export interface IMultisigWallet {
   generateWallet(): Promise<void>;
-  getAddresses(): { p2sh: string; p2wsh: string };
+  getAddresses(): {
+    p2sh: string;
+    p2wsh: string;
+    p2shP2wsh: string;
+    p2tr?: string;
+  };
   getMnemonics(): string[];
   getDerivationPaths(): string[];
   restoreFromMnemonic(mnemonic: string, index: number): Promise<any>;
-} 
\ No newline at end of file
+}
@@ -39,8 +39,8 @@ describe("Multisig Wallet Tests", () => {
 
       const paths = wallet.getDerivationPaths();
       expect(paths).toHaveLength(3);
-      paths.forEach((path, index) => {
-        expect(path).toBe(`m/48'/0'/0'/2'/${index}`);
+      paths.forEach((path) => {
+        expect(path).toBe("m/48'/0'/0'/2'");
       });
     });
 
@@ -0,0 +1,286 @@
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+import { ECPairFactory } from "ecpair";
+import {
+  MusigSigningSession,
+  applyTaprootTweak,
+  applyTweak,
+  finalizeTaprootSigningSession,
+  getXOnlyPublicKey,
+  keyAgg,
+  keySort,
+  nonceAgg,
+} from "./musig2";
+import { AdvancedMultisigWallet } from "./advanced-musig";
+
+const ECPair = ECPairFactory(ecc);
+bitcoin.initEccLib(ecc);
+
+// Vectors from BIP327 key_agg_vectors.json and key_sort_vectors.json
+const pubkeys = [
+  "02F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9",
+  "03DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659",
+  "023590A94E768F8E1815C2F24B4D80A8E3149316C3518CE7B7AD338368D038CA66",
+  "020000000000000000000000000000000000000000000000000000000000000005",
+  "02FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC30",
+  "04F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9",
+].map((hex) => Buffer.from(hex, "hex"));
+
+describe("MuSig2", () => {
+  describe("Key Aggregation (BIP327 test vectors)", () => {
+    const validCases = [
+      {
+        keyIndices: [0, 1, 2],
+        expected:
+          "90539EEDE565F5D054F32CC0C220126889ED1E5D193BAF15AEF344FE59D4610C",
+      },
+      {
+        keyIndices: [2, 1, 0],
+        expected:
+          "6204DE8B083426DC6EAF9502D27024D53FC826BF7D2012148A0575435DF54B2B",
+      },
+      {
+        keyIndices: [0, 0, 0],
+        expected:
+          "B436E3BAD62B8CD409969A224731C193D051162D8C5AE8B109306127DA3AA935",
+      },
+      {
+        keyIndices: [0, 0, 1, 1],
+        expected:
+          "69BC22BFA5D106306E48A20679DE1D7389386124D07571D0D872686028C26A3E",
+      },
+    ];
+
+    validCases.forEach(({ keyIndices, expected }) => {
+      it(`should aggregate keys [${keyIndices.join(", ")}]`, () => {
+        const ctx = keyAgg(keyIndices.map((i) => pubkeys[i]));
+        expect(getXOnlyPublicKey(ctx).toString("hex").toUpperCase()).toBe(
+          expected
+        );
+      });
+    });
+
+    it("should reject public keys that are not on the curve", () => {
+      expect(() => keyAgg([pubkeys[0], pubkeys[3]])).toThrow(
+        "Invalid public key at index 1"
+      );
+    });
+
+    it("should reject public keys exceeding the field size", () => {
+      expect(() => keyAgg([pubkeys[0], pubkeys[4]])).toThrow(
+        "Invalid public key at index 1"
+      );
+    });
+
+    it("should reject uncompressed public keys", () => {
+      expect(() => keyAgg([pubkeys[5], pubkeys[0]])).toThrow(
+        "Invalid public key at index 0"
+      );
+    });
+
+    it("should reject tweaks exceeding the curve order", () => {
+      const ctx = keyAgg([pubkeys[0], pubkeys[1], pubkeys[2]]);
+      const tweak = Buffer.from(
+        "FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141",
+        "hex"
+      );
+      expect(() => applyTweak(ctx, tweak, true)).toThrow(
+        "Tweak exceeds curve order"
+      );
+    });
+
+    it("should sort keys lexicographically", () => {
+      const sorted = keySort([pubkeys[1], pubkeys[2], pubkeys[0]]);
+      expect(sorted.map((pk) => pk.toString("hex").toUpperCase())).toEqual([
+        "023590A94E768F8E1815C2F24B4D80A8E3149316C3518CE7B7AD338368D038CA66",
+        "02F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9",
+        "03DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659",
+      ]);
+    });
+  });
+
+  describe("Taproot tweak", () => {
+    it("should match the output key bitcoinjs derives for the internal key", () => {
+      const ctx = keyAgg(keySort([pubkeys[0], pubkeys[1], pubkeys[2]]));
+      const tweaked = applyTaprootTweak(ctx);
+      const p2tr = bitcoin.payments.p2tr({
+        internalPubkey: getXOnlyPublicKey(ctx),
+      });
+      expect(p2tr.pubkey!.equals(getXOnlyPublicKey(tweaked))).toBe(true);
+    });
+  });
+
+  describe("AdvancedMultisigWallet integration", () => {
+    it("should create a P2TR address for n-of-n wallets", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 2);
+      await wallet.generateWallet();
+
+      const addresses = wallet.getAddresses();
+      expect(addresses.p2tr).toMatch(/^tb1p/);
+
+      const ctx = keyAgg(keySort(wallet.getPublicKeys()));
+      const expected = bitcoin.payments.p2tr({
+        internalPubkey: getXOnlyPublicKey(ctx),
+        network: bitcoin.networks.testnet,
+      }).address;
+      expect(addresses.p2tr).toBe(expected);
+      expect(wallet.getMusigKeyAggContext().Q.equals(ctx.Q)).toBe(true);
+    });
+
+    it("should not create a P2TR address when m is below n", async () => {
+      const wallet = new AdvancedMultisigWallet(2, 3);
+      await wallet.generateWallet();
+
+      expect(wallet.getAddresses().p2tr).toBeUndefined();
+      expect(() => wallet.getMusigKeyAggContext()).toThrow(
+        "MuSig2 key aggregation requires an n-of-n wallet"
+      );
+    });
+  });
+
+  describe("MuSig2 Signing", () => {
+    let privateKeys: Buffer[];
+    let publicKeys: Buffer[];
+    const message = Buffer.alloc(32, 0xab);
+
+    beforeEach(() => {
+      privateKeys = [0, 1, 2].map(() =>
+        Buffer.from(ECPair.makeRandom().privateKey!)
+      );
+      publicKeys = keySort(
+        privateKeys.map((sk) => Buffer.from(ecc.pointFromScalar(sk, true)!))
+      );
+    });
+
+    it("should aggregate public nonces (BIP327 nonce_agg_vectors)", () => {
+      const pubNonces = [
+        "020151C80F435648DF67A22B749CD798CE54E0321D034B92B709B567D60A42E66603BA47FBC1834437B3212E89A84D8425E7BF12E0245D98262268EBDCB385D50641",
+        "03FF406FFD8ADB9CD29877E4985014F66A59F6CD01C0E88CAA8E5F3166B1F676A60248C264CDD57D3C24D79990B0F865674EB62A0F9018277A95011B41BFC193B833",
+      ].map((hex) => Buffer.from(hex, "hex"));
+
+      expect(nonceAgg(pubNonces).toString("hex").toUpperCase()).toBe(
+        "035FE1873B4F2967F52FEA4A06AD5A8ECCBE9D0FD73068012C894E2E87CCB5804B024725377345BDE0E9C33AF3C43C0A29A9249F2F2956FA8CFEB55C8573D0262DC8"
+      );
+    });
+
+    it("should produce a valid Schnorr signature for the aggregate key", () => {
+      const session = new MusigSigningSession(publicKeys, message);
+      privateKeys.forEach((sk) => session.generateNonce(sk));
+      privateKeys.forEach((sk) => session.sign(sk));
+
+      const signature = session.aggregateSignatures();
+      const aggregateKey = getXOnlyPublicKey(session.getKeyAggContext());
+      expect(ecc.verifySchnorr(message, aggregateKey, signature)).toBe(true);
+    });
+
+    it("should support exchanging serialized sessions between signers", () => {
+      // Each cosigner holds its own copy of the session
+      const sessions = privateKeys.map(
+        () => new MusigSigningSession(publicKeys, message)
+      );
+      sessions.forEach((session, i) => session.generateNonce(privateKeys[i]));
+
+      // Round 1: everyone merges everyone else's nonces
+      const round1 = sessions.map((session) => session.serialize());
+      sessions.forEach((session) =>
+        round1.forEach((data) => session.merge(data))
+      );
+
+      // Round 2: partial signatures are collected by a coordinator
+      sessions.forEach((session, i) => session.sign(privateKeys[i]));
+      const coordinator = MusigSigningSession.deserialize(round1[0]);
+      sessions.forEach((session) => coordinator.merge(session.serialize()));
+
+      const signature = coordinator.aggregateSignatures();
+      const aggregateKey = getXOnlyPublicKey(coordinator.getKeyAggContext());
+      expect(ecc.verifySchnorr(message, aggregateKey, signature)).toBe(true);
+    });
+
+    it("should refuse to reuse a nonce", () => {
+      const session = new MusigSigningSession(publicKeys, message);
+      privateKeys.forEach((sk) => session.generateNonce(sk));
+      session.sign(privateKeys[0]);
+
+      expect(() => session.sign(privateKeys[0])).toThrow(
+        "Secret nonce has already been used or is invalid"
+      );
+      expect(() => session.generateNonce(privateKeys[0])).toThrow(
+        "A nonce has already been generated for this signer"
+      );
+    });
+
+    it("should keep the nonce when signing before all nonces are in", () => {
+      const session = new MusigSigningSession(publicKeys, message);
+      session.generateNonce(privateKeys[0]);
+      expect(() => session.sign(privateKeys[0])).toThrow(
+        "Missing public nonces"
+      );
+
+      privateKeys.slice(1).forEach((sk) => session.generateNonce(sk));
+      privateKeys.forEach((sk) => session.sign(sk));
+      const signature = session.aggregateSignatures();
+      const aggregateKey = getXOnlyPublicKey(session.getKeyAggContext());
+      expect(ecc.verifySchnorr(message, aggregateKey, signature)).toBe(true);
+    });
+
+    it("should reject invalid partial signatures", () => {
+      const session = new MusigSigningSession(publicKeys, message);
+      privateKeys.forEach((sk) => session.generateNonce(sk));
+
+      const other = MusigSigningSession.deserialize(session.serialize());
+      expect(() =>
+        other.addPartialSignature(publicKeys[0], Buffer.alloc(32, 1))
+      ).toThrow("Invalid partial signature");
+    });
+
+    it("should reject sessions for a different message", () => {
+      const session = new MusigSigningSession(publicKeys, message);
+      const other = new MusigSigningSession(publicKeys, Buffer.alloc(32, 1));
+      expect(() => session.merge(other.serialize())).toThrow(
+        "Cannot merge a different MuSig2 session"
+      );
+    });
+
+    it("should reject signers outside the session", () => {
+      const session = new MusigSigningSession(publicKeys, message);
+      const outsider = Buffer.from(ECPair.makeRandom().privateKey!);
+      expect(() => session.generateNonce(outsider)).toThrow(
+        "Signer is not part of the MuSig2 session"
+      );
+    });
+  });
+
+  describe("Taproot key-path PSBT signing", () => {
+    it("should sign and finalize a MuSig2 key-path input", async () => {
+      const wallet = new AdvancedMultisigWallet(3, 3);
+      await wallet.generateWallet();
+
+      const internalKey = getXOnlyPublicKey(wallet.getMusigKeyAggContext());
+      const p2tr = bitcoin.payments.p2tr({
+        internalPubkey: internalKey,
+        network: bitcoin.networks.testnet,
+      });
+
+      const psbt = new bitcoin.Psbt({ network: bitcoin.networks.testnet });
+      psbt.addInput({
+        hash: "1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
+        index: 0,
+        witnessUtxo: { script: p2tr.output!, value: 100000 },
+        tapInternalKey: internalKey,
+      });
+      psbt.addOutput({
+        address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+        value: 99000,
+      });
+
+      const session = wallet.createMusigSession(psbt, 0);
+      [0, 1, 2].forEach((i) => wallet.generateMusigNonce(session, i));
+      [0, 1, 2].forEach((i) => wallet.signMusigSession(session, i));
+
+      finalizeTaprootSigningSession(psbt, 0, session);
+      const tx = psbt.extractTransaction();
+      expect(tx.ins[0].witness).toHaveLength(1);
+      expect(tx.ins[0].witness[0]).toHaveLength(64);
+    });
+  });
+});
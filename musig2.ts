@@ -0,0 +1,934 @@
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+import { randomBytes } from "crypto";
+
+// MuSig2 (BIP327) primitives built on top of tiny-secp256k1.
+// Scalars are handled as bigints modulo the curve order, points as
+// 33-byte compressed buffers (the "plain" public key format of BIP327).
+
+const CURVE_ORDER = BigInt(
+  "0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141"
+);
+const GENERATOR = Buffer.from(
+  "0279BE667EF9DCBBAC55A06295CE870B07029BFCDB2DCE28D959F2815B16F81798",
+  "hex"
+);
+
+/**
+ * Key aggregation context as defined in BIP327
+ * @property publicKeys - Individual public keys in aggregation order
+ * @property Q - Aggregate (and possibly tweaked) point, compressed
+ * @property gacc - Accumulated sign flips from x-only tweaking
+ * @property tacc - Accumulated tweak
+ */
+export interface KeyAggContext {
+  publicKeys: Buffer[];
+  Q: Buffer;
+  gacc: bigint;
+  tacc: bigint;
+}
+
+/**
+ * Computes a BIP340 style tagged hash for an arbitrary tag
+ * @param tag - Hash tag
+ * @param data - Message to hash
+ */
+export function taggedHash(tag: string, data: Buffer): Buffer {
+  const tagHash = bitcoin.crypto.sha256(Buffer.from(tag, "utf8"));
+  return bitcoin.crypto.sha256(Buffer.concat([tagHash, tagHash, data]));
+}
+
+export function mod(a: bigint): bigint {
+  const r = a % CURVE_ORDER;
+  return r >= BigInt(0) ? r : r + CURVE_ORDER;
+}
+
+export function bytesToBigInt(bytes: Buffer): bigint {
+  return BigInt("0x" + (bytes.length ? bytes.toString("hex") : "0"));
+}
+
+export function bigIntToBytes(value: bigint): Buffer {
+  return Buffer.from(value.toString(16).padStart(64, "0"), "hex");
+}
+
+export function hasEvenY(point: Buffer): boolean {
+  return point[0] === 0x02;
+}
+
+export function xOnly(point: Buffer): Buffer {
+  return point.subarray(1, 33);
+}
+
+/**
+ * Multiplies a point by a scalar, returning null for the point at infinity
+ */
+export function pointMul(point: Buffer, scalar: bigint): Buffer | null {
+  const s = mod(scalar);
+  if (s === BigInt(0)) return null;
+  const result = ecc.pointMultiply(point, bigIntToBytes(s), true);
+  return result ? Buffer.from(result) : null;
+}
+
+/**
+ * Adds two (possibly infinite) points
+ */
+export function pointAdd(a: Buffer | null, b: Buffer | null): Buffer | null {
+  if (!a) return b;
+  if (!b) return a;
+  const result = ecc.pointAdd(a, b, true);
+  return result ? Buffer.from(result) : null;
+}
+
+/**
+ * Sorts public keys lexicographically (BIP327 KeySort)
+ * @param publicKeys - Compressed public keys
+ * @returns A new, sorted array
+ */
+export function keySort(publicKeys: Buffer[]): Buffer[] {
+  return [...publicKeys].sort((a, b) => a.compare(b));
+}
+
+function hashKeys(publicKeys: Buffer[]): Buffer {
+  return taggedHash("KeyAgg list", Buffer.concat(publicKeys));
+}
+
+function getSecondKey(publicKeys: Buffer[]): Buffer {
+  for (const pk of publicKeys) {
+    if (!pk.equals(publicKeys[0])) {
+      return pk;
+    }
+  }
+  return Buffer.alloc(33);
+}
+
+function keyAggCoeffInternal(
+  publicKeys: Buffer[],
+  publicKey: Buffer,
+  secondKey: Buffer
+): bigint {
+  if (publicKey.equals(secondKey)) {
+    return BigInt(1);
+  }
+  const L = hashKeys(publicKeys);
+  return mod(
+    bytesToBigInt(
+      taggedHash("KeyAgg coefficient", Buffer.concat([L, publicKey]))
+    )
+  );
+}
+
+/**
+ * Computes the key aggregation coefficient of a public key (BIP327 KeyAggCoeff)
+ * @param publicKeys - All public keys in aggregation order
+ * @param publicKey - Public key whose coefficient is requested
+ */
+export function keyAggCoeff(publicKeys: Buffer[], publicKey: Buffer): bigint {
+  return keyAggCoeffInternal(publicKeys, publicKey, getSecondKey(publicKeys));
+}
+
+/**
+ * Aggregates public keys into a single MuSig2 key (BIP327 KeyAgg)
+ * Keys are aggregated in the given order, call keySort() first for
+ * an order independent result.
+ * @param publicKeys - Compressed public keys
+ * @returns Key aggregation context
+ */
+export function keyAgg(publicKeys: Buffer[]): KeyAggContext {
+  if (publicKeys.length === 0) {
+    throw new Error("At least one public key is required");
+  }
+  publicKeys.forEach((pk, index) => {
+    if (pk.length !== 33 || !ecc.isPoint(pk)) {
+      throw new Error(`Invalid public key at index ${index}`);
+    }
+  });
+
+  const secondKey = getSecondKey(publicKeys);
+  let Q: Buffer | null = null;
+  for (const pk of publicKeys) {
+    const coefficient = keyAggCoeffInternal(publicKeys, pk, secondKey);
+    Q = pointAdd(Q, pointMul(pk, coefficient));
+  }
+
+  if (!Q) {
+    throw new Error("Aggregate public key is the point at infinity");
+  }
+
+  return {
+    publicKeys: [...publicKeys],
+    Q,
+    gacc: BigInt(1),
+    tacc: BigInt(0),
+  };
+}
+
+/**
+ * Applies a plain or x-only tweak to a key aggregation context (BIP327 ApplyTweak)
+ * @param ctx - Key aggregation context
+ * @param tweak - 32-byte tweak
+ * @param isXOnly - Whether this is an x-only (Taproot) tweak
+ * @returns New key aggregation context
+ */
+export function applyTweak(
+  ctx: KeyAggContext,
+  tweak: Buffer,
+  isXOnly: boolean
+): KeyAggContext {
+  if (tweak.length !== 32) {
+    throw new Error("Tweak must be 32 bytes");
+  }
+  const g = isXOnly && !hasEvenY(ctx.Q) ? CURVE_ORDER - BigInt(1) : BigInt(1);
+  const t = bytesToBigInt(tweak);
+  if (t >= CURVE_ORDER) {
+    throw new Error("Tweak exceeds curve order");
+  }
+
+  const Q = pointAdd(pointMul(ctx.Q, g), pointMul(GENERATOR, t));
+  if (!Q) {
+    throw new Error("Tweaked public key is the point at infinity");
+  }
+
+  return {
+    publicKeys: ctx.publicKeys,
+    Q,
+    gacc: mod(g * ctx.gacc),
+    tacc: mod(t + g * ctx.tacc),
+  };
+}
+
+/**
+ * Applies the BIP341 key-path tweak for an output without a script tree
+ * (or with the given merkle root)
+ * @param ctx - Untweaked key aggregation context
+ * @param merkleRoot - Optional script tree merkle root
+ */
+export function applyTaprootTweak(
+  ctx: KeyAggContext,
+  merkleRoot?: Buffer
+): KeyAggContext {
+  return applyTweak(ctx, getTapTweak(ctx, merkleRoot), true);
+}
+
+function getTapTweak(ctx: KeyAggContext, merkleRoot?: Buffer): Buffer {
+  return taggedHash(
+    "TapTweak",
+    merkleRoot ? Buffer.concat([xOnly(ctx.Q), merkleRoot]) : xOnly(ctx.Q)
+  );
+}
+
+/**
+ * Returns the 32-byte x-only aggregate public key
+ */
+export function getXOnlyPublicKey(ctx: KeyAggContext): Buffer {
+  return Buffer.from(xOnly(ctx.Q));
+}
+
+/**
+ * Negates a compressed point by flipping its y parity
+ */
+function pointNegate(point: Buffer): Buffer {
+  const negated = Buffer.from(point);
+  negated[0] = point[0] === 0x02 ? 0x03 : 0x02;
+  return negated;
+}
+
+function pointFromBytesExt(bytes: Buffer): Buffer | null {
+  if (bytes.equals(Buffer.alloc(33))) {
+    return null;
+  }
+  if (!ecc.isPoint(bytes)) {
+    throw new Error("Invalid nonce point");
+  }
+  return bytes;
+}
+
+function pointToBytesExt(point: Buffer | null): Buffer {
+  return point ? point : Buffer.alloc(33);
+}
+
+/**
+ * A freshly generated MuSig2 nonce pair
+ * @property secNonce - 97-byte secret nonce (k1 || k2 || pk), never share
+ * @property pubNonce - 66-byte public nonce sent to the other signers
+ */
+export interface MusigNonce {
+  secNonce: Buffer;
+  pubNonce: Buffer;
+}
+
+/**
+ * Tweak applied on top of the aggregate key
+ * @property tweak - 32-byte tweak
+ * @property isXOnly - Whether the tweak is an x-only (Taproot) tweak
+ */
+export interface MusigTweak {
+  tweak: Buffer;
+  isXOnly: boolean;
+}
+
+/**
+ * Generates a signer's nonce pair (BIP327 NonceGen)
+ * @param publicKey - Signer's compressed public key
+ * @param options - Optional values mixed into the nonce derivation
+ */
+export function nonceGen(
+  publicKey: Buffer,
+  options: {
+    privateKey?: Buffer;
+    aggregatePublicKey?: Buffer;
+    message?: Buffer;
+    extraInput?: Buffer;
+  } = {}
+): MusigNonce {
+  let rand = randomBytes(32);
+  if (options.privateKey) {
+    const aux = taggedHash("MuSig/aux", rand);
+    rand = Buffer.from(options.privateKey.map((byte, i) => byte ^ aux[i]));
+  }
+
+  const aggpk = options.aggregatePublicKey || Buffer.alloc(0);
+  let messagePrefixed = Buffer.from([0]);
+  if (options.message) {
+    const length = Buffer.alloc(8);
+    length.writeBigUInt64BE(BigInt(options.message.length));
+    messagePrefixed = Buffer.concat([
+      Buffer.from([1]),
+      length,
+      options.message,
+    ]);
+  }
+  const extraInput = options.extraInput || Buffer.alloc(0);
+  const extraLength = Buffer.alloc(4);
+  extraLength.writeUInt32BE(extraInput.length);
+
+  const k = [0, 1].map((i) =>
+    mod(
+      bytesToBigInt(
+        taggedHash(
+          "MuSig/nonce",
+          Buffer.concat([
+            rand,
+            Buffer.from([publicKey.length]),
+            publicKey,
+            Buffer.from([aggpk.length]),
+            aggpk,
+            messagePrefixed,
+            extraLength,
+            extraInput,
+            Buffer.from([i]),
+          ])
+        )
+      )
+    )
+  );
+
+  const R1 = pointMul(GENERATOR, k[0]);
+  const R2 = pointMul(GENERATOR, k[1]);
+  if (!R1 || !R2) {
+    throw new Error("Nonce generation failed");
+  }
+
+  return {
+    secNonce: Buffer.concat([
+      bigIntToBytes(k[0]),
+      bigIntToBytes(k[1]),
+      publicKey,
+    ]),
+    pubNonce: Buffer.concat([R1, R2]),
+  };
+}
+
+/**
+ * Aggregates the public nonces of all signers (BIP327 NonceAgg)
+ * @param pubNonces - 66-byte public nonces
+ * @returns 66-byte aggregate nonce
+ */
+export function nonceAgg(pubNonces: Buffer[]): Buffer {
+  const parts = [0, 1].map((j) => {
+    let R: Buffer | null = null;
+    pubNonces.forEach((pubNonce, index) => {
+      const point = pubNonce.subarray(j * 33, (j + 1) * 33);
+      if (pubNonce.length !== 66 || !ecc.isPoint(point)) {
+        throw new Error(`Invalid public nonce at index ${index}`);
+      }
+      R = pointAdd(R, Buffer.from(point));
+    });
+    return pointToBytesExt(R);
+  });
+  return Buffer.concat(parts);
+}
+
+/**
+ * Values shared by every signer of a session (BIP327 GetSessionValues)
+ */
+interface SessionValues {
+  keyAggCtx: KeyAggContext;
+  b: bigint;
+  R: Buffer;
+  e: bigint;
+}
+
+function getSessionValues(
+  aggNonce: Buffer,
+  publicKeys: Buffer[],
+  tweaks: MusigTweak[],
+  message: Buffer
+): SessionValues {
+  let keyAggCtx = keyAgg(publicKeys);
+  for (const { tweak, isXOnly } of tweaks) {
+    keyAggCtx = applyTweak(keyAggCtx, tweak, isXOnly);
+  }
+
+  const b = mod(
+    bytesToBigInt(
+      taggedHash(
+        "MuSig/noncecoef",
+        Buffer.concat([aggNonce, xOnly(keyAggCtx.Q), message])
+      )
+    )
+  );
+  const R1 = pointFromBytesExt(aggNonce.subarray(0, 33));
+  const R2 = pointFromBytesExt(aggNonce.subarray(33, 66));
+  const R = pointAdd(R1, R2 ? pointMul(R2, b) : null) || GENERATOR;
+  const e = mod(
+    bytesToBigInt(
+      taggedHash(
+        "BIP0340/challenge",
+        Buffer.concat([xOnly(R), xOnly(keyAggCtx.Q), message])
+      )
+    )
+  );
+
+  return { keyAggCtx, b, R, e };
+}
+
+function getSessionKeyAggCoeff(
+  publicKeys: Buffer[],
+  publicKey: Buffer
+): bigint {
+  if (!publicKeys.some((pk) => pk.equals(publicKey))) {
+    throw new Error("Signer is not part of the MuSig2 session");
+  }
+  return keyAggCoeff(publicKeys, publicKey);
+}
+
+/**
+ * Creates a partial signature (BIP327 Sign)
+ * The secret nonce buffer is zeroed so it can never be used twice.
+ * @param secNonce - 97-byte secret nonce from nonceGen()
+ * @param privateKey - Signer's private key
+ * @param aggNonce - Aggregate nonce of the session
+ * @param publicKeys - Public keys in aggregation order
+ * @param tweaks - Tweaks applied to the aggregate key
+ * @param message - Message being signed
+ * @returns 32-byte partial signature
+ */
+export function partialSign(
+  secNonce: Buffer,
+  privateKey: Buffer,
+  aggNonce: Buffer,
+  publicKeys: Buffer[],
+  tweaks: MusigTweak[],
+  message: Buffer
+): Buffer {
+  const { keyAggCtx, b, R, e } = getSessionValues(
+    aggNonce,
+    publicKeys,
+    tweaks,
+    message
+  );
+
+  const k1Prime = bytesToBigInt(secNonce.subarray(0, 32));
+  const k2Prime = bytesToBigInt(secNonce.subarray(32, 64));
+  const noncePublicKey = Buffer.from(secNonce.subarray(64, 97));
+  // Wipe the secret nonce before doing anything else with it
+  secNonce.fill(0);
+  if (
+    k1Prime === BigInt(0) ||
+    k2Prime === BigInt(0) ||
+    k1Prime >= CURVE_ORDER ||
+    k2Prime >= CURVE_ORDER
+  ) {
+    throw new Error("Secret nonce has already been used or is invalid");
+  }
+  const k1 = hasEvenY(R) ? k1Prime : CURVE_ORDER - k1Prime;
+  const k2 = hasEvenY(R) ? k2Prime : CURVE_ORDER - k2Prime;
+
+  const dPrime = bytesToBigInt(privateKey);
+  if (dPrime === BigInt(0) || dPrime >= CURVE_ORDER) {
+    throw new Error("Invalid private key");
+  }
+  const P = pointMul(GENERATOR, dPrime)!;
+  if (!P.equals(noncePublicKey)) {
+    throw new Error("Secret nonce does not belong to this private key");
+  }
+
+  const a = getSessionKeyAggCoeff(publicKeys, P);
+  const g = hasEvenY(keyAggCtx.Q) ? BigInt(1) : CURVE_ORDER - BigInt(1);
+  const d = mod(g * keyAggCtx.gacc * dPrime);
+  const s = mod(k1 + b * k2 + e * a * d);
+
+  const partialSignature = bigIntToBytes(s);
+  if (
+    !partialSigVerify(
+      partialSignature,
+      Buffer.concat([
+        pointMul(GENERATOR, k1Prime)!,
+        pointMul(GENERATOR, k2Prime)!,
+      ]),
+      P,
+      aggNonce,
+      publicKeys,
+      tweaks,
+      message
+    )
+  ) {
+    throw new Error("Created partial signature failed verification");
+  }
+  return partialSignature;
+}
+
+/**
+ * Verifies a partial signature against the signer's public nonce
+ * (BIP327 PartialSigVerify)
+ */
+export function partialSigVerify(
+  partialSignature: Buffer,
+  pubNonce: Buffer,
+  publicKey: Buffer,
+  aggNonce: Buffer,
+  publicKeys: Buffer[],
+  tweaks: MusigTweak[],
+  message: Buffer
+): boolean {
+  try {
+    const { keyAggCtx, b, R, e } = getSessionValues(
+      aggNonce,
+      publicKeys,
+      tweaks,
+      message
+    );
+    const s = bytesToBigInt(partialSignature);
+    if (partialSignature.length !== 32 || s >= CURVE_ORDER) {
+      return false;
+    }
+
+    const R1 = Buffer.from(pubNonce.subarray(0, 33));
+    const R2 = Buffer.from(pubNonce.subarray(33, 66));
+    const ReStar = pointAdd(R1, pointMul(R2, b));
+    if (!ReStar) {
+      return false;
+    }
+    const Re = hasEvenY(R) ? ReStar : pointNegate(ReStar);
+
+    const a = getSessionKeyAggCoeff(publicKeys, publicKey);
+    const g = hasEvenY(keyAggCtx.Q) ? BigInt(1) : CURVE_ORDER - BigInt(1);
+    const gPrime = mod(g * keyAggCtx.gacc);
+
+    const lhs = pointMul(GENERATOR, s);
+    const rhs = pointAdd(Re, pointMul(publicKey, mod(e * a * gPrime)));
+    return !!lhs && !!rhs && lhs.equals(rhs);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Aggregates partial signatures into a BIP340 Schnorr signature
+ * (BIP327 PartialSigAgg)
+ * @returns 64-byte Schnorr signature valid for the tweaked aggregate key
+ */
+export function partialSigAgg(
+  partialSignatures: Buffer[],
+  aggNonce: Buffer,
+  publicKeys: Buffer[],
+  tweaks: MusigTweak[],
+  message: Buffer
+): Buffer {
+  const { keyAggCtx, R, e } = getSessionValues(
+    aggNonce,
+    publicKeys,
+    tweaks,
+    message
+  );
+
+  let s = BigInt(0);
+  partialSignatures.forEach((partialSignature, index) => {
+    const si = bytesToBigInt(partialSignature);
+    if (si >= CURVE_ORDER) {
+      throw new Error(`Invalid partial signature at index ${index}`);
+    }
+    s = mod(s + si);
+  });
+  const g = hasEvenY(keyAggCtx.Q) ? BigInt(1) : CURVE_ORDER - BigInt(1);
+  s = mod(s + e * g * keyAggCtx.tacc);
+
+  return Buffer.concat([xOnly(R), bigIntToBytes(s)]);
+}
+
+/**
+ * Serialized form of a MuSig2 signing session
+ * All values are hex encoded; secret nonces are never serialized.
+ */
+export interface MusigSessionData {
+  publicKeys: string[];
+  tweaks: { tweak: string; isXOnly: boolean }[];
+  message: string;
+  pubNonces: { [publicKey: string]: string };
+  partialSignatures: { [publicKey: string]: string };
+}
+
+/**
+ * Two-round MuSig2 signing session
+ * Round 1: every signer calls generateNonce() and shares its public nonce.
+ * Round 2: once all nonces are known, every signer calls sign() and shares
+ * its partial signature, which anyone can then aggregate.
+ * The public state can be exported with serialize() and merged on another
+ * machine with merge(); secret nonces stay in the object that created them.
+ */
+export class MusigSigningSession {
+  private publicKeys: Buffer[];
+  private tweaks: MusigTweak[];
+  private message: Buffer;
+  private pubNonces: Map<string, Buffer>;
+  private partialSignatures: Map<string, Buffer>;
+  private secNonces: Map<string, Buffer>; // Local secret nonces, never exported
+
+  /**
+   * Creates a new signing session
+   * @param publicKeys - Public keys in aggregation order
+   * @param message - Message to sign (e.g. a BIP341 sighash)
+   * @param tweaks - Tweaks applied to the aggregate key
+   */
+  constructor(
+    publicKeys: Buffer[],
+    message: Buffer,
+    tweaks: MusigTweak[] = []
+  ) {
+    this.publicKeys = [...publicKeys];
+    this.tweaks = [...tweaks];
+    this.message = message;
+    this.pubNonces = new Map<string, Buffer>();
+    this.partialSignatures = new Map<string, Buffer>();
+    this.secNonces = new Map<string, Buffer>();
+
+    // Validates the keys and tweaks
+    this.getKeyAggContext();
+  }
+
+  /**
+   * Restores a session from its serialized public state
+   */
+  public static deserialize(
+    data: string | MusigSessionData
+  ): MusigSigningSession {
+    const parsed: MusigSessionData =
+      typeof data === "string" ? JSON.parse(data) : data;
+    const session = new MusigSigningSession(
+      parsed.publicKeys.map((pk) => Buffer.from(pk, "hex")),
+      Buffer.from(parsed.message, "hex"),
+      parsed.tweaks.map((t) => ({
+        tweak: Buffer.from(t.tweak, "hex"),
+        isXOnly: t.isXOnly,
+      }))
+    );
+    session.merge(parsed);
+    return session;
+  }
+
+  public serialize(): string {
+    return JSON.stringify(this.toData());
+  }
+
+  public toData(): MusigSessionData {
+    const toHexMap = (map: Map<string, Buffer>) =>
+      Object.fromEntries(
+        Array.from(map.entries()).map(([k, v]) => [k, v.toString("hex")])
+      );
+    return {
+      publicKeys: this.publicKeys.map((pk) => pk.toString("hex")),
+      tweaks: this.tweaks.map((t) => ({
+        tweak: t.tweak.toString("hex"),
+        isXOnly: t.isXOnly,
+      })),
+      message: this.message.toString("hex"),
+      pubNonces: toHexMap(this.pubNonces),
+      partialSignatures: toHexMap(this.partialSignatures),
+    };
+  }
+
+  /**
+   * Merges nonces and partial signatures from another copy of this session
+   * @param data - Serialized session from another signer
+   */
+  public merge(data: string | MusigSessionData): void {
+    const other: MusigSessionData =
+      typeof data === "string" ? JSON.parse(data) : data;
+    const ours = this.toData();
+
+    if (
+      other.message !== ours.message ||
+      JSON.stringify(other.publicKeys) !== JSON.stringify(ours.publicKeys) ||
+      JSON.stringify(other.tweaks) !== JSON.stringify(ours.tweaks)
+    ) {
+      throw new Error("Cannot merge a different MuSig2 session");
+    }
+
+    Object.entries(other.pubNonces).forEach(([pk, nonce]) => {
+      this.addPubNonce(Buffer.from(pk, "hex"), Buffer.from(nonce, "hex"));
+    });
+    Object.entries(other.partialSignatures).forEach(([pk, sig]) => {
+      this.addPartialSignature(Buffer.from(pk, "hex"), Buffer.from(sig, "hex"));
+    });
+  }
+
+  public getKeyAggContext(): KeyAggContext {
+    let ctx = keyAgg(this.publicKeys);
+    for (const { tweak, isXOnly } of this.tweaks) {
+      ctx = applyTweak(ctx, tweak, isXOnly);
+    }
+    return ctx;
+  }
+
+  public getMessage(): Buffer {
+    return this.message;
+  }
+
+  /**
+   * Round 1: generates and records a nonce for the given signer
+   * @param privateKey - Signer's private key
+   * @returns 66-byte public nonce to share with the other signers
+   */
+  public generateNonce(privateKey: Buffer): Buffer {
+    const publicKey = Buffer.from(ecc.pointFromScalar(privateKey, true)!);
+    const pkHex = this.requireSigner(publicKey);
+
+    if (this.pubNonces.has(pkHex) || this.secNonces.has(pkHex)) {
+      throw new Error("A nonce has already been generated for this signer");
+    }
+
+    const { secNonce, pubNonce } = nonceGen(publicKey, {
+      privateKey,
+      aggregatePublicKey: getXOnlyPublicKey(this.getKeyAggContext()),
+      message: this.message,
+    });
+    this.secNonces.set(pkHex, secNonce);
+    this.pubNonces.set(pkHex, pubNonce);
+    return pubNonce;
+  }
+
+  /**
+   * Records another signer's public nonce
+   */
+  public addPubNonce(publicKey: Buffer, pubNonce: Buffer): void {
+    const pkHex = this.requireSigner(publicKey);
+    const existing = this.pubNonces.get(pkHex);
+    if (existing) {
+      if (!existing.equals(pubNonce)) {
+        throw new Error("Conflicting public nonce for signer");
+      }
+      return;
+    }
+    // Validates the encoding
+    nonceAgg([pubNonce]);
+    this.pubNonces.set(pkHex, pubNonce);
+  }
+
+  public hasAllNonces(): boolean {
+    return this.publicKeys.every((pk) =>
+      this.pubNonces.has(pk.toString("hex"))
+    );
+  }
+
+  public getAggregateNonce(): Buffer {
+    if (!this.hasAllNonces()) {
+      throw new Error("Missing public nonces");
+    }
+    return nonceAgg(
+      this.publicKeys.map((pk) => this.pubNonces.get(pk.toString("hex"))!)
+    );
+  }
+
+  /**
+   * Round 2: creates the signer's partial signature
+   * The local secret nonce is consumed and cannot be used again.
+   * @param privateKey - Signer's private key
+   * @returns 32-byte partial signature to share with the other signers
+   */
+  public sign(privateKey: Buffer): Buffer {
+    const publicKey = Buffer.from(ecc.pointFromScalar(privateKey, true)!);
+    const pkHex = this.requireSigner(publicKey);
+
+    const secNonce = this.secNonces.get(pkHex);
+    if (!secNonce) {
+      throw new Error(
+        this.partialSignatures.has(pkHex)
+          ? "Secret nonce has already been used or is invalid"
+          : "No secret nonce for this signer. Call generateNonce() first."
+      );
+    }
+    // Check for the other nonces before the secret nonce is consumed
+    const aggregateNonce = this.getAggregateNonce();
+    // Remove the nonce first so a failure can't leave it reusable
+    this.secNonces.delete(pkHex);
+
+    const partialSignature = partialSign(
+      secNonce,
+      privateKey,
+      aggregateNonce,
+      this.publicKeys,
+      this.tweaks,
+      this.message
+    );
+    this.partialSignatures.set(pkHex, partialSignature);
+    return partialSignature;
+  }
+
+  /**
+   * Records and verifies another signer's partial signature
+   */
+  public addPartialSignature(
+    publicKey: Buffer,
+    partialSignature: Buffer
+  ): void {
+    const pkHex = this.requireSigner(publicKey);
+    const existing = this.partialSignatures.get(pkHex);
+    if (existing) {
+      if (!existing.equals(partialSignature)) {
+        throw new Error("Conflicting partial signature for signer");
+      }
+      return;
+    }
+
+    const pubNonce = this.pubNonces.get(pkHex);
+    if (
+      !pubNonce ||
+      !partialSigVerify(
+        partialSignature,
+        pubNonce,
+        publicKey,
+        this.getAggregateNonce(),
+        this.publicKeys,
+        this.tweaks,
+        this.message
+      )
+    ) {
+      throw new Error("Invalid partial signature");
+    }
+    this.partialSignatures.set(pkHex, partialSignature);
+  }
+
+  public hasAllPartialSignatures(): boolean {
+    return this.publicKeys.every((pk) =>
+      this.partialSignatures.has(pk.toString("hex"))
+    );
+  }
+
+  /**
+   * Aggregates all partial signatures into the final Schnorr signature
+   */
+  public aggregateSignatures(): Buffer {
+    if (!this.hasAllPartialSignatures()) {
+      throw new Error("Missing partial signatures");
+    }
+    return partialSigAgg(
+      this.publicKeys.map((pk) =>
+        this.partialSignatures.get(pk.toString("hex"))!
+      ),
+      this.getAggregateNonce(),
+      this.publicKeys,
+      this.tweaks,
+      this.message
+    );
+  }
+
+  private requireSigner(publicKey: Buffer): string {
+    if (!this.publicKeys.some((pk) => pk.equals(publicKey))) {
+      throw new Error("Signer is not part of the MuSig2 session");
+    }
+    return publicKey.toString("hex");
+  }
+}
+
+/**
+ * Computes the BIP341 key-path sighash (SIGHASH_DEFAULT) of a PSBT input
+ * Every input needs a witnessUtxo.
+ * @param psbt - Unsigned PSBT
+ * @param inputIndex - Taproot input to sign
+ */
+export function getTaprootKeyPathSighash(
+  psbt: bitcoin.Psbt,
+  inputIndex: number
+): Buffer {
+  const prevouts = psbt.data.inputs.map((input, index) => {
+    if (!input.witnessUtxo) {
+      throw new Error(`Input ${index} is missing witnessUtxo`);
+    }
+    return input.witnessUtxo;
+  });
+  const tx = bitcoin.Transaction.fromBuffer(psbt.data.getTransaction());
+  return tx.hashForWitnessV1(
+    inputIndex,
+    prevouts.map((p) => p.script),
+    prevouts.map((p) => p.value),
+    bitcoin.Transaction.SIGHASH_DEFAULT
+  );
+}
+
+/**
+ * Creates a signing session for a MuSig2 Taproot key-path PSBT input
+ * @param psbt - PSBT containing the input
+ * @param inputIndex - Index of the Taproot input
+ * @param publicKeys - Public keys in aggregation order
+ * @param merkleRoot - Script tree merkle root, if the output has one
+ */
+export function createTaprootSigningSession(
+  psbt: bitcoin.Psbt,
+  inputIndex: number,
+  publicKeys: Buffer[],
+  merkleRoot?: Buffer
+): MusigSigningSession {
+  const ctx = keyAgg(publicKeys);
+  const input = psbt.data.inputs[inputIndex];
+  if (!input) {
+    throw new Error(`Input ${inputIndex} does not exist`);
+  }
+  if (
+    input.tapInternalKey &&
+    !getXOnlyPublicKey(ctx).equals(input.tapInternalKey)
+  ) {
+    throw new Error("Input internal key does not match the aggregate key");
+  }
+
+  return new MusigSigningSession(
+    publicKeys,
+    getTaprootKeyPathSighash(psbt, inputIndex),
+    [{ tweak: getTapTweak(ctx, merkleRoot), isXOnly: true }]
+  );
+}
+
+/**
+ * Adds the aggregated signature of a completed session to a PSBT input
+ * and finalizes it
+ */
+export function finalizeTaprootSigningSession(
+  psbt: bitcoin.Psbt,
+  inputIndex: number,
+  session: MusigSigningSession
+): void {
+  const expected = getTaprootKeyPathSighash(psbt, inputIndex);
+  if (!expected.equals(session.getMessage())) {
+    throw new Error("Session message does not match the input sighash");
+  }
+
+  const signature = session.aggregateSignatures();
+  const outputKey = getXOnlyPublicKey(session.getKeyAggContext());
+  if (!ecc.verifySchnorr(expected, outputKey, signature)) {
+    throw new Error("Aggregated signature is invalid");
+  }
+
+  psbt.updateInput(inputIndex, { tapKeySig: signature });
+  psbt.finalizeInput(inputIndex);
+}
+
+export { CURVE_ORDER };
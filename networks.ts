@@ -0,0 +1,66 @@
+import * as bitcoin from "bitcoinjs-lib";
+
+// Named networks of the wallets. bitcoinjs-lib has no signet network:
+// signet shares testnet's address and key prefixes, so signet addresses and
+// testnet addresses can't be told apart.
+
+export const signet: bitcoin.Network = { ...bitcoin.networks.testnet };
+
+export const NETWORKS: Record<string, bitcoin.Network> = {
+  bitcoin: bitcoin.networks.bitcoin,
+  testnet: bitcoin.networks.testnet,
+  signet,
+  regtest: bitcoin.networks.regtest,
+};
+
+/**
+ * Name of a network, as used in wallet files
+ * @throws If the network is not one of NETWORKS
+ */
+export function getNetworkName(network: bitcoin.Network): string {
+  const name = Object.keys(NETWORKS).find((key) => NETWORKS[key] === network);
+  if (!name) {
+    throw new Error("Unsupported network");
+  }
+  return name;
+}
+
+/**
+ * Network by name
+ * @throws If the network name is unknown
+ */
+export function getNetworkByName(name: string): bitcoin.Network {
+  const network = NETWORKS[name];
+  if (!network) {
+    throw new Error(`Unsupported network: ${name}`);
+  }
+  return network;
+}
+
+/**
+ * Output script of an address on a network
+ * @throws If the address is invalid, or valid only on other networks
+ */
+export function toOutputScript(
+  address: string,
+  network: bitcoin.Network
+): Buffer {
+  try {
+    return bitcoin.address.toOutputScript(address, network);
+  } catch (error) {
+    const other = Object.keys(NETWORKS).find((name) => {
+      try {
+        bitcoin.address.toOutputScript(address, NETWORKS[name]);
+        return true;
+      } catch (error) {
+        return false;
+      }
+    });
+    if (other) {
+      throw new Error(
+        `Address ${address} is for ${other}, not the wallet's network`
+      );
+    }
+    throw new Error(`Invalid address: ${address}`);
+  }
+}
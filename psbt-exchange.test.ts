@@ -0,0 +1,193 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { ECPairFactory } from "ecpair";
+import * as tinysecp from "tiny-secp256k1";
+import { combinePsbts, exportPsbt, importPsbt } from "./psbt-exchange";
+import {
+  MultisigWallet,
+  UTXO,
+  createTestUtxo,
+  createTestWallet,
+} from "./intermediate-musig-solution";
+
+const ECPair = ECPairFactory(tinysecp);
+const network = bitcoin.networks.testnet;
+
+describe("PSBT Exchange", () => {
+  let wallet: MultisigWallet;
+  let keyPairs: any[];
+  const outputs = [
+    {
+      address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+      value: BigInt(50000),
+    },
+  ];
+  const utxo = (vout: number, address: string): UTXO =>
+    createTestUtxo(address, 60000, vout);
+  const createPsbt = () => {
+    const { p2wsh, p2tr } = wallet.getAddresses();
+    return wallet.createTransaction(
+      [utxo(0, p2wsh), utxo(1, p2tr)],
+      outputs,
+      1000
+    );
+  };
+
+  beforeEach(() => {
+    const testWallet = createTestWallet(2);
+    wallet = testWallet.wallet;
+    keyPairs = testWallet.keyPairs;
+  });
+
+  describe("Export and import", () => {
+    it("should round-trip base64 and hex PSBTs", () => {
+      const psbt = createPsbt();
+      wallet.signAllInputs(psbt, keyPairs[0]);
+
+      const base64 = wallet.exportPsbt(psbt);
+      const hex = wallet.exportPsbt(psbt, "hex");
+      expect(base64).toBe(psbt.toBase64());
+      expect(hex).toMatch(/^70736274ff[0-9a-f]+$/);
+
+      expect(wallet.importPsbt(base64).toHex()).toBe(hex);
+      expect(wallet.importPsbt(hex).toBase64()).toBe(base64);
+    });
+
+    it("should reject data that isn't a PSBT", () => {
+      expect(() => importPsbt("not a psbt", network)).toThrow("Invalid PSBT");
+      expect(() => importPsbt("70736274ff00", network)).toThrow("Invalid PSBT");
+    });
+  });
+
+  describe("Combining", () => {
+    it("should combine copies signed on separate machines", () => {
+      const exported = exportPsbt(createPsbt());
+
+      const copyA = wallet.importPsbt(exported);
+      const copyB = wallet.importPsbt(exported);
+      wallet.signAllInputs(copyA, keyPairs[0]);
+      wallet.signAllInputs(copyB, keyPairs[2]);
+      expect(wallet.verifyTransaction(copyA).valid).toBe(false);
+
+      const combined = wallet.combine([
+        wallet.exportPsbt(copyA),
+        wallet.exportPsbt(copyB, "hex"),
+      ]);
+      expect(combined.data.inputs[0].partialSig).toHaveLength(2);
+      expect(combined.data.inputs[1].tapScriptSig).toHaveLength(2);
+      expect(wallet.verifyTransaction(combined).valid).toBe(true);
+      expect(wallet.finalizeTransaction(combined)).toMatch(/^[0-9a-f]+$/);
+
+      // The given copies are left untouched
+      expect(copyA.data.inputs[0].partialSig).toHaveLength(1);
+    });
+
+    it("should accept copies carrying the same signature", () => {
+      const psbt = createPsbt();
+      wallet.signAllInputs(psbt, keyPairs[1]);
+
+      const combined = wallet.combine([psbt, psbt.clone()]);
+      expect(combined.data.inputs[0].partialSig).toHaveLength(1);
+    });
+
+    it("should reject PSBTs with different unsigned transactions", () => {
+      const psbt = createPsbt();
+      const other = wallet.createTransaction(
+        [utxo(2, wallet.getAddresses().p2wsh)],
+        outputs,
+        1000
+      );
+
+      expect(() => wallet.combine([psbt, other])).toThrow(
+        "PSBT 1 does not share the same unsigned transaction"
+      );
+    });
+
+    it("should reject conflicting signatures for the same key", () => {
+      const psbt = createPsbt();
+      const copy = psbt.clone();
+      wallet.signAllInputs(psbt, keyPairs[0]);
+      copy.data.inputs[0].partialSig = [
+        {
+          pubkey: Buffer.from(keyPairs[0].publicKey),
+          signature: Buffer.from(
+            psbt.data.inputs[0].partialSig![0].signature
+          ).fill(1, 10, 20),
+        },
+      ];
+
+      expect(() => combinePsbts([psbt, copy], network)).toThrow(
+        "Conflicting partialSig in input 0"
+      );
+    });
+
+    it("should reject conflicts between copies after the first", () => {
+      const unsigned = createPsbt();
+      const signed = unsigned.clone();
+      wallet.signAllInputs(signed, keyPairs[0]);
+      const forged = unsigned.clone();
+      forged.data.inputs[0].partialSig = [
+        {
+          pubkey: Buffer.from(keyPairs[0].publicKey),
+          signature: Buffer.from(
+            signed.data.inputs[0].partialSig![0].signature
+          ).fill(1, 10, 20),
+        },
+      ];
+
+      expect(() => wallet.combine([unsigned, signed, forged])).toThrow(
+        "Conflicting partialSig in input 0"
+      );
+    });
+
+    it("should reject conflicting scripts", () => {
+      const psbt = createPsbt();
+      const copy = psbt.clone();
+      copy.data.inputs[0].witnessScript = Buffer.from("51", "hex");
+
+      expect(() => wallet.combine([psbt, copy])).toThrow(
+        "Conflicting witnessScript in input 0"
+      );
+    });
+
+    it("should require at least one PSBT", () => {
+      expect(() => wallet.combine([])).toThrow("No PSBTs to combine");
+    });
+  });
+});
+
+// Keys signing outside the wallet still combine with wallet signatures
+describe("PSBT Exchange with external signers", () => {
+  it("should combine a signature made directly with bitcoinjs", () => {
+    const keyPairs = [0, 1, 2].map(() => ECPair.makeRandom({ network }));
+    const wallet = new MultisigWallet(
+      2,
+      keyPairs.map((kp) => Buffer.from(kp.publicKey))
+    );
+    const psbt = wallet.createTransaction(
+      [
+        {
+          txid: "ab".repeat(32),
+          vout: 0,
+          value: BigInt(60000),
+          scriptPubKey: bitcoin.address
+            .toOutputScript(wallet.getAddresses().p2wsh, network)
+            .toString("hex"),
+        },
+      ],
+      [
+        {
+          address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+          value: BigInt(50000),
+        },
+      ],
+      1000
+    );
+
+    const external = bitcoin.Psbt.fromBase64(psbt.toBase64(), { network });
+    external.signInput(0, keyPairs[1]);
+    wallet.signAllInputs(psbt, keyPairs[0]);
+
+    const combined = wallet.combine([psbt, external]);
+    expect(wallet.finalizeTransaction(combined)).toMatch(/^[0-9a-f]+$/);
+  });
+});
@@ -0,0 +1,162 @@
+import * as bitcoin from "bitcoinjs-lib";
+
+// BIP174 PSBT exchange between cosigners signing on separate machines:
+// base64/hex encoding and a combiner that refuses conflicting data.
+
+/**
+ * Encodings a PSBT can be exported in
+ */
+export type PsbtFormat = "base64" | "hex";
+
+// "psbt" followed by 0xff
+const PSBT_MAGIC_HEX = "70736274ff";
+
+// Map entries that may appear several times, keyed by these properties
+const KEYED_FIELDS: Record<string, string[]> = {
+  partialSig: ["pubkey"],
+  tapScriptSig: ["pubkey", "leafHash"],
+  bip32Derivation: ["pubkey"],
+  tapBip32Derivation: ["pubkey"],
+  tapLeafScript: ["controlBlock"],
+  globalXpub: ["extendedPubkey"],
+  unknownKeyVals: ["key"],
+};
+
+/**
+ * Serializes a PSBT for transport
+ * @param psbt - PSBT to export
+ * @param format - base64 (default) or hex
+ */
+export function exportPsbt(
+  psbt: bitcoin.Psbt,
+  format: PsbtFormat = "base64"
+): string {
+  return format === "hex" ? psbt.toHex() : psbt.toBase64();
+}
+
+/**
+ * Parses a base64 or hex encoded PSBT, detecting the encoding
+ * @param data - Encoded PSBT
+ * @param network - Network of the PSBT's addresses
+ */
+export function importPsbt(
+  data: string,
+  network: bitcoin.Network
+): bitcoin.Psbt {
+  const trimmed = data.trim();
+  const isHex =
+    /^[0-9a-fA-F]+$/.test(trimmed) &&
+    trimmed.toLowerCase().startsWith(PSBT_MAGIC_HEX);
+
+  try {
+    return isHex
+      ? bitcoin.Psbt.fromHex(trimmed, { network })
+      : bitcoin.Psbt.fromBase64(trimmed, { network });
+  } catch (error) {
+    throw new Error(
+      `Invalid PSBT: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Canonical string form of a PSBT field value. Signers may store byte
+ * fields as Uint8Array while parsed PSBTs hold Buffers, so bytes are
+ * compared by content.
+ */
+function serialize(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("hex");
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(serialize).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .map((key) => `${key}:${serialize(record[key])}`)
+      .join(",")}}`;
+  }
+  return String(value);
+}
+
+/**
+ * Throws if two PSBT maps (global, input or output) hold different values
+ * for the same key
+ */
+function checkConflicts(
+  selfMap: object,
+  otherMap: object,
+  location: string
+): void {
+  const self = selfMap as Record<string, unknown>;
+  const other = otherMap as Record<string, unknown>;
+  Object.keys(other).forEach((field) => {
+    if (self[field] === undefined || other[field] === undefined) {
+      return;
+    }
+
+    const keyFields = KEYED_FIELDS[field];
+    if (!keyFields) {
+      if (serialize(self[field]) !== serialize(other[field])) {
+        throw new Error(`Conflicting ${field} in ${location}`);
+      }
+      return;
+    }
+
+    const keyOf = (entry: Record<string, unknown>) =>
+      keyFields.map((key) => serialize(entry[key])).join(":");
+    (other[field] as Record<string, unknown>[]).forEach((entry) => {
+      const existing = (self[field] as Record<string, unknown>[]).find(
+        (e) => keyOf(e) === keyOf(entry)
+      );
+      if (existing && serialize(existing) !== serialize(entry)) {
+        throw new Error(`Conflicting ${field} in ${location}`);
+      }
+    });
+  });
+}
+
+/**
+ * Merges independently signed copies of a PSBT into a new PSBT. All copies
+ * must share the same unsigned transaction and must not disagree on any
+ * field two of them contain.
+ * @param psbts - Copies to combine
+ * @param network - Network of the PSBTs' addresses
+ */
+export function combinePsbts(
+  psbts: bitcoin.Psbt[],
+  network: bitcoin.Network
+): bitcoin.Psbt {
+  if (psbts.length === 0) {
+    throw new Error("No PSBTs to combine");
+  }
+
+  const [first, ...others] = psbts;
+  const unsignedTx = first.data.getTransaction();
+  others.forEach((other, i) => {
+    if (!other.data.getTransaction().equals(unsignedTx)) {
+      throw new Error(
+        `PSBT ${i + 1} does not share the same unsigned transaction`
+      );
+    }
+  });
+
+  // Combine into a copy so none of the given PSBTs is modified. Each copy is
+  // checked against everything merged so far, so two later copies can't
+  // conflict on a field the first one lacks.
+  const combined = bitcoin.Psbt.fromBuffer(first.toBuffer(), { network });
+  others.forEach((other) => {
+    const { data } = combined;
+    checkConflicts(data.globalMap, other.data.globalMap, "global map");
+    other.data.inputs.forEach((input, index) =>
+      checkConflicts(data.inputs[index], input, `input ${index}`)
+    );
+    other.data.outputs.forEach((output, index) =>
+      checkConflicts(data.outputs[index], output, `output ${index}`)
+    );
+    combined.combine(other);
+  });
+  return combined;
+}
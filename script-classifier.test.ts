@@ -0,0 +1,88 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { ECPairFactory } from "ecpair";
+import * as tinysecp from "tiny-secp256k1";
+import { classifyScript, decodeMultisigScript } from "./script-classifier";
+
+const ECPair = ECPairFactory(tinysecp);
+const ops = bitcoin.opcodes;
+
+describe("Script Classifier", () => {
+  const pubkeys = [0, 1, 2].map((i) =>
+    Buffer.from(ECPair.fromPrivateKey(Buffer.alloc(32, i + 1)).publicKey)
+  );
+  const hash20 = Buffer.alloc(20, 0xab);
+  const hash32 = Buffer.alloc(32, 0xcd);
+
+  it("should classify the standard output templates", () => {
+    const cases: [Buffer, string, Buffer][] = [
+      [bitcoin.payments.p2pkh({ hash: hash20 }).output!, "p2pkh", hash20],
+      [bitcoin.payments.p2sh({ hash: hash20 }).output!, "p2sh", hash20],
+      [bitcoin.payments.p2wpkh({ hash: hash20 }).output!, "p2wpkh", hash20],
+      [bitcoin.payments.p2wsh({ hash: hash32 }).output!, "p2wsh", hash32],
+      [bitcoin.script.compile([ops.OP_1, hash32]), "p2tr", hash32],
+    ];
+    cases.forEach(([script, type, hash]) => {
+      expect(classifyScript(script)).toEqual({ type, hash });
+    });
+  });
+
+  it("should decode OP_RETURN data and bare multisig", () => {
+    const data = Buffer.from("workshop");
+    expect(
+      classifyScript(bitcoin.payments.embed({ data: [data] }).output!)
+    ).toEqual({ type: "opReturn", data: [data] });
+    expect(
+      classifyScript(bitcoin.script.compile([ops.OP_RETURN, ops.OP_2]))
+    ).toEqual({ type: "opReturn", data: [Buffer.from([2])] });
+
+    const script = bitcoin.payments.p2ms({ m: 2, pubkeys }).output!;
+    expect(classifyScript(script)).toEqual({
+      type: "multisig",
+      multisig: { m: 2, pubkeys },
+    });
+  });
+
+  it("should treat near misses as nonstandard", () => {
+    const scripts = [
+      Buffer.alloc(0),
+      Buffer.from("deadbeef", "hex"),
+      // Witness program of the wrong length
+      bitcoin.script.compile([ops.OP_0, Buffer.alloc(24)]),
+      // P2SH with trailing bytes
+      Buffer.concat([
+        bitcoin.payments.p2sh({ hash: hash20 }).output!,
+        Buffer.from([ops.OP_NOP]),
+      ]),
+      // Non-push after OP_RETURN
+      bitcoin.script.compile([ops.OP_RETURN, ops.OP_CHECKSIG]),
+    ];
+    scripts.forEach((script) => {
+      expect(classifyScript(script).type).toBe("nonstandard");
+    });
+  });
+
+  it("should reject malformed multisig scripts", () => {
+    const multisig = (chunks: (number | Buffer)[]) =>
+      decodeMultisigScript(
+        bitcoin.script.compile([...chunks, ops.OP_CHECKMULTISIG])
+      );
+
+    expect(multisig([ops.OP_2, ...pubkeys, ops.OP_3])).toEqual({
+      m: 2,
+      pubkeys,
+    });
+    // Key count does not match n
+    expect(multisig([ops.OP_2, ...pubkeys, ops.OP_2])).toBeUndefined();
+    // Threshold above the key count
+    expect(multisig([ops.OP_3, ...pubkeys.slice(0, 2), ops.OP_2])).toBe(
+      undefined
+    );
+    // Not a public key
+    expect(multisig([ops.OP_1, hash32, ops.OP_1])).toBeUndefined();
+    expect(
+      decodeMultisigScript(
+        bitcoin.script.compile([ops.OP_1, pubkeys[0], ops.OP_1])
+      )
+    ).toBeUndefined();
+  });
+});
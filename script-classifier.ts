@@ -0,0 +1,163 @@
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+
+// scriptPubKey classification by exact template, following the types of
+// Bitcoin Core's Solver: a script is only given a type when it matches the
+// whole template, anything else is nonstandard.
+
+const ops = bitcoin.opcodes;
+const MAX_MULTISIG_KEYS = 20;
+
+/**
+ * Output script templates
+ */
+export type ScriptType =
+  | "p2pkh"
+  | "p2sh"
+  | "p2wpkh"
+  | "p2wsh"
+  | "p2tr"
+  | "opReturn"
+  | "multisig"
+  | "nonstandard";
+
+/**
+ * A decoded m-of-n OP_CHECKMULTISIG script
+ * @property m - Required signatures
+ * @property pubkeys - Public keys in script order (n)
+ */
+export interface MultisigScript {
+  m: number;
+  pubkeys: Buffer[];
+}
+
+/* The `ClassifiedScript` interface is a decoded scriptPubKey:
+    1. type: ScriptType - Template the script matches
+    2. hash: Buffer - Key or script hash of P2PKH, P2SH, P2WPKH and P2WSH,
+       or the output key of P2TR
+    3. data: Buffer[] - Pushes following OP_RETURN
+    4. multisig: MultisigScript - Threshold and keys of bare multisig
+*/
+export interface ClassifiedScript {
+  type: ScriptType;
+  hash?: Buffer;
+  data?: Buffer[];
+  multisig?: MultisigScript;
+}
+
+/**
+ * Value of a small integer opcode or minimally pushed script number
+ */
+function decodeNumber(chunk: number | Buffer): number | undefined {
+  if (typeof chunk === "number") {
+    return chunk >= ops.OP_1 && chunk <= ops.OP_16
+      ? chunk - ops.OP_1 + 1
+      : undefined;
+  }
+  try {
+    return bitcoin.script.number.decode(chunk);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Data of a push, with OP_0 and OP_1NEGATE to OP_16 as their values
+ */
+function decodePush(chunk: number | Buffer): Buffer | undefined {
+  if (Buffer.isBuffer(chunk)) {
+    return chunk;
+  }
+  if (chunk === ops.OP_0) {
+    return Buffer.alloc(0);
+  }
+  if (chunk === ops.OP_1NEGATE) {
+    return Buffer.from([0x81]);
+  }
+  const value = decodeNumber(chunk);
+  return value === undefined ? undefined : Buffer.from([value]);
+}
+
+/**
+ * Decodes an m <pubkeys> n OP_CHECKMULTISIG script, as found in bare
+ * multisig outputs and in P2SH and P2WSH multisig redeem scripts
+ * @returns Threshold and keys, or undefined if the script is not a valid
+ *   multisig script
+ */
+export function decodeMultisigScript(
+  script: Buffer
+): MultisigScript | undefined {
+  const chunks = bitcoin.script.decompile(script);
+  if (
+    !chunks ||
+    chunks.length < 4 ||
+    chunks[chunks.length - 1] !== ops.OP_CHECKMULTISIG
+  ) {
+    return undefined;
+  }
+  const m = decodeNumber(chunks[0]);
+  const n = decodeNumber(chunks[chunks.length - 2]);
+  const pubkeys = chunks.slice(1, -2);
+  if (
+    m === undefined ||
+    n === undefined ||
+    m < 1 ||
+    m > n ||
+    n > MAX_MULTISIG_KEYS ||
+    n !== pubkeys.length ||
+    !pubkeys.every((key) => Buffer.isBuffer(key) && ecc.isPoint(key))
+  ) {
+    return undefined;
+  }
+  return { m, pubkeys: pubkeys as Buffer[] };
+}
+
+/**
+ * Classifies a scriptPubKey by its template
+ */
+export function classifyScript(script: Buffer): ClassifiedScript {
+  const matches = (length: number, prefix: number[], suffix: number[] = []) =>
+    script.length === length &&
+    prefix.every((byte, i) => script[i] === byte) &&
+    suffix.every((byte, i) => script[length - suffix.length + i] === byte);
+
+  if (
+    matches(
+      25,
+      [ops.OP_DUP, ops.OP_HASH160, 20],
+      [ops.OP_EQUALVERIFY, ops.OP_CHECKSIG]
+    )
+  ) {
+    return { type: "p2pkh", hash: script.subarray(3, 23) };
+  }
+  if (matches(23, [ops.OP_HASH160, 20], [ops.OP_EQUAL])) {
+    return { type: "p2sh", hash: script.subarray(2, 22) };
+  }
+  if (matches(22, [ops.OP_0, 20])) {
+    return { type: "p2wpkh", hash: script.subarray(2) };
+  }
+  if (matches(34, [ops.OP_0, 32])) {
+    return { type: "p2wsh", hash: script.subarray(2) };
+  }
+  if (matches(34, [ops.OP_1, 32])) {
+    return { type: "p2tr", hash: script.subarray(2) };
+  }
+
+  if (script[0] === ops.OP_RETURN) {
+    // Only pushes may follow OP_RETURN
+    const chunks = bitcoin.script.decompile(script.subarray(1));
+    if (chunks && chunks.every((chunk) => decodePush(chunk) !== undefined)) {
+      return {
+        type: "opReturn",
+        data: chunks.map((chunk) => decodePush(chunk)!),
+      };
+    }
+    return { type: "nonstandard" };
+  }
+
+  const multisig = decodeMultisigScript(script);
+  if (multisig) {
+    return { type: "multisig", multisig };
+  }
+  return { type: "nonstandard" };
+}
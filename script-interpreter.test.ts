@@ -0,0 +1,275 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { ECPairInterface } from "ecpair";
+import { BrokenMultisigWallet } from "./broken-musig";
+import {
+  MultisigWallet,
+  UTXO,
+  createTestUtxo,
+  createTestWallet,
+} from "./intermediate-musig-solution";
+import {
+  Prevout,
+  tapleafHash,
+  verifyInputScript,
+  verifyTransactionScripts,
+} from "./script-interpreter";
+
+const network = bitcoin.networks.testnet;
+const SECP256K1_ORDER = BigInt(
+  "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141"
+);
+
+/**
+ * Builds an unsigned one-input transaction spending prevout
+ */
+function spendingTransaction(prevout: Prevout): bitcoin.Transaction {
+  const tx = new bitcoin.Transaction();
+  tx.version = 2;
+  tx.addInput(Buffer.alloc(32, 1), 0);
+  tx.addOutput(
+    bitcoin.address.toOutputScript(
+      "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+      network
+    ),
+    prevout.value - 1000
+  );
+  return tx;
+}
+
+describe("Script Interpreter", () => {
+  let wallet: MultisigWallet;
+  let keyPairs: ECPairInterface[];
+  const outputs = [
+    {
+      address: "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx",
+      value: BigInt(50000),
+    },
+  ];
+  const utxo = (vout: number, address: string): UTXO =>
+    createTestUtxo(address, 100000, vout);
+
+  beforeEach(() => {
+    const testWallet = createTestWallet(2);
+    wallet = testWallet.wallet;
+    keyPairs = testWallet.keyPairs;
+  });
+
+  describe("Wallet spends", () => {
+    it("should execute P2WSH, P2SH-P2WSH and Taproot spends", () => {
+      const { p2wsh, p2shP2wsh, p2tr } = wallet.getAddresses();
+      const psbt = wallet.createTransaction(
+        [utxo(0, p2wsh), utxo(1, p2shP2wsh), utxo(2, p2tr)],
+        outputs,
+        1000
+      );
+      wallet.signAllInputs(psbt, keyPairs[0]);
+      wallet.signAllInputs(psbt, keyPairs[2]);
+
+      expect(wallet.finalizeTransaction(psbt, { verifyScripts: true })).toMatch(
+        /^[0-9a-f]+$/
+      );
+    });
+
+    it("should execute a legacy P2SH spend", () => {
+      const psbt = wallet.createTransaction(
+        [utxo(0, wallet.getAddresses().p2sh)],
+        outputs,
+        1000
+      );
+      wallet.signAllInputs(psbt, keyPairs[1]);
+      wallet.signAllInputs(psbt, keyPairs[2]);
+
+      expect(wallet.finalizeTransaction(psbt, { verifyScripts: true })).toMatch(
+        /^[0-9a-f]+$/
+      );
+    });
+
+    it("should reject a finalized spend with a tampered witness", () => {
+      const psbt = wallet.createTransaction(
+        [utxo(0, wallet.getAddresses().p2wsh)],
+        outputs,
+        1000
+      );
+      wallet.signAllInputs(psbt, keyPairs[0]);
+      wallet.signAllInputs(psbt, keyPairs[1]);
+      const tx = bitcoin.Transaction.fromHex(wallet.finalizeTransaction(psbt));
+      const prevouts = [psbt.data.inputs[0].witnessUtxo!];
+      expect(() => verifyTransactionScripts(tx, prevouts)).not.toThrow();
+
+      // Signatures in the wrong order don't satisfy OP_CHECKMULTISIG
+      const [dummy, sig1, sig2, script] = tx.ins[0].witness;
+      tx.ins[0].witness = [dummy, sig2, sig1, script];
+      expect(() => verifyTransactionScripts(tx, prevouts)).toThrow(
+        "Input 0 script verification failed: Script evaluated to false"
+      );
+
+      tx.ins[0].witness = [dummy, sig1, sig2, Buffer.from("51", "hex")];
+      expect(() => verifyInputScript(tx, 0, prevouts)).toThrow(
+        "Witness script does not match the witness program"
+      );
+    });
+  });
+
+  it("should hash tapscript leaves as BIP341 does", () => {
+    // The merkle root of a single leaf tree is its leaf hash
+    const { leafScript, merkleRoot } = wallet.getTaprootInfo();
+    expect(tapleafHash(leafScript)).toEqual(merkleRoot);
+  });
+
+  describe("OP_CHECKMULTISIG rules", () => {
+    let tx: bitcoin.Transaction;
+    let prevouts: Prevout[];
+    let signatures: Buffer[];
+
+    beforeEach(() => {
+      const witnessScript = wallet.getRedeemScript();
+      prevouts = [
+        {
+          script: bitcoin.payments.p2wsh({
+            redeem: { output: witnessScript, network },
+            network,
+          }).output!,
+          value: 100000,
+        },
+      ];
+      tx = spendingTransaction(prevouts[0]);
+      const hash = tx.hashForWitnessV0(
+        0,
+        witnessScript,
+        prevouts[0].value,
+        bitcoin.Transaction.SIGHASH_ALL
+      );
+
+      // Signatures in the order of the sorted keys in the script
+      const sorted = [...keyPairs].sort((a, b) =>
+        Buffer.from(a.publicKey).compare(Buffer.from(b.publicKey))
+      );
+      signatures = sorted.slice(0, 2).map((kp) => Buffer.from(kp.sign(hash)));
+      tx.ins[0].witness = [
+        Buffer.alloc(0),
+        ...signatures.map((sig) =>
+          bitcoin.script.signature.encode(sig, bitcoin.Transaction.SIGHASH_ALL)
+        ),
+        witnessScript,
+      ];
+    });
+
+    it("should accept a valid witness", () => {
+      expect(() => verifyInputScript(tx, 0, prevouts)).not.toThrow();
+    });
+
+    it("should consume the extra dummy element and enforce NULLDUMMY", () => {
+      tx.ins[0].witness[0] = Buffer.from([1]);
+      expect(() => verifyInputScript(tx, 0, prevouts)).toThrow(
+        "Dummy CHECKMULTISIG argument must be zero"
+      );
+      expect(() =>
+        verifyInputScript(tx, 0, prevouts, { nullDummy: false })
+      ).not.toThrow();
+
+      // Without the dummy the bug makes OP_CHECKMULTISIG underflow
+      tx.ins[0].witness = tx.ins[0].witness.slice(1);
+      expect(() => verifyInputScript(tx, 0, prevouts)).toThrow(
+        "Stack underflow in OP_CHECKMULTISIG"
+      );
+    });
+
+    it("should reject high S signatures", () => {
+      const s = BigInt("0x" + signatures[0].subarray(32).toString("hex"));
+      const highS = Buffer.from(
+        (SECP256K1_ORDER - s).toString(16).padStart(64, "0"),
+        "hex"
+      );
+      tx.ins[0].witness[1] = bitcoin.script.signature.encode(
+        Buffer.concat([signatures[0].subarray(0, 32), highS]),
+        bitcoin.Transaction.SIGHASH_ALL
+      );
+
+      expect(() => verifyInputScript(tx, 0, prevouts)).toThrow(
+        "Non-canonical signature: high S value"
+      );
+      expect(() =>
+        verifyInputScript(tx, 0, prevouts, { lowS: false })
+      ).not.toThrow();
+    });
+
+    it("should reject signatures for another sighash type", () => {
+      tx.ins[0].witness[1] = bitcoin.script.signature.encode(
+        signatures[0],
+        bitcoin.Transaction.SIGHASH_NONE
+      );
+      expect(() => verifyInputScript(tx, 0, prevouts)).toThrow(
+        "Script evaluated to false"
+      );
+    });
+  });
+
+  describe("BrokenMultisigWallet", () => {
+    let broken: BrokenMultisigWallet;
+
+    beforeEach(async () => {
+      broken = new BrokenMultisigWallet(2, 3);
+      await broken.generateWallet();
+    });
+
+    it("should not be able to spend its P2WSH address with any signatures", () => {
+      const script = bitcoin.address.toOutputScript(
+        broken.getAddresses()!.p2wsh,
+        network
+      );
+      const prevouts = [{ script, value: 100000 }];
+      const tx = spendingTransaction(prevouts[0]);
+      // OP_1 <3 keys> OP_1 OP_CHECKMULTISIG, reconstructed from the keys
+      const witnessScript = bitcoin.script.compile([
+        bitcoin.opcodes.OP_1,
+        ...broken.getPublicKeys(),
+        bitcoin.opcodes.OP_1,
+        bitcoin.opcodes.OP_CHECKMULTISIG,
+      ]);
+      tx.ins[0].witness = [Buffer.alloc(0), Buffer.alloc(72, 1), witnessScript];
+
+      // n = 1 leaves a public key where m is expected
+      expect(() => verifyInputScript(tx, 0, prevouts)).toThrow(
+        "Invalid script number: Script number overflow"
+      );
+    });
+
+    it("should not be able to spend its insecure multisig script", () => {
+      const prevouts = [
+        { script: broken.createInsecureMultisig(), value: 100000 },
+      ];
+      const tx = spendingTransaction(prevouts[0]);
+      tx.ins[0].script = bitcoin.script.compile([
+        bitcoin.opcodes.OP_0,
+        Buffer.alloc(72, 1),
+        Buffer.alloc(72, 2),
+      ]);
+
+      // OP_CHECKMULTISIG runs before m and n are pushed
+      expect(() => verifyInputScript(tx, 0, prevouts)).toThrow(
+        "Invalid script number: Script number overflow"
+      );
+    });
+
+    it("should not produce valid P2SH signatures", async () => {
+      const script = bitcoin.address.toOutputScript(
+        broken.getAddresses()!.p2sh,
+        network
+      );
+      const prevouts = [{ script, value: 100000 }];
+      const keyPair = await broken.generateKeyPair(0);
+      const signed = bitcoin.Transaction.fromHex(
+        await broken.signTransaction(
+          spendingTransaction(prevouts[0]).toHex(),
+          0,
+          keyPair
+        )
+      );
+
+      // The scriptSig pushes a sighash and a public key, no redeem script
+      expect(() => verifyInputScript(signed, 0, prevouts)).toThrow(
+        "Script evaluated to false"
+      );
+    });
+  });
+});
@@ -0,0 +1,931 @@
+import * as bitcoin from "bitcoinjs-lib";
+import * as ecc from "tiny-secp256k1";
+import { encodeVarInt } from "./tx-weight";
+
+// A small Bitcoin script interpreter for the spends the wallets produce:
+// bare scripts, P2SH, P2WSH, P2SH-P2WSH and Taproot (key path and BIP342
+// tapscript). It executes scriptSig and witness against the spent output
+// with the standardness rules nodes apply, so spends can be checked
+// without broadcasting them.
+
+const ops = bitcoin.opcodes;
+
+const MAX_SCRIPT_SIZE = 10000;
+const MAX_SCRIPT_ELEMENT_SIZE = 520;
+const MAX_STACK_SIZE = 1000;
+const MAX_OPS_PER_SCRIPT = 201;
+const MAX_PUBKEYS_PER_MULTISIG = 20;
+const TAPSCRIPT_LEAF_VERSION = 0xc0;
+const ANNEX_TAG = 0x50;
+// Locktime values below this are block heights, above are timestamps
+const LOCKTIME_THRESHOLD = 500000000;
+const SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000;
+const SEQUENCE_LOCKTIME_TYPE_FLAG = 0x00400000;
+const SEQUENCE_LOCKTIME_MASK = 0x0000ffff;
+// Half the secp256k1 group order, the largest S value of a low-S signature
+const SECP256K1_HALF_ORDER = Buffer.from(
+  "7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0",
+  "hex"
+);
+
+/**
+ * Rules in which a script is executed
+ * - base: legacy scripts and P2SH redeem scripts
+ * - witnessV0: P2WSH witness scripts (BIP143)
+ * - tapscript: Taproot script path leaves (BIP342)
+ */
+export type SigVersion = "base" | "witnessV0" | "tapscript";
+
+/**
+ * Standardness rules enforced on top of consensus, all enabled by default
+ * @property nullDummy - The OP_CHECKMULTISIG dummy element must be empty (BIP147)
+ * @property lowS - ECDSA signatures must use the low S value (BIP146)
+ * @property cleanStack - Exactly one element must remain after execution
+ */
+export interface ScriptVerifyFlags {
+  nullDummy?: boolean;
+  lowS?: boolean;
+  cleanStack?: boolean;
+}
+
+/**
+ * An output spent by a transaction input
+ * @property script - The output's scriptPubKey
+ * @property value - The output's value in satoshis
+ */
+export interface Prevout {
+  script: Buffer;
+  value: number;
+}
+
+interface ExecutionContext {
+  tx: bitcoin.Transaction;
+  inputIndex: number;
+  prevouts: Prevout[];
+  sigVersion: SigVersion;
+  flags: Required<ScriptVerifyFlags>;
+  // Script committed to by legacy and BIP143 signatures
+  scriptCode: Buffer;
+  // BIP341 leaf hash of the executing tapscript
+  leafHash?: Buffer;
+}
+
+/**
+ * Whether a stack element is true: any non-zero byte, except a negative
+ * zero in the last byte
+ */
+function castToBool(value: Buffer): boolean {
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] !== 0) {
+      return !(i === value.length - 1 && value[i] === 0x80);
+    }
+  }
+  return false;
+}
+
+function encodeBool(value: boolean): Buffer {
+  return value ? Buffer.from([1]) : Buffer.alloc(0);
+}
+
+function decodeNumber(value: Buffer, maxLength: number = 4): number {
+  try {
+    return bitcoin.script.number.decode(value, maxLength, true);
+  } catch (error) {
+    throw new Error(
+      `Invalid script number: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+function encodeNumber(value: number): Buffer {
+  return bitcoin.script.number.encode(value);
+}
+
+/**
+ * Checks the encoding of an ECDSA signature with its sighash byte
+ * @returns The compact signature and the sighash type
+ */
+function decodeEcdsaSignature(
+  signature: Buffer,
+  flags: Required<ScriptVerifyFlags>
+): { signature: Buffer; hashType: number } {
+  let decoded;
+  try {
+    decoded = bitcoin.script.signature.decode(signature);
+  } catch (error) {
+    throw new Error("Non-canonical DER signature");
+  }
+  const baseType = decoded.hashType & ~bitcoin.Transaction.SIGHASH_ANYONECANPAY;
+  if (
+    baseType < bitcoin.Transaction.SIGHASH_ALL ||
+    baseType > bitcoin.Transaction.SIGHASH_SINGLE
+  ) {
+    throw new Error(`Invalid sighash type ${decoded.hashType}`);
+  }
+  if (
+    flags.lowS &&
+    decoded.signature.subarray(32).compare(SECP256K1_HALF_ORDER) > 0
+  ) {
+    throw new Error("Non-canonical signature: high S value");
+  }
+  return decoded;
+}
+
+/**
+ * OP_CHECKSIG for legacy and witness v0 scripts. An empty signature fails
+ * without error so scripts can branch on it.
+ */
+function checkEcdsaSignature(
+  signature: Buffer,
+  pubkey: Buffer,
+  ctx: ExecutionContext
+): boolean {
+  if (signature.length === 0) {
+    return false;
+  }
+  const decoded = decodeEcdsaSignature(signature, ctx.flags);
+  if (!ecc.isPoint(pubkey)) {
+    throw new Error("Invalid public key encoding");
+  }
+  if (ctx.sigVersion === "witnessV0" && pubkey.length !== 33) {
+    throw new Error("Witness scripts require compressed public keys");
+  }
+
+  const hash =
+    ctx.sigVersion === "witnessV0"
+      ? ctx.tx.hashForWitnessV0(
+          ctx.inputIndex,
+          ctx.scriptCode,
+          ctx.prevouts[ctx.inputIndex].value,
+          decoded.hashType
+        )
+      : ctx.tx.hashForSignature(
+          ctx.inputIndex,
+          ctx.scriptCode,
+          decoded.hashType
+        );
+  return ecc.verify(hash, pubkey, decoded.signature);
+}
+
+/**
+ * Verifies a BIP340 signature against the BIP341 sighash
+ * @throws If the signature is malformed or invalid
+ */
+function verifySchnorrSignature(
+  signature: Buffer,
+  pubkey: Buffer,
+  ctx: ExecutionContext
+): void {
+  if (signature.length !== 64 && signature.length !== 65) {
+    throw new Error("Invalid Schnorr signature size");
+  }
+  // A 65 byte signature must not use the implied SIGHASH_DEFAULT
+  const hashType =
+    signature.length === 65
+      ? signature[64]
+      : bitcoin.Transaction.SIGHASH_DEFAULT;
+  if (
+    signature.length === 65 &&
+    hashType === bitcoin.Transaction.SIGHASH_DEFAULT
+  ) {
+    throw new Error(`Invalid sighash type ${hashType}`);
+  }
+
+  const hash = ctx.tx.hashForWitnessV1(
+    ctx.inputIndex,
+    ctx.prevouts.map((prevout) => prevout.script),
+    ctx.prevouts.map((prevout) => prevout.value),
+    hashType,
+    ctx.leafHash
+  );
+  if (!ecc.verifySchnorr(hash, pubkey, signature.subarray(0, 64))) {
+    throw new Error("Invalid Schnorr signature");
+  }
+}
+
+/**
+ * OP_CHECKSIG and OP_CHECKSIGADD for tapscript (BIP342). An empty
+ * signature fails without error; any other invalid signature fails the
+ * script.
+ */
+function checkTapscriptSignature(
+  signature: Buffer,
+  pubkey: Buffer,
+  ctx: ExecutionContext
+): boolean {
+  if (pubkey.length === 0) {
+    throw new Error("Empty public key in tapscript");
+  }
+  if (signature.length === 0) {
+    return false;
+  }
+  // Unknown public key types are reserved for upgrades and succeed
+  if (pubkey.length === 32) {
+    verifySchnorrSignature(signature, pubkey, ctx);
+  }
+  return true;
+}
+
+/**
+ * OP_CHECKMULTISIG, including the extra element it pops because of the
+ * original off-by-one bug
+ */
+function checkMultisig(stack: Buffer[], ctx: ExecutionContext): boolean {
+  const pop = () => {
+    if (stack.length === 0) {
+      throw new Error("Stack underflow in OP_CHECKMULTISIG");
+    }
+    return stack.pop()!;
+  };
+
+  const n = decodeNumber(pop());
+  if (n < 0 || n > MAX_PUBKEYS_PER_MULTISIG) {
+    throw new Error(`Invalid public key count ${n}`);
+  }
+  // Popped top first, reversed into script order
+  const pubkeys = Array.from({ length: n }, pop).reverse();
+  const m = decodeNumber(pop());
+  if (m < 0 || m > n) {
+    throw new Error(`Invalid signature count ${m}`);
+  }
+  const signatures = Array.from({ length: m }, pop).reverse();
+
+  const dummy = pop();
+  if (ctx.flags.nullDummy && dummy.length !== 0) {
+    throw new Error("Dummy CHECKMULTISIG argument must be zero");
+  }
+
+  // Signatures must appear in the same order as their public keys
+  let keyIndex = 0;
+  let sigIndex = 0;
+  while (sigIndex < signatures.length) {
+    if (signatures.length - sigIndex > pubkeys.length - keyIndex) {
+      return false;
+    }
+    if (checkEcdsaSignature(signatures[sigIndex], pubkeys[keyIndex], ctx)) {
+      sigIndex++;
+    }
+    keyIndex++;
+  }
+  return true;
+}
+
+/**
+ * OP_CHECKLOCKTIMEVERIFY (BIP65)
+ */
+function checkLockTime(lockTime: number, ctx: ExecutionContext): void {
+  if (lockTime < 0) {
+    throw new Error("Negative locktime");
+  }
+  const txLockTime = ctx.tx.locktime;
+  if (lockTime < LOCKTIME_THRESHOLD !== txLockTime < LOCKTIME_THRESHOLD) {
+    throw new Error("Locktime type mismatch");
+  }
+  if (lockTime > txLockTime) {
+    throw new Error("Locktime requirement not satisfied");
+  }
+  if (ctx.tx.ins[ctx.inputIndex].sequence === 0xffffffff) {
+    throw new Error("Locktime is disabled by a final input sequence");
+  }
+}
+
+/**
+ * OP_CHECKSEQUENCEVERIFY (BIP112)
+ */
+function checkSequence(sequence: number, ctx: ExecutionContext): void {
+  if (sequence < 0) {
+    throw new Error("Negative sequence");
+  }
+  if (sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) {
+    return;
+  }
+  const txSequence = ctx.tx.ins[ctx.inputIndex].sequence;
+  if (ctx.tx.version < 2 || txSequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) {
+    throw new Error("Relative locktime is disabled for the input");
+  }
+  if (
+    (sequence & SEQUENCE_LOCKTIME_TYPE_FLAG) !==
+    (txSequence & SEQUENCE_LOCKTIME_TYPE_FLAG)
+  ) {
+    throw new Error("Relative locktime type mismatch");
+  }
+  if (
+    (sequence & SEQUENCE_LOCKTIME_MASK) >
+    (txSequence & SEQUENCE_LOCKTIME_MASK)
+  ) {
+    throw new Error("Relative locktime requirement not satisfied");
+  }
+}
+
+/**
+ * Executes a script on a stack
+ * @param script - Script to execute
+ * @param initialStack - Stack before execution, top element last
+ * @param ctx - Transaction and rules the script runs in
+ * @returns The stack after execution
+ * @throws If the script fails
+ */
+function executeScript(
+  script: Buffer,
+  initialStack: Buffer[],
+  ctx: ExecutionContext
+): Buffer[] {
+  if (ctx.sigVersion !== "tapscript" && script.length > MAX_SCRIPT_SIZE) {
+    throw new Error("Script is too large");
+  }
+  const chunks = bitcoin.script.decompile(script);
+  if (!chunks) {
+    throw new Error("Invalid script encoding");
+  }
+
+  const stack = [...initialStack];
+  const altStack: Buffer[] = [];
+  // Condition of every enclosing OP_IF, executing only if all are true
+  const conditions: boolean[] = [];
+  let opCount = 0;
+
+  const pop = (): Buffer => {
+    if (stack.length === 0) {
+      throw new Error("Stack underflow");
+    }
+    return stack.pop()!;
+  };
+  const top = (depth: number = 1): Buffer => {
+    if (stack.length < depth) {
+      throw new Error("Stack underflow");
+    }
+    return stack[stack.length - depth];
+  };
+  const verify = (opcode: string) => {
+    if (!castToBool(pop())) {
+      throw new Error(`${opcode} failed`);
+    }
+  };
+
+  for (const chunk of chunks) {
+    const executing = conditions.every(Boolean);
+
+    if (Buffer.isBuffer(chunk)) {
+      if (chunk.length > MAX_SCRIPT_ELEMENT_SIZE) {
+        throw new Error("Push exceeds the maximum element size");
+      }
+      if (executing) {
+        stack.push(chunk);
+      }
+      continue;
+    }
+
+    const opcode = chunk;
+    if (
+      ctx.sigVersion !== "tapscript" &&
+      opcode > ops.OP_16 &&
+      ++opCount > MAX_OPS_PER_SCRIPT
+    ) {
+      throw new Error("Operation limit exceeded");
+    }
+    if (!executing && (opcode < ops.OP_IF || opcode > ops.OP_ENDIF)) {
+      continue;
+    }
+
+    switch (opcode) {
+      case ops.OP_0:
+        stack.push(Buffer.alloc(0));
+        break;
+      case ops.OP_1NEGATE:
+        stack.push(encodeNumber(-1));
+        break;
+      case ops.OP_NOP:
+        break;
+
+      case ops.OP_IF:
+      case ops.OP_NOTIF: {
+        let condition = false;
+        if (executing) {
+          const value = pop();
+          // MINIMALIF is consensus in tapscript and policy for witness v0
+          if (
+            ctx.sigVersion !== "base" &&
+            (value.length > 1 || (value.length === 1 && value[0] !== 1))
+          ) {
+            throw new Error("OP_IF argument must be minimal");
+          }
+          condition = castToBool(value) === (opcode === ops.OP_IF);
+        }
+        conditions.push(condition);
+        break;
+      }
+      case ops.OP_ELSE:
+        if (conditions.length === 0) {
+          throw new Error("OP_ELSE without OP_IF");
+        }
+        conditions.push(!conditions.pop()!);
+        break;
+      case ops.OP_ENDIF:
+        if (conditions.length === 0) {
+          throw new Error("OP_ENDIF without OP_IF");
+        }
+        conditions.pop();
+        break;
+      case ops.OP_VERIFY:
+        verify("OP_VERIFY");
+        break;
+      case ops.OP_RETURN:
+        throw new Error("OP_RETURN executed");
+
+      case ops.OP_TOALTSTACK:
+        altStack.push(pop());
+        break;
+      case ops.OP_FROMALTSTACK:
+        if (altStack.length === 0) {
+          throw new Error("Alt stack underflow");
+        }
+        stack.push(altStack.pop()!);
+        break;
+      case ops.OP_DROP:
+        pop();
+        break;
+      case ops.OP_2DROP:
+        pop();
+        pop();
+        break;
+      case ops.OP_DUP:
+        stack.push(top());
+        break;
+      case ops.OP_IFDUP:
+        if (castToBool(top())) {
+          stack.push(top());
+        }
+        break;
+      case ops.OP_SWAP: {
+        const a = pop();
+        const b = pop();
+        stack.push(a, b);
+        break;
+      }
+      case ops.OP_OVER:
+        stack.push(top(2));
+        break;
+      case ops.OP_SIZE:
+        stack.push(encodeNumber(top().length));
+        break;
+
+      case ops.OP_EQUAL:
+      case ops.OP_EQUALVERIFY: {
+        const equal = pop().equals(pop());
+        stack.push(encodeBool(equal));
+        if (opcode === ops.OP_EQUALVERIFY) {
+          verify("OP_EQUALVERIFY");
+        }
+        break;
+      }
+
+      case ops.OP_1ADD:
+        stack.push(encodeNumber(decodeNumber(pop()) + 1));
+        break;
+      case ops.OP_1SUB:
+        stack.push(encodeNumber(decodeNumber(pop()) - 1));
+        break;
+      case ops.OP_NOT:
+        stack.push(encodeBool(decodeNumber(pop()) === 0));
+        break;
+      case ops.OP_0NOTEQUAL:
+        stack.push(encodeBool(decodeNumber(pop()) !== 0));
+        break;
+      case ops.OP_ADD: {
+        const b = decodeNumber(pop());
+        const a = decodeNumber(pop());
+        stack.push(encodeNumber(a + b));
+        break;
+      }
+      case ops.OP_SUB: {
+        const b = decodeNumber(pop());
+        const a = decodeNumber(pop());
+        stack.push(encodeNumber(a - b));
+        break;
+      }
+      case ops.OP_BOOLAND: {
+        const b = decodeNumber(pop());
+        const a = decodeNumber(pop());
+        stack.push(encodeBool(a !== 0 && b !== 0));
+        break;
+      }
+      case ops.OP_BOOLOR: {
+        const b = decodeNumber(pop());
+        const a = decodeNumber(pop());
+        stack.push(encodeBool(a !== 0 || b !== 0));
+        break;
+      }
+      case ops.OP_NUMEQUAL:
+      case ops.OP_NUMEQUALVERIFY: {
+        const b = decodeNumber(pop());
+        const a = decodeNumber(pop());
+        stack.push(encodeBool(a === b));
+        if (opcode === ops.OP_NUMEQUALVERIFY) {
+          verify("OP_NUMEQUALVERIFY");
+        }
+        break;
+      }
+      case ops.OP_LESSTHAN: {
+        const b = decodeNumber(pop());
+        const a = decodeNumber(pop());
+        stack.push(encodeBool(a < b));
+        break;
+      }
+      case ops.OP_GREATERTHAN: {
+        const b = decodeNumber(pop());
+        const a = decodeNumber(pop());
+        stack.push(encodeBool(a > b));
+        break;
+      }
+
+      case ops.OP_RIPEMD160:
+        stack.push(bitcoin.crypto.ripemd160(pop()));
+        break;
+      case ops.OP_SHA256:
+        stack.push(bitcoin.crypto.sha256(pop()));
+        break;
+      case ops.OP_HASH160:
+        stack.push(bitcoin.crypto.hash160(pop()));
+        break;
+      case ops.OP_HASH256:
+        stack.push(bitcoin.crypto.hash256(pop()));
+        break;
+
+      case ops.OP_CHECKSIG:
+      case ops.OP_CHECKSIGVERIFY: {
+        const pubkey = pop();
+        const signature = pop();
+        const valid =
+          ctx.sigVersion === "tapscript"
+            ? checkTapscriptSignature(signature, pubkey, ctx)
+            : checkEcdsaSignature(signature, pubkey, ctx);
+        stack.push(encodeBool(valid));
+        if (opcode === ops.OP_CHECKSIGVERIFY) {
+          verify("OP_CHECKSIGVERIFY");
+        }
+        break;
+      }
+      case ops.OP_CHECKSIGADD: {
+        if (ctx.sigVersion !== "tapscript") {
+          throw new Error("OP_CHECKSIGADD is only available in tapscript");
+        }
+        const pubkey = pop();
+        const n = decodeNumber(pop());
+        const signature = pop();
+        const valid = checkTapscriptSignature(signature, pubkey, ctx);
+        stack.push(encodeNumber(n + (valid ? 1 : 0)));
+        break;
+      }
+      case ops.OP_CHECKMULTISIG:
+      case ops.OP_CHECKMULTISIGVERIFY: {
+        if (ctx.sigVersion === "tapscript") {
+          throw new Error("OP_CHECKMULTISIG is disabled in tapscript");
+        }
+        stack.push(encodeBool(checkMultisig(stack, ctx)));
+        if (opcode === ops.OP_CHECKMULTISIGVERIFY) {
+          verify("OP_CHECKMULTISIGVERIFY");
+        }
+        break;
+      }
+
+      case ops.OP_CHECKLOCKTIMEVERIFY:
+        checkLockTime(decodeNumber(top(), 5), ctx);
+        break;
+      case ops.OP_CHECKSEQUENCEVERIFY:
+        checkSequence(decodeNumber(top(), 5), ctx);
+        break;
+
+      default:
+        if (opcode >= ops.OP_1 && opcode <= ops.OP_16) {
+          stack.push(encodeNumber(opcode - ops.OP_1 + 1));
+          break;
+        }
+        throw new Error(`Unsupported opcode ${bitcoin.script.toASM([opcode])}`);
+    }
+
+    if (stack.length + altStack.length > MAX_STACK_SIZE) {
+      throw new Error("Stack size limit exceeded");
+    }
+  }
+
+  if (conditions.length !== 0) {
+    throw new Error("Unbalanced conditional");
+  }
+  return stack;
+}
+
+/**
+ * Checks that a script left a true top element and, if required, no
+ * other elements
+ */
+function checkFinalStack(stack: Buffer[], requireClean: boolean): void {
+  if (stack.length === 0 || !castToBool(stack[stack.length - 1])) {
+    throw new Error("Script evaluated to false");
+  }
+  if (requireClean && stack.length !== 1) {
+    throw new Error("Stack not clean after execution");
+  }
+}
+
+/**
+ * Executes a witness v0 script hash program (P2WSH)
+ */
+function verifyWitnessV0(
+  program: Buffer,
+  witness: Buffer[],
+  ctx: ExecutionContext
+): void {
+  if (program.length !== 32) {
+    throw new Error("Unsupported witness v0 program");
+  }
+  if (witness.length === 0) {
+    throw new Error("Witness is empty");
+  }
+  const witnessScript = witness[witness.length - 1];
+  if (!bitcoin.crypto.sha256(witnessScript).equals(program)) {
+    throw new Error("Witness script does not match the witness program");
+  }
+
+  const stack = witness.slice(0, -1);
+  stack.forEach((item) => {
+    if (item.length > MAX_SCRIPT_ELEMENT_SIZE) {
+      throw new Error("Witness element exceeds the maximum element size");
+    }
+  });
+  checkFinalStack(
+    executeScript(witnessScript, stack, {
+      ...ctx,
+      sigVersion: "witnessV0",
+      scriptCode: witnessScript,
+    }),
+    true
+  );
+}
+
+/**
+ * BIP341 leaf hash of a tapscript, committed to by the Taproot output and
+ * signed by its script path signatures
+ */
+export function tapleafHash(
+  script: Buffer,
+  leafVersion: number = TAPSCRIPT_LEAF_VERSION
+): Buffer {
+  return bitcoin.crypto.taggedHash(
+    "TapLeaf",
+    Buffer.concat([
+      Buffer.from([leafVersion]),
+      encodeVarInt(script.length),
+      script,
+    ])
+  );
+}
+
+/**
+ * Executes a witness v1 program (Taproot key path or script path)
+ */
+function verifyTaproot(
+  program: Buffer,
+  witness: Buffer[],
+  ctx: ExecutionContext
+): void {
+  let stack = [...witness];
+  if (stack.length >= 2 && stack[stack.length - 1][0] === ANNEX_TAG) {
+    throw new Error("Taproot annex is not supported");
+  }
+  if (stack.length === 0) {
+    throw new Error("Witness is empty");
+  }
+
+  if (stack.length === 1) {
+    // Key path: a single signature for the output key
+    verifySchnorrSignature(stack[0], program, {
+      ...ctx,
+      sigVersion: "tapscript",
+      leafHash: undefined,
+    });
+    return;
+  }
+
+  const controlBlock = stack[stack.length - 1];
+  const script = stack[stack.length - 2];
+  stack = stack.slice(0, -2);
+  if (
+    controlBlock.length < 33 ||
+    controlBlock.length > 33 + 128 * 32 ||
+    (controlBlock.length - 33) % 32 !== 0
+  ) {
+    throw new Error("Invalid Taproot control block size");
+  }
+  const leafVersion = controlBlock[0] & 0xfe;
+  if (leafVersion !== TAPSCRIPT_LEAF_VERSION) {
+    throw new Error(`Unsupported Taproot leaf version ${leafVersion}`);
+  }
+
+  // Recompute the output key from the internal key and the merkle path
+  const leafHash = tapleafHash(script, leafVersion);
+  let node = leafHash;
+  for (let i = 33; i < controlBlock.length; i += 32) {
+    const sibling = controlBlock.subarray(i, i + 32);
+    node = bitcoin.crypto.taggedHash(
+      "TapBranch",
+      node.compare(sibling) < 0
+        ? Buffer.concat([node, sibling])
+        : Buffer.concat([sibling, node])
+    );
+  }
+  const internalKey = controlBlock.subarray(1, 33);
+  const tweaked = ecc.xOnlyPointAddTweak(
+    internalKey,
+    bitcoin.crypto.taggedHash("TapTweak", Buffer.concat([internalKey, node]))
+  );
+  if (
+    !tweaked ||
+    !Buffer.from(tweaked.xOnlyPubkey).equals(program) ||
+    tweaked.parity !== (controlBlock[0] & 1)
+  ) {
+    throw new Error("Taproot control block does not commit to the output key");
+  }
+
+  stack.forEach((item) => {
+    if (item.length > MAX_SCRIPT_ELEMENT_SIZE) {
+      throw new Error("Witness element exceeds the maximum element size");
+    }
+  });
+  checkFinalStack(
+    executeScript(script, stack, {
+      ...ctx,
+      sigVersion: "tapscript",
+      scriptCode: script,
+      leafHash,
+    }),
+    true
+  );
+}
+
+/**
+ * Returns the version and program of a witness program script
+ */
+function parseWitnessProgram(
+  script: Buffer
+): { version: number; program: Buffer } | undefined {
+  if (
+    script.length < 4 ||
+    script.length > 42 ||
+    (script[0] !== ops.OP_0 &&
+      (script[0] < ops.OP_1 || script[0] > ops.OP_16)) ||
+    script[1] !== script.length - 2
+  ) {
+    return undefined;
+  }
+  return {
+    version: script[0] === ops.OP_0 ? 0 : script[0] - ops.OP_1 + 1,
+    program: script.subarray(2),
+  };
+}
+
+function verifyWitnessProgram(
+  version: number,
+  program: Buffer,
+  witness: Buffer[],
+  ctx: ExecutionContext
+): void {
+  if (version === 0) {
+    verifyWitnessV0(program, witness, ctx);
+  } else if (version === 1 && program.length === 32) {
+    verifyTaproot(program, witness, ctx);
+  } else {
+    throw new Error(`Unsupported witness version ${version}`);
+  }
+}
+
+/**
+ * Verifies that an input's scriptSig and witness satisfy the output it
+ * spends
+ * @param tx - Transaction containing the input
+ * @param inputIndex - Index of the input
+ * @param prevouts - Outputs spent by every input of the transaction
+ * @param flags - Standardness rules to enforce
+ * @throws Describing why the spend is invalid
+ */
+export function verifyInputScript(
+  tx: bitcoin.Transaction,
+  inputIndex: number,
+  prevouts: Prevout[],
+  flags: ScriptVerifyFlags = {}
+): void {
+  const input = tx.ins[inputIndex];
+  if (!input) {
+    throw new Error(`No input #${inputIndex}`);
+  }
+  if (prevouts.length !== tx.ins.length) {
+    throw new Error("A prevout is required for every input");
+  }
+
+  const { script: scriptPubKey } = prevouts[inputIndex];
+  const witness = input.witness;
+  const ctx: ExecutionContext = {
+    tx,
+    inputIndex,
+    prevouts,
+    sigVersion: "base",
+    flags: {
+      nullDummy: flags.nullDummy ?? true,
+      lowS: flags.lowS ?? true,
+      cleanStack: flags.cleanStack ?? true,
+    },
+    scriptCode: scriptPubKey,
+  };
+
+  const scriptSigChunks = bitcoin.script.decompile(input.script);
+  if (!scriptSigChunks || !bitcoin.script.isPushOnly(scriptSigChunks)) {
+    throw new Error("scriptSig must only push data");
+  }
+  const stack = executeScript(input.script, [], {
+    ...ctx,
+    scriptCode: input.script,
+  });
+
+  // Native witness programs require an empty scriptSig
+  const nativeProgram = parseWitnessProgram(scriptPubKey);
+  if (nativeProgram) {
+    if (input.script.length !== 0) {
+      throw new Error("Native witness spends must have an empty scriptSig");
+    }
+    verifyWitnessProgram(
+      nativeProgram.version,
+      nativeProgram.program,
+      witness,
+      ctx
+    );
+    return;
+  }
+
+  const result = executeScript(scriptPubKey, stack, ctx);
+  const isP2SH =
+    scriptPubKey.length === 23 &&
+    scriptPubKey[0] === ops.OP_HASH160 &&
+    scriptPubKey[1] === 0x14 &&
+    scriptPubKey[22] === ops.OP_EQUAL;
+  checkFinalStack(result, !isP2SH && ctx.flags.cleanStack);
+
+  if (!isP2SH) {
+    if (witness.length !== 0) {
+      throw new Error("Unexpected witness for a non-witness spend");
+    }
+    return;
+  }
+
+  // BIP16: run the redeem script on the rest of the scriptSig stack
+  const redeemScript = stack[stack.length - 1];
+  const redeemStack = stack.slice(0, -1);
+  const nestedProgram = parseWitnessProgram(redeemScript);
+  if (nestedProgram) {
+    // The scriptSig must be exactly the push of the witness program
+    if (scriptSigChunks.length !== 1) {
+      throw new Error("Nested witness spends must only push the program");
+    }
+    verifyWitnessProgram(
+      nestedProgram.version,
+      nestedProgram.program,
+      witness,
+      ctx
+    );
+    return;
+  }
+
+  if (witness.length !== 0) {
+    throw new Error("Unexpected witness for a non-witness spend");
+  }
+  checkFinalStack(
+    executeScript(redeemScript, redeemStack, {
+      ...ctx,
+      scriptCode: redeemScript,
+    }),
+    ctx.flags.cleanStack
+  );
+}
+
+/**
+ * Verifies the scripts of every input of a transaction
+ * @param tx - Signed transaction
+ * @param prevouts - Outputs spent by each input, in input order
+ * @param flags - Standardness rules to enforce
+ * @throws Naming the first input that fails
+ */
+export function verifyTransactionScripts(
+  tx: bitcoin.Transaction,
+  prevouts: Prevout[],
+  flags: ScriptVerifyFlags = {}
+): void {
+  tx.ins.forEach((_, index) => {
+    try {
+      verifyInputScript(tx, index, prevouts, flags);
+    } catch (error) {
+      throw new Error(
+        `Input ${index} script verification failed: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  });
+}
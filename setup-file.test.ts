@@ -0,0 +1,86 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { BIP32Factory } from "bip32";
+import * as ecc from "tiny-secp256k1";
+import { formatSetupFile, parseSetupFile } from "./setup-file";
+
+const bip32 = BIP32Factory(ecc);
+const network = bitcoin.networks.testnet;
+
+describe("Setup Files", () => {
+  const derivation = "m/48'/1'/0'/2'";
+  const accounts = [1, 2, 3].map((seed) => {
+    const root = bip32.fromSeed(Buffer.alloc(32, seed), network);
+    return {
+      fingerprint: Buffer.from(root.fingerprint).toString("hex"),
+      xpub: root.derivePath(derivation).neutered().toBase58(),
+    };
+  });
+  const text = [
+    "# Coldcard Multisig setup file (created by Sparrow)",
+    "#",
+    "Name: Vault",
+    "Policy: 2 of 3",
+    "Derivation: m/48h/1h/0h/2h",
+    "Format: P2WSH-P2SH",
+    "",
+    ...accounts.map(
+      (account) => `${account.fingerprint.toUpperCase()}: ${account.xpub}`
+    ),
+  ].join("\n");
+
+  it("should parse a Sparrow setup file", () => {
+    expect(parseSetupFile(text, network)).toEqual({
+      name: "Vault",
+      threshold: 2,
+      scriptType: "p2shP2wsh",
+      cosigners: accounts.map((account) => ({ ...account, derivation })),
+    });
+  });
+
+  it("should round trip keys at different derivations", () => {
+    const setup = {
+      name: "Mixed paths",
+      threshold: 1,
+      scriptType: "p2wsh" as const,
+      cosigners: [
+        { ...accounts[0], derivation },
+        {
+          fingerprint: accounts[1].fingerprint,
+          xpub: bip32
+            .fromSeed(Buffer.alloc(32, 2), network)
+            .derivePath("m/45'")
+            .neutered()
+            .toBase58(),
+          derivation: "m/45'",
+        },
+      ],
+    };
+    const formatted = formatSetupFile(setup);
+
+    expect(formatted.match(/^Derivation:/gm)).toHaveLength(2);
+    expect(parseSetupFile(formatted, network)).toEqual(setup);
+  });
+
+  it("should reject invalid setup files", () => {
+    expect(() =>
+      parseSetupFile(text.replace("2 of 3", "2 of 4"), network)
+    ).toThrow("Setup file policy is 2 of 4 but lists 3 keys");
+    expect(() =>
+      parseSetupFile(
+        text.replace("Derivation: m/48h/1h/0h/2h", "Derivation: m/48h/1h/0h"),
+        network
+      )
+    ).toThrow(
+      `Key ${accounts[0].fingerprint.toUpperCase()} depth does not match derivation m/48'/1'/0'`
+    );
+    expect(() =>
+      parseSetupFile(text.replace("Name: Vault\n", ""), network)
+    ).toThrow("Setup file is missing a name");
+    expect(() =>
+      parseSetupFile(text.replace("P2WSH-P2SH", "P2TR"), network)
+    ).toThrow("Unsupported setup file format: P2TR");
+    expect(() => parseSetupFile(text, bitcoin.networks.bitcoin)).toThrow(
+      "Invalid extended public key for network"
+    );
+  });
+});
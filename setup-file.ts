@@ -0,0 +1,216 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { BIP32Factory } from "bip32";
+import * as ecc from "tiny-secp256k1";
+import { DescriptorScriptType } from "./descriptors";
+
+const bip32 = BIP32Factory(ecc);
+
+// Plain-text multisig setup files, as Coldcard imports and exports them and
+// Sparrow writes them for hardware signers:
+//
+//   Name: Vault
+//   Policy: 2 of 3
+//   Derivation: m/48'/0'/0'/2'
+//   Format: P2WSH
+//
+//   0F056943: xpub...
+//
+// A Derivation line applies to the key lines that follow it, so keys at
+// different paths each get their own.
+
+/* The `SetupFileCosigner` interface describes one key line:
+    1. fingerprint: string - Hex master key fingerprint, lowercase
+    2. xpub: string - Extended public key at the derivation path
+    3. derivation: string - Derivation path of the xpub, e.g. m/48'/0'/0'/2'
+*/
+export interface SetupFileCosigner {
+  fingerprint: string;
+  xpub: string;
+  derivation: string;
+}
+
+/* The `SetupFile` interface is the content of a setup file:
+    1. name: string - Wallet name shown on the device
+    2. threshold: number - Required signatures (m)
+    3. scriptType: DescriptorScriptType - Address format
+    4. cosigners: SetupFileCosigner[] - Keys of all signers (n)
+*/
+export interface SetupFile {
+  name: string;
+  threshold: number;
+  scriptType: DescriptorScriptType;
+  cosigners: SetupFileCosigner[];
+}
+
+// Coldcard's limit on wallet names
+const MAX_NAME_LENGTH = 20;
+
+const FORMATS: Record<string, DescriptorScriptType> = {
+  P2SH: "p2sh",
+  P2WSH: "p2wsh",
+  "P2SH-P2WSH": "p2shP2wsh",
+  "P2WSH-P2SH": "p2shP2wsh",
+};
+
+/**
+ * Normalizes a derivation path to m/48'/0'/0'/2' form, accepting h for
+ * hardened steps
+ * @throws If a step is not a valid child index
+ */
+export function normalizeDerivation(path: string): string {
+  const steps = path.trim().replace(/^m\/?/i, "").split("/");
+  if (
+    steps.some(
+      (step) => !/^\d+['hH]?$/.test(step) || parseInt(step, 10) >= 0x80000000
+    )
+  ) {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+  return ["m", ...steps.map((step) => step.replace(/[hH]$/, "'"))].join("/");
+}
+
+function validateName(name: string): void {
+  if (
+    name.length === 0 ||
+    name.length > MAX_NAME_LENGTH ||
+    !/^[\x20-\x7e]+$/.test(name)
+  ) {
+    throw new Error(
+      `Setup file name must be 1 to ${MAX_NAME_LENGTH} printable ASCII characters`
+    );
+  }
+}
+
+/**
+ * Formats a setup file. The derivation is written once when all keys
+ * share it, otherwise before each key.
+ */
+export function formatSetupFile(setup: SetupFile): string {
+  validateName(setup.name);
+  const derivations = new Set(setup.cosigners.map((c) => c.derivation));
+  const shared = derivations.size === 1;
+  const format = Object.keys(FORMATS).find(
+    (key) => FORMATS[key] === setup.scriptType
+  )!;
+
+  const lines = [
+    "# Multisig setup file",
+    "#",
+    `Name: ${setup.name}`,
+    `Policy: ${setup.threshold} of ${setup.cosigners.length}`,
+    ...(shared ? [`Derivation: ${setup.cosigners[0].derivation}`] : []),
+    `Format: ${format}`,
+    "",
+    ...setup.cosigners.flatMap((cosigner) => [
+      ...(shared ? [] : [`Derivation: ${cosigner.derivation}`]),
+      `${cosigner.fingerprint.toUpperCase()}: ${cosigner.xpub}`,
+    ]),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parses and validates a setup file
+ * @param text - Setup file content
+ * @param network - Network the xpubs must belong to
+ * @throws On missing or malformed fields, or keys that don't match the
+ *   policy or their derivation
+ */
+export function parseSetupFile(
+  text: string,
+  network: bitcoin.Network
+): SetupFile {
+  let name: string | undefined;
+  let policy: { threshold: number; total: number } | undefined;
+  let derivation: string | undefined;
+  let scriptType: DescriptorScriptType = "p2sh"; // Coldcard's default
+  const cosigners: SetupFileCosigner[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      return;
+    }
+    const separator = line.indexOf(":");
+    if (separator < 0) {
+      throw new Error(`Invalid setup file line: ${line}`);
+    }
+    const label = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    switch (label.toLowerCase()) {
+      case "name":
+        name = value;
+        return;
+      case "policy": {
+        const match = value.match(/^(\d+)\s*(?:of|\/)\s*(\d+)$/i);
+        if (!match) {
+          throw new Error(`Invalid setup file policy: ${value}`);
+        }
+        policy = {
+          threshold: parseInt(match[1], 10),
+          total: parseInt(match[2], 10),
+        };
+        return;
+      }
+      case "derivation":
+        derivation = normalizeDerivation(value);
+        return;
+      case "format":
+        scriptType = FORMATS[value.toUpperCase()];
+        if (!scriptType) {
+          throw new Error(`Unsupported setup file format: ${value}`);
+        }
+        return;
+    }
+
+    if (!/^[0-9a-fA-F]{8}$/.test(label)) {
+      throw new Error(`Invalid setup file line: ${line}`);
+    }
+    if (!derivation) {
+      throw new Error("Setup file keys must follow a derivation");
+    }
+    let node;
+    try {
+      node = bip32.fromBase58(value, network);
+    } catch (error) {
+      throw new Error(`Invalid extended public key for network: ${value}`);
+    }
+    if (!node.isNeutered()) {
+      throw new Error("Setup files must not contain private keys");
+    }
+    if (node.depth !== derivation.split("/").length - 1) {
+      throw new Error(
+        `Key ${label.toUpperCase()} depth does not match derivation ${derivation}`
+      );
+    }
+    if (cosigners.some((cosigner) => cosigner.xpub === value)) {
+      throw new Error(`Duplicate setup file key: ${value}`);
+    }
+    cosigners.push({
+      fingerprint: label.toLowerCase(),
+      xpub: value,
+      derivation,
+    });
+  });
+
+  if (name === undefined) {
+    throw new Error("Setup file is missing a name");
+  }
+  validateName(name);
+  if (!policy) {
+    throw new Error("Setup file is missing a policy");
+  }
+  if (policy.total !== cosigners.length) {
+    throw new Error(
+      `Setup file policy is ${policy.threshold} of ${policy.total} but lists ${cosigners.length} keys`
+    );
+  }
+  if (policy.threshold <= 0 || policy.threshold > policy.total) {
+    throw new Error(
+      `Invalid setup file policy: ${policy.threshold} of ${policy.total}`
+    );
+  }
+
+  return { name, threshold: policy.threshold, scriptType, cosigners };
+}
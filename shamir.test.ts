@@ -0,0 +1,103 @@
+import * as crypto from "node:crypto";
+import {
+  combineShares,
+  decodeShare,
+  encodeShare,
+  generateShares,
+} from "./shamir";
+
+describe("Shamir Secret Sharing", () => {
+  const secret = Buffer.from("bb54aac4b89dc868ba37d9cc21b2cece", "hex");
+
+  it("should recover the secret from any threshold of shares", () => {
+    const [shares] = generateShares(secret, 1, [{ threshold: 3, count: 5 }]);
+
+    expect(shares).toHaveLength(5);
+    // 4 header words, 13 words of share value and 3 checksum words
+    shares.forEach((share) => expect(share.split(" ")).toHaveLength(20));
+    expect(combineShares([shares[4], shares[0], shares[2]])).toEqual(secret);
+    expect(combineShares(shares)).toEqual(secret);
+    expect(() => combineShares(shares.slice(0, 2))).toThrow(
+      "Shares from 1 complete groups are required, got 0"
+    );
+  });
+
+  it("should combine groups up to the group threshold", () => {
+    const longSecret = crypto.randomBytes(32);
+    const groups = generateShares(longSecret, 2, [
+      { threshold: 1, count: 1 },
+      { threshold: 2, count: 3 },
+      { threshold: 3, count: 5 },
+    ]);
+
+    expect(groups[0][0].split(" ")).toHaveLength(33);
+    expect(
+      combineShares([
+        groups[2][1],
+        groups[1][0],
+        groups[2][4],
+        groups[2][3],
+        groups[1][2],
+      ])
+    ).toEqual(longSecret);
+    expect(combineShares([groups[0][0], groups[1][2], groups[1][1]])).toEqual(
+      longSecret
+    );
+    expect(() => combineShares([groups[0][0], groups[1][2]])).toThrow(
+      "Shares from 2 complete groups are required, got 1"
+    );
+  });
+
+  it("should encode and decode share mnemonics", () => {
+    const [[mnemonic]] = generateShares(secret, 1, [
+      { threshold: 2, count: 3 },
+    ]);
+    const share = decodeShare(mnemonic);
+
+    expect(share).toMatchObject({
+      groupIndex: 0,
+      groupThreshold: 1,
+      groupCount: 1,
+      memberIndex: 0,
+      memberThreshold: 2,
+    });
+    expect(encodeShare(share)).toBe(mnemonic);
+  });
+
+  it("should detect corrupted and mismatched shares", () => {
+    const [shares] = generateShares(secret, 1, [{ threshold: 2, count: 3 }]);
+    const [otherShares] = generateShares(secret, 1, [
+      { threshold: 2, count: 3 },
+    ]);
+    const words = shares[0].split(" ");
+    words[10] = words[10] === "abandon" ? "ability" : "abandon";
+
+    expect(() => decodeShare(words.join(" "))).toThrow(
+      "Invalid share checksum"
+    );
+    expect(() => decodeShare(shares[0].replace(/^\w+/, "zoo"))).toThrow(
+      "Invalid share word: zoo"
+    );
+    expect(() => combineShares([shares[0], shares[0]])).toThrow(
+      "Duplicate share"
+    );
+    expect(() => combineShares([shares[0], otherShares[1]])).toThrow(
+      "Shares do not belong to the same secret"
+    );
+  });
+
+  it("should reject invalid sharing schemes", () => {
+    expect(() =>
+      generateShares(Buffer.alloc(15), 1, [{ threshold: 1, count: 1 }])
+    ).toThrow("Secret must be at least 16 bytes long and of even length");
+    expect(() =>
+      generateShares(secret, 2, [{ threshold: 1, count: 1 }])
+    ).toThrow("Group threshold must be between 1 and the number of groups");
+    expect(() =>
+      generateShares(secret, 1, [{ threshold: 1, count: 3 }])
+    ).toThrow("Group 0 must be 1-of-1 with a threshold of 1");
+    expect(() =>
+      generateShares(secret, 1, [{ threshold: 4, count: 3 }])
+    ).toThrow("Invalid threshold or share count for group 0");
+  });
+});
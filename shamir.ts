@@ -0,0 +1,415 @@
+import * as bip39 from "bip39";
+import * as crypto from "node:crypto";
+
+// SLIP-39 style Shamir secret sharing: a secret is split into group shares,
+// and each group share into member shares, so that any groupThreshold
+// groups with memberThreshold shares each recover it. Shares are encoded
+// like SLIP-39 share mnemonics (10-bit words with an RS1024 checksum), but
+// with words from the first 1024 words of the BIP39 English wordlist, so
+// they are not interchangeable with SLIP-39 wallets. The secret is shared
+// as is, without SLIP-39's passphrase encryption.
+
+/**
+ * A group of member shares
+ * @property threshold - Member shares needed to recover the group share
+ * @property count - Member shares to create
+ */
+export interface ShamirGroup {
+  threshold: number;
+  count: number;
+}
+
+/* The `Share` interface describes a decoded share mnemonic:
+    1. identifier: number - Random 15-bit identifier common to all shares
+       of one secret
+    2. groupIndex: number - Index of the share's group
+    3. groupThreshold: number - Groups needed to recover the secret
+    4. groupCount: number - Total groups
+    5. memberIndex: number - Index of the share in its group
+    6. memberThreshold: number - Member shares needed to recover the group
+    7. value: Buffer - The share value
+*/
+export interface Share {
+  identifier: number;
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+  value: Buffer;
+}
+
+const RADIX_BITS = 10;
+const WORDLIST = bip39.wordlists.english.slice(0, 1 << RADIX_BITS);
+const ID_BITS = 15;
+const MAX_SHARE_COUNT = 16;
+const CHECKSUM_WORDS = 3;
+const DIGEST_LENGTH = 4;
+const DIGEST_INDEX = 254;
+const SECRET_INDEX = 255;
+const MIN_SECRET_LENGTH = 16;
+// Identifier, extendable flag and iteration exponent, then the group and
+// member fields, 2 words each
+const HEADER_WORDS = 4;
+const CUSTOMIZATION = Buffer.from("shamir");
+// RS1024 generator of the SLIP-39 checksum
+const RS1024_GEN = [
+  0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009, 0x1c0c2412, 0x38086c24,
+  0x3090fc48, 0x21b1f890, 0x3f3f120,
+];
+
+// GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Array<number>(255);
+const LOG = new Array<number>(256);
+for (let i = 0, poly = 1; i < 255; i++) {
+  EXP[i] = poly;
+  LOG[poly] = i;
+  poly = (poly << 1) ^ poly;
+  if (poly & 0x100) {
+    poly ^= 0x11b;
+  }
+}
+
+/**
+ * Evaluates the polynomial through the points at x by Lagrange
+ * interpolation, byte by byte
+ */
+function interpolate(
+  points: { x: number; value: Buffer }[],
+  x: number
+): Buffer {
+  const known = points.find((point) => point.x === x);
+  if (known) {
+    return Buffer.from(known.value);
+  }
+
+  const logProduct = points.reduce((sum, point) => sum + LOG[point.x ^ x], 0);
+  const result = Buffer.alloc(points[0].value.length);
+  points.forEach((point) => {
+    const logBasis =
+      (((logProduct -
+        LOG[point.x ^ x] -
+        points.reduce(
+          (sum, other) => sum + (other === point ? 0 : LOG[other.x ^ point.x]),
+          0
+        )) %
+        255) +
+        255) %
+      255;
+    point.value.forEach((byte, i) => {
+      if (byte) {
+        result[i] ^= EXP[(LOG[byte] + logBasis) % 255];
+      }
+    });
+  });
+  return result;
+}
+
+function digest(randomPart: Buffer, secret: Buffer): Buffer {
+  return crypto
+    .createHmac("sha256", randomPart)
+    .update(secret)
+    .digest()
+    .subarray(0, DIGEST_LENGTH);
+}
+
+/**
+ * Splits a secret into count shares of which any threshold recover it.
+ * Beside the secret at x = 255 the polynomial passes through a digest of
+ * the secret at x = 254, which recovery checks.
+ */
+function splitSecret(
+  threshold: number,
+  count: number,
+  secret: Buffer
+): Buffer[] {
+  if (threshold === 1) {
+    return Array.from({ length: count }, () => Buffer.from(secret));
+  }
+
+  const randomShares = Array.from({ length: threshold - 2 }, (_, x) => ({
+    x,
+    value: crypto.randomBytes(secret.length),
+  }));
+  const randomPart = crypto.randomBytes(secret.length - DIGEST_LENGTH);
+  const points = [
+    ...randomShares,
+    {
+      x: DIGEST_INDEX,
+      value: Buffer.concat([digest(randomPart, secret), randomPart]),
+    },
+    { x: SECRET_INDEX, value: secret },
+  ];
+
+  return Array.from({ length: count }, (_, x) =>
+    x < randomShares.length ? randomShares[x].value : interpolate(points, x)
+  );
+}
+
+/**
+ * Recovers a secret from threshold shares
+ * @throws If the digest doesn't match, e.g. for shares of another secret
+ */
+function recoverSecret(
+  threshold: number,
+  shares: { x: number; value: Buffer }[]
+): Buffer {
+  if (threshold === 1) {
+    return shares[0].value;
+  }
+  const secret = interpolate(shares, SECRET_INDEX);
+  const digestShare = interpolate(shares, DIGEST_INDEX);
+  if (
+    !digest(digestShare.subarray(DIGEST_LENGTH), secret).equals(
+      digestShare.subarray(0, DIGEST_LENGTH)
+    )
+  ) {
+    throw new Error("Invalid digest of the shared secret");
+  }
+  return secret;
+}
+
+function rs1024Polymod(values: number[]): number {
+  let chk = 1;
+  values.forEach((value) => {
+    const b = chk >> 20;
+    chk = ((chk & 0xfffff) << 10) ^ value;
+    RS1024_GEN.forEach((gen, i) => {
+      if ((b >> i) & 1) {
+        chk ^= gen;
+      }
+    });
+  });
+  return chk;
+}
+
+function rs1024Checksum(data: number[]): number[] {
+  const polymod =
+    rs1024Polymod([
+      ...CUSTOMIZATION,
+      ...data,
+      ...new Array(CHECKSUM_WORDS).fill(0),
+    ]) ^ 1;
+  return Array.from(
+    { length: CHECKSUM_WORDS },
+    (_, i) => (polymod >> (RADIX_BITS * (CHECKSUM_WORDS - 1 - i))) & 1023
+  );
+}
+
+// Big-endian conversion between bytes and 10-bit words
+function bytesToWords(bytes: Buffer): number[] {
+  const wordCount = Math.ceil((bytes.length * 8) / RADIX_BITS);
+  let value = BigInt("0x" + (bytes.toString("hex") || "0"));
+  const words = new Array<number>(wordCount);
+  for (let i = wordCount - 1; i >= 0; i--) {
+    words[i] = Number(value & BigInt(1023));
+    value >>= BigInt(RADIX_BITS);
+  }
+  return words;
+}
+
+function wordsToBytes(words: number[], length: number): Buffer {
+  const value = words.reduce(
+    (acc, word) => (acc << BigInt(RADIX_BITS)) | BigInt(word),
+    BigInt(0)
+  );
+  const paddingBits = words.length * RADIX_BITS - length * 8;
+  if (paddingBits > 8 || value >> BigInt(length * 8) !== BigInt(0)) {
+    throw new Error("Invalid share padding");
+  }
+  return Buffer.from(value.toString(16).padStart(length * 2, "0"), "hex");
+}
+
+/**
+ * Encodes a share as a mnemonic
+ */
+export function encodeShare(share: Share): string {
+  const header = [
+    // Identifier, then a zero extendable flag and iteration exponent
+    share.identifier >> 5,
+    (share.identifier & 0x1f) << 5,
+    (share.groupIndex << 6) |
+      ((share.groupThreshold - 1) << 2) |
+      ((share.groupCount - 1) >> 2),
+    (((share.groupCount - 1) & 3) << 8) |
+      (share.memberIndex << 4) |
+      (share.memberThreshold - 1),
+  ];
+  const data = [...header, ...bytesToWords(share.value)];
+  return [...data, ...rs1024Checksum(data)]
+    .map((word) => WORDLIST[word])
+    .join(" ");
+}
+
+/**
+ * Decodes and checks a share mnemonic
+ * @throws On unknown words or an invalid checksum
+ */
+export function decodeShare(mnemonic: string): Share {
+  const words = mnemonic
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => {
+      const index = WORDLIST.indexOf(word);
+      if (index < 0) {
+        throw new Error(`Invalid share word: ${word}`);
+      }
+      return index;
+    });
+  const valueWords = words.length - HEADER_WORDS - CHECKSUM_WORDS;
+  if (valueWords < Math.ceil((MIN_SECRET_LENGTH * 8) / RADIX_BITS)) {
+    throw new Error("Share mnemonic is too short");
+  }
+  if (rs1024Polymod([...CUSTOMIZATION, ...words]) !== 1) {
+    throw new Error("Invalid share checksum");
+  }
+
+  const [id1, id2, group, member] = words;
+  if (id2 & 0x1f) {
+    throw new Error("Unsupported share format");
+  }
+  const share: Share = {
+    identifier: (id1 << 5) | (id2 >> 5),
+    groupIndex: group >> 6,
+    groupThreshold: ((group >> 2) & 0xf) + 1,
+    groupCount: (((group & 3) << 2) | (member >> 8)) + 1,
+    memberIndex: (member >> 4) & 0xf,
+    memberThreshold: (member & 0xf) + 1,
+    value: wordsToBytes(
+      words.slice(HEADER_WORDS, -CHECKSUM_WORDS),
+      Math.floor((valueWords * RADIX_BITS) / 8)
+    ),
+  };
+  if (share.groupThreshold > share.groupCount) {
+    throw new Error("Invalid share group threshold");
+  }
+  return share;
+}
+
+/**
+ * Splits a secret into share mnemonics: groupThreshold of the groups are
+ * needed, each with its member threshold of shares
+ * @param secret - Secret of at least 16 bytes and even length, e.g. the
+ *   entropy of a BIP39 mnemonic
+ * @param groupThreshold - Groups needed to recover the secret
+ * @param groups - Threshold and share count of each group
+ * @returns The share mnemonics of each group
+ */
+export function generateShares(
+  secret: Buffer,
+  groupThreshold: number,
+  groups: ShamirGroup[]
+): string[][] {
+  if (secret.length < MIN_SECRET_LENGTH || secret.length % 2) {
+    throw new Error("Secret must be at least 16 bytes long and of even length");
+  }
+  if (groups.length === 0 || groups.length > MAX_SHARE_COUNT) {
+    throw new Error(
+      `Number of groups must be between 1 and ${MAX_SHARE_COUNT}`
+    );
+  }
+  if (
+    !Number.isInteger(groupThreshold) ||
+    groupThreshold < 1 ||
+    groupThreshold > groups.length
+  ) {
+    throw new Error(
+      "Group threshold must be between 1 and the number of groups"
+    );
+  }
+  groups.forEach((group, index) => {
+    if (
+      !Number.isInteger(group.threshold) ||
+      !Number.isInteger(group.count) ||
+      group.threshold < 1 ||
+      group.threshold > group.count ||
+      group.count > MAX_SHARE_COUNT
+    ) {
+      throw new Error(`Invalid threshold or share count for group ${index}`);
+    }
+    // A 1-of-n group would just be n copies of the same share
+    if (group.threshold === 1 && group.count > 1) {
+      throw new Error(`Group ${index} must be 1-of-1 with a threshold of 1`);
+    }
+  });
+
+  const identifier = crypto.randomInt(1 << ID_BITS);
+  const groupShares = splitSecret(groupThreshold, groups.length, secret);
+  return groups.map((group, groupIndex) =>
+    splitSecret(group.threshold, group.count, groupShares[groupIndex]).map(
+      (value, memberIndex) =>
+        encodeShare({
+          identifier,
+          groupIndex,
+          groupThreshold,
+          groupCount: groups.length,
+          memberIndex,
+          memberThreshold: group.threshold,
+          value,
+        })
+    )
+  );
+}
+
+/**
+ * Recovers a secret from share mnemonics
+ * @param mnemonics - Shares from at least groupThreshold groups, with the
+ *   member threshold of shares from each of them
+ * @throws If the shares are invalid, inconsistent or too few
+ */
+export function combineShares(mnemonics: string[]): Buffer {
+  if (mnemonics.length === 0) {
+    throw new Error("No shares given");
+  }
+  const shares = mnemonics.map(decodeShare);
+  const [first] = shares;
+  if (
+    shares.some(
+      (share) =>
+        share.identifier !== first.identifier ||
+        share.groupThreshold !== first.groupThreshold ||
+        share.groupCount !== first.groupCount ||
+        share.value.length !== first.value.length
+    )
+  ) {
+    throw new Error("Shares do not belong to the same secret");
+  }
+
+  const groups = new Map<number, Share[]>();
+  shares.forEach((share) => {
+    const members = groups.get(share.groupIndex) || [];
+    if (members.some((member) => member.memberIndex === share.memberIndex)) {
+      throw new Error("Duplicate share");
+    }
+    if (
+      members.some((member) => member.memberThreshold !== share.memberThreshold)
+    ) {
+      throw new Error("Shares do not belong to the same secret");
+    }
+    groups.set(share.groupIndex, [...members, share]);
+  });
+
+  // Groups with enough member shares to recover their group share
+  const groupShares = Array.from(groups.entries())
+    .filter(([, members]) => members.length >= members[0].memberThreshold)
+    .map(([groupIndex, members]) => ({
+      x: groupIndex,
+      value: recoverSecret(
+        members[0].memberThreshold,
+        members
+          .slice(0, members[0].memberThreshold)
+          .map((member) => ({ x: member.memberIndex, value: member.value }))
+      ),
+    }));
+  if (groupShares.length < first.groupThreshold) {
+    throw new Error(
+      `Shares from ${first.groupThreshold} complete groups are required, got ${groupShares.length}`
+    );
+  }
+
+  return recoverSecret(
+    first.groupThreshold,
+    groupShares.slice(0, first.groupThreshold)
+  );
+}
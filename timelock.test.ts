@@ -0,0 +1,59 @@
+import * as bitcoin from "bitcoinjs-lib";
+import { isTimelockSatisfied, validateTimelock } from "./timelock";
+
+/**
+ * Builds a one-input transaction with the given sequence and locktime
+ */
+function transaction(sequence: number, locktime: number = 0) {
+  const tx = new bitcoin.Transaction();
+  tx.version = 2;
+  tx.locktime = locktime;
+  tx.addInput(Buffer.alloc(32, 1), 0, sequence);
+  return tx;
+}
+
+describe("Timelocks", () => {
+  it("should validate timelock ranges", () => {
+    expect(() =>
+      validateTimelock({ type: "relative", blocks: 144 })
+    ).not.toThrow();
+    expect(() => validateTimelock({ type: "relative", blocks: 0 })).toThrow(
+      "Relative timelock must be between 1 and 65535 blocks"
+    );
+    expect(() =>
+      validateTimelock({ type: "absolute", locktime: 2 ** 32 })
+    ).toThrow("Absolute timelock must be a positive 32-bit locktime");
+  });
+
+  it("should check relative timelocks against the input sequence", () => {
+    const timelock = { type: "relative" as const, blocks: 144 };
+    expect(isTimelockSatisfied(timelock, transaction(144), 0)).toBe(true);
+    expect(isTimelockSatisfied(timelock, transaction(143), 0)).toBe(false);
+    // BIP125 sequences have the disable flag set
+    expect(isTimelockSatisfied(timelock, transaction(0xfffffffd), 0)).toBe(
+      false
+    );
+    // Time-based sequences don't satisfy block-based timelocks
+    expect(
+      isTimelockSatisfied(timelock, transaction(0x00400000 | 144), 0)
+    ).toBe(false);
+  });
+
+  it("should check absolute timelocks against nLockTime", () => {
+    const timelock = { type: "absolute" as const, locktime: 900000 };
+    expect(
+      isTimelockSatisfied(timelock, transaction(0xfffffffe, 900000), 0)
+    ).toBe(true);
+    expect(
+      isTimelockSatisfied(timelock, transaction(0xfffffffe, 899999), 0)
+    ).toBe(false);
+    // A final sequence disables nLockTime
+    expect(
+      isTimelockSatisfied(timelock, transaction(0xffffffff, 900000), 0)
+    ).toBe(false);
+    // Unix times don't satisfy block height timelocks
+    expect(
+      isTimelockSatisfied(timelock, transaction(0xfffffffe, 1700000000), 0)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import * as bitcoin from "bitcoinjs-lib";
+
+// BIP65/BIP68/BIP112 timelocks guarding the recovery branch of decaying
+// multisig wallets: the script fragment enforcing them and the check that a
+// spending transaction's nSequence/nLockTime satisfies them.
+
+/**
+ * A relative timelock in blocks since the UTXO confirmed
+ * (OP_CHECKSEQUENCEVERIFY), or an absolute block height or unix time
+ * (OP_CHECKLOCKTIMEVERIFY)
+ */
+export type Timelock =
+  { type: "relative"; blocks: number } | { type: "absolute"; locktime: number };
+
+// nLockTime values below this are block heights, above it unix times
+export const LOCKTIME_THRESHOLD = 500000000;
+// BIP68: an input sequence with this bit set has no relative locktime
+const SEQUENCE_LOCKTIME_DISABLE_FLAG = 0x80000000;
+// BIP68: set for time-based relative locktimes, unset for block-based ones
+const SEQUENCE_LOCKTIME_TYPE_FLAG = 0x00400000;
+const SEQUENCE_LOCKTIME_MASK = 0x0000ffff;
+const MAX_LOCKTIME = 0xffffffff;
+// A final input sequence disables the transaction's nLockTime
+const FINAL_SEQUENCE = 0xffffffff;
+
+/**
+ * @throws If the timelock can't be expressed in a script and a transaction
+ */
+export function validateTimelock(timelock: Timelock): void {
+  if (timelock.type === "relative") {
+    if (
+      !Number.isInteger(timelock.blocks) ||
+      timelock.blocks <= 0 ||
+      timelock.blocks > SEQUENCE_LOCKTIME_MASK
+    ) {
+      throw new Error(
+        `Relative timelock must be between 1 and ${SEQUENCE_LOCKTIME_MASK} blocks`
+      );
+    }
+    return;
+  }
+  if (
+    !Number.isInteger(timelock.locktime) ||
+    timelock.locktime <= 0 ||
+    timelock.locktime > MAX_LOCKTIME
+  ) {
+    throw new Error("Absolute timelock must be a positive 32-bit locktime");
+  }
+}
+
+/**
+ * Script chunks that fail unless the timelock has expired:
+ * <value> OP_CHECKSEQUENCEVERIFY|OP_CHECKLOCKTIMEVERIFY OP_DROP
+ */
+export function timelockScript(timelock: Timelock): (number | Buffer)[] {
+  return timelock.type === "relative"
+    ? [
+        bitcoin.script.number.encode(timelock.blocks),
+        bitcoin.opcodes.OP_CHECKSEQUENCEVERIFY,
+        bitcoin.opcodes.OP_DROP,
+      ]
+    : [
+        bitcoin.script.number.encode(timelock.locktime),
+        bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY,
+        bitcoin.opcodes.OP_DROP,
+      ];
+}
+
+/**
+ * Whether an input of the transaction satisfies the timelock, i.e. whether
+ * OP_CHECKSEQUENCEVERIFY or OP_CHECKLOCKTIMEVERIFY would pass for it
+ */
+export function isTimelockSatisfied(
+  timelock: Timelock,
+  tx: bitcoin.Transaction,
+  inputIndex: number
+): boolean {
+  const sequence = tx.ins[inputIndex].sequence;
+
+  if (timelock.type === "relative") {
+    return (
+      tx.version >= 2 &&
+      !(sequence & SEQUENCE_LOCKTIME_DISABLE_FLAG) &&
+      !(sequence & SEQUENCE_LOCKTIME_TYPE_FLAG) &&
+      (sequence & SEQUENCE_LOCKTIME_MASK) >= timelock.blocks
+    );
+  }
+
+  return (
+    sequence !== FINAL_SEQUENCE &&
+    timelock.locktime < LOCKTIME_THRESHOLD ===
+      tx.locktime < LOCKTIME_THRESHOLD &&
+    tx.locktime >= timelock.locktime
+  );
+}
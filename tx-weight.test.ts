@@ -0,0 +1,142 @@
+import * as bitcoin from "bitcoinjs-lib";
+import {
+  createTestUtxo,
+  createTestWallet,
+} from "./intermediate-musig-solution";
+import {
+  encodeVarInt,
+  estimateTransactionWeight,
+  multisigInputWeight,
+  outputWeight,
+  serializeWitness,
+  transactionOverheadWeight,
+} from "./tx-weight";
+
+describe("Transaction Weight", () => {
+  const { wallet, keyPairs } = createTestWallet(2);
+  const addresses = wallet.getAddresses();
+  const destination = "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx";
+
+  const spend = (address: string) => {
+    const psbt = wallet.createTransaction(
+      [createTestUtxo(address)],
+      [{ address: destination, value: BigInt(50000) }],
+      1000
+    );
+    wallet.signTransaction(psbt, keyPairs[0], 0);
+    wallet.signTransaction(psbt, keyPairs[1], 0);
+    return bitcoin.Transaction.fromHex(wallet.finalizeTransaction(psbt));
+  };
+
+  (
+    [
+      ["p2wsh", addresses.p2wsh, wallet.getRedeemScript().length],
+      ["p2shP2wsh", addresses.p2shP2wsh, wallet.getRedeemScript().length],
+      ["p2tr", addresses.p2tr, wallet.getTaprootInfo().leafScript.length],
+    ] as const
+  ).forEach(([type, address, scriptLength]) => {
+    it(`should bound the weight of a ${type} spend`, () => {
+      const tx = spend(address);
+      const estimate =
+        transactionOverheadWeight(true) +
+        multisigInputWeight(type, 2, 3, scriptLength) +
+        tx.outs.reduce(
+          (weight, output) => weight + outputWeight(output.script.length),
+          0
+        );
+
+      expect(estimate).toBeGreaterThanOrEqual(tx.weight());
+      // DER signatures are occasionally a byte or two shorter
+      expect(estimate - tx.weight()).toBeLessThanOrEqual(4);
+    });
+  });
+
+  it("should size legacy P2SH spends without witness data", () => {
+    const scriptLength = wallet.getRedeemScript().length;
+    // OP_0 + 2 * (push + 72) + OP_PUSHDATA1 <105 bytes>
+    const scriptSig = 1 + 2 * 73 + 2 + scriptLength;
+    expect(multisigInputWeight("p2sh", 2, 3, scriptLength)).toBe(
+      (40 + 3 + scriptSig) * 4
+    );
+  });
+
+  it("should count empty witnesses of legacy inputs in SegWit transactions", () => {
+    const scriptLength = wallet.getRedeemScript().length;
+    const legacy = {
+      type: "p2sh" as const,
+      weight: multisigInputWeight("p2sh", 2, 3, scriptLength),
+    };
+    const native = {
+      type: "p2wsh" as const,
+      weight: multisigInputWeight("p2wsh", 2, 3, scriptLength),
+    };
+
+    expect(estimateTransactionWeight([legacy], [22])).toBe(
+      40 + legacy.weight + outputWeight(22)
+    );
+    expect(estimateTransactionWeight([legacy, native], [22])).toBe(
+      40 + 2 + legacy.weight + 1 + native.weight + outputWeight(22)
+    );
+  });
+
+  it("should serialize CompactSize integers and witness stacks", () => {
+    expect(
+      [0xfc, 0xfd, 0x10000, 0x100000000].map((n) =>
+        encodeVarInt(n).toString("hex")
+      )
+    ).toEqual(["fc", "fdfd00", "fe00000100", "ff0000000001000000"]);
+
+    // A one-input transaction ends with the witness and the locktime
+    const tx = spend(addresses.p2wsh);
+    const witness = serializeWitness(tx.ins[0].witness);
+    const serialized = tx.toBuffer();
+    expect(witness.length).toBe(tx.byteLength() - tx.byteLength(false) - 2);
+    expect(
+      serialized.subarray(serialized.length - 4 - witness.length, -4)
+    ).toEqual(witness);
+  });
+
+  describe("Fee-rate mode", () => {
+    const utxo = (value: number) => createTestUtxo(addresses.p2wsh, value);
+    const outputs = [{ address: destination, value: BigInt(50000) }];
+
+    it("should estimate the fee from the transaction weight", () => {
+      const weight = wallet.estimateTransactionWeight([utxo(100000)], outputs);
+      expect(wallet.estimateFee([utxo(100000)], outputs, 10)).toBe(
+        BigInt(Math.ceil(weight / 4) * 10)
+      );
+    });
+
+    it("should reject funds that can't pay the fee rate", () => {
+      const fee = Number(wallet.estimateFee([utxo(100000)], outputs, 10));
+      expect(() =>
+        wallet.createTransaction([utxo(50000 + fee - 1)], outputs, 0, {
+          feeRate: 10,
+        })
+      ).toThrow("Insufficient funds for transaction");
+      expect(() =>
+        wallet.createTransaction([utxo(50000 + fee)], outputs, 0, {
+          feeRate: 10,
+        })
+      ).not.toThrow();
+    });
+
+    it("should reject a non-positive fee rate", () => {
+      expect(() =>
+        wallet.createTransaction([utxo(100000)], outputs, 0, { feeRate: 0 })
+      ).toThrow("Fee rate must be positive");
+    });
+
+    it("should pay at least the fee rate once finalized", () => {
+      const fee = Number(wallet.estimateFee([utxo(100000)], outputs, 10));
+      const psbt = wallet.createTransaction([utxo(50000 + fee)], outputs, 0, {
+        feeRate: 10,
+      });
+      wallet.signTransaction(psbt, keyPairs[0], 0);
+      wallet.signTransaction(psbt, keyPairs[1], 0);
+      const tx = bitcoin.Transaction.fromHex(wallet.finalizeTransaction(psbt));
+
+      expect(fee / tx.virtualSize()).toBeGreaterThanOrEqual(10);
+    });
+  });
+});
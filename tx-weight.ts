@@ -0,0 +1,301 @@
+// Transaction weight estimation (BIP141) for the multisig scripts used by
+// the wallets. Estimates are upper bounds: signatures are assumed to take
+// their maximum encoded size.
+
+/**
+ * Ways a multisig UTXO of the wallet can be spent
+ */
+export type MultisigInputType = "p2sh" | "p2wsh" | "p2shP2wsh" | "p2tr";
+
+// version (4) + locktime (4)
+const TX_FIXED_SIZE = 8;
+// version (4) + input count (1) + output count (1) + locktime (4)
+const TX_OVERHEAD_SIZE = 10;
+// segwit marker and flag bytes, counted as witness data
+const SEGWIT_MARKER_WEIGHT = 2;
+// outpoint (36) + sequence (4)
+const INPUT_FIXED_SIZE = 40;
+// DER signature with low S (71) + sighash type byte
+const ECDSA_SIGNATURE_SIZE = 72;
+// BIP340 signature with SIGHASH_DEFAULT (no sighash type byte)
+const SCHNORR_SIGNATURE_SIZE = 64;
+// control block of a single leaf tree: leaf version + internal key
+const CONTROL_BLOCK_SIZE = 33;
+// merkle path hash added to the control block per level of the tree
+const TAPROOT_BRANCH_SIZE = 32;
+// P2WSH witness program push: OP_0 <32 bytes>
+const P2WSH_PROGRAM_SIZE = 34;
+// Bitcoin Core's default dust relay fee rate in sat/vB
+const DUST_RELAY_FEE_RATE = 3;
+
+/**
+ * Size of a Bitcoin CompactSize integer
+ */
+export function varIntSize(n: number): number {
+  if (n < 0xfd) return 1;
+  if (n <= 0xffff) return 3;
+  if (n <= 0xffffffff) return 5;
+  return 9;
+}
+
+/**
+ * Encodes a Bitcoin CompactSize integer
+ */
+export function encodeVarInt(n: number): Buffer {
+  const buffer = Buffer.alloc(varIntSize(n));
+  if (n < 0xfd) {
+    buffer.writeUInt8(n, 0);
+  } else if (n <= 0xffff) {
+    buffer.writeUInt8(0xfd, 0);
+    buffer.writeUInt16LE(n, 1);
+  } else if (n <= 0xffffffff) {
+    buffer.writeUInt8(0xfe, 0);
+    buffer.writeUInt32LE(n, 1);
+  } else {
+    buffer.writeUInt8(0xff, 0);
+    buffer.writeBigUInt64LE(BigInt(n), 1);
+  }
+  return buffer;
+}
+
+/**
+ * Serializes a witness stack as it appears in a transaction: the number
+ * of elements, then each element prefixed with its length
+ */
+export function serializeWitness(stack: Buffer[]): Buffer {
+  return Buffer.concat([
+    encodeVarInt(stack.length),
+    ...stack.flatMap((element) => [encodeVarInt(element.length), element]),
+  ]);
+}
+
+/**
+ * Size of a minimal data push opcode for data of the given length
+ */
+function pushDataSize(length: number): number {
+  if (length < 0x4c) return 1;
+  if (length <= 0xff) return 2;
+  if (length <= 0xffff) return 3;
+  return 5;
+}
+
+/**
+ * Size of a witness stack item including its length prefix
+ */
+function witnessItemSize(length: number): number {
+  return varIntSize(length) + length;
+}
+
+/* The `ScriptBranch` interface describes where the multisig sits in a
+   script with several spending paths:
+    1. selector: boolean - The script is an OP_IF/OP_ELSE branch, so the
+       spend pushes a selector (OP_1 or empty) after the signatures
+    2. leafDepth: number - Depth of the multi_a leaf in a Taproot script
+       tree with several leaves (defaults to 0, a single leaf)
+*/
+export interface ScriptBranch {
+  selector?: boolean;
+  leafDepth?: number;
+}
+
+/**
+ * Estimates the weight of an input spending an m-of-n multisig output
+ * @param type - How the output is spent
+ * @param m - Required signatures
+ * @param n - Total public keys
+ * @param scriptLength - Length of the redeem/witness script, or of the
+ *   multi_a leaf script for Taproot
+ * @param branch - Selector and leaf depth of scripts with several branches
+ */
+export function multisigInputWeight(
+  type: MultisigInputType,
+  m: number,
+  n: number,
+  scriptLength: number,
+  branch: ScriptBranch = {}
+): number {
+  // The OP_IF selector is at most a one byte item (OP_1 in a scriptSig)
+  const selectorItems = branch.selector ? 1 : 0;
+
+  // OP_CHECKMULTISIG witness: dummy element, m signatures, witness script
+  const multisigWitness =
+    varIntSize(m + 2 + selectorItems) +
+    witnessItemSize(0) +
+    m * witnessItemSize(ECDSA_SIGNATURE_SIZE) +
+    selectorItems * witnessItemSize(1) +
+    witnessItemSize(scriptLength);
+
+  switch (type) {
+    case "p2sh": {
+      // scriptSig: OP_0 <sig>... [selector] <redeemScript>
+      const scriptSig =
+        1 +
+        m * (pushDataSize(ECDSA_SIGNATURE_SIZE) + ECDSA_SIGNATURE_SIZE) +
+        selectorItems +
+        pushDataSize(scriptLength) +
+        scriptLength;
+      return (INPUT_FIXED_SIZE + varIntSize(scriptSig) + scriptSig) * 4;
+    }
+    case "p2wsh":
+      return (INPUT_FIXED_SIZE + 1) * 4 + multisigWitness;
+    case "p2shP2wsh": {
+      // scriptSig: <OP_0 <32 bytes>>
+      const scriptSig = 1 + P2WSH_PROGRAM_SIZE;
+      return (
+        (INPUT_FIXED_SIZE + varIntSize(scriptSig) + scriptSig) * 4 +
+        multisigWitness
+      );
+    }
+    case "p2tr":
+      // multi_a witness: one element per key, empty for non-signers
+      return (
+        (INPUT_FIXED_SIZE + 1) * 4 +
+        varIntSize(n + 2) +
+        m * witnessItemSize(SCHNORR_SIGNATURE_SIZE) +
+        (n - m) * witnessItemSize(0) +
+        witnessItemSize(scriptLength) +
+        witnessItemSize(
+          CONTROL_BLOCK_SIZE + TAPROOT_BRANCH_SIZE * (branch.leafDepth ?? 0)
+        )
+      );
+  }
+}
+
+/**
+ * Estimates the weight of an input spending a script with a known
+ * satisfaction, e.g. the largest satisfaction of a miniscript
+ * @param type - How the output is spent
+ * @param stackItemSizes - Sizes of the stack items satisfying the script
+ * @param scriptLength - Length of the redeem/witness script, or of the
+ *   leaf script for Taproot
+ * @param leafDepth - Depth of the leaf in the Taproot script tree
+ */
+export function scriptInputWeight(
+  type: MultisigInputType,
+  stackItemSizes: number[],
+  scriptLength: number,
+  leafDepth: number = 0
+): number {
+  const witness =
+    stackItemSizes.reduce((size, item) => size + witnessItemSize(item), 0) +
+    witnessItemSize(scriptLength);
+
+  switch (type) {
+    case "p2sh": {
+      // scriptSig: <item>... <redeemScript>
+      const scriptSig =
+        stackItemSizes.reduce(
+          (size, item) => size + pushDataSize(item) + item,
+          0
+        ) +
+        pushDataSize(scriptLength) +
+        scriptLength;
+      return (INPUT_FIXED_SIZE + varIntSize(scriptSig) + scriptSig) * 4;
+    }
+    case "p2wsh":
+      return (
+        (INPUT_FIXED_SIZE + 1) * 4 +
+        varIntSize(stackItemSizes.length + 1) +
+        witness
+      );
+    case "p2shP2wsh": {
+      const scriptSig = 1 + P2WSH_PROGRAM_SIZE;
+      return (
+        (INPUT_FIXED_SIZE + varIntSize(scriptSig) + scriptSig) * 4 +
+        varIntSize(stackItemSizes.length + 1) +
+        witness
+      );
+    }
+    case "p2tr":
+      return (
+        (INPUT_FIXED_SIZE + 1) * 4 +
+        varIntSize(stackItemSizes.length + 2) +
+        witness +
+        witnessItemSize(CONTROL_BLOCK_SIZE + TAPROOT_BRANCH_SIZE * leafDepth)
+      );
+  }
+}
+
+/**
+ * Weight of an output with the given scriptPubKey length
+ */
+export function outputWeight(scriptLength: number): number {
+  return (8 + varIntSize(scriptLength) + scriptLength) * 4;
+}
+
+/**
+ * Smallest output value Bitcoin Core relays for a scriptPubKey, using its
+ * dust rule: the output is dust if spending it costs more than a third of
+ * its value at the dust relay fee rate (330 sats for P2WSH/P2TR, 540 for P2SH)
+ * @param script - Output scriptPubKey
+ */
+export function getDustThreshold(script: Buffer): bigint {
+  const isWitnessProgram =
+    script.length >= 4 &&
+    script.length <= 42 &&
+    (script[0] === 0x00 || (script[0] >= 0x51 && script[0] <= 0x60)) &&
+    script[1] === script.length - 2;
+  // Size of a typical input spending the output (witness discounted)
+  const spendSize = isWitnessProgram
+    ? INPUT_FIXED_SIZE + 1 + Math.floor(107 / 4)
+    : INPUT_FIXED_SIZE + 1 + 107;
+  const outputSize = 8 + varIntSize(script.length) + script.length;
+  return BigInt((outputSize + spendSize) * DUST_RELAY_FEE_RATE);
+}
+
+/**
+ * An input of a transaction being estimated
+ * @property type - How the spent output is spent
+ * @property weight - Weight from multisigInputWeight
+ */
+export interface InputWeightEstimate {
+  type: MultisigInputType;
+  weight: number;
+}
+
+/**
+ * Estimates the weight of a complete transaction
+ * Legacy inputs get an empty witness when any input has witness data.
+ * @param inputs - Input types and weights
+ * @param outputScriptLengths - scriptPubKey length of every output
+ */
+export function estimateTransactionWeight(
+  inputs: InputWeightEstimate[],
+  outputScriptLengths: number[]
+): number {
+  const hasWitness = inputs.some((input) => input.type !== "p2sh");
+  const overhead =
+    (TX_FIXED_SIZE +
+      varIntSize(inputs.length) +
+      varIntSize(outputScriptLengths.length)) *
+      4 +
+    (hasWitness ? SEGWIT_MARKER_WEIGHT : 0);
+  const inputWeight = inputs.reduce(
+    (weight, input) =>
+      weight +
+      input.weight +
+      (hasWitness && input.type === "p2sh" ? witnessItemSize(0) : 0),
+    0
+  );
+  const outputsWeight = outputScriptLengths.reduce(
+    (weight, length) => weight + outputWeight(length),
+    0
+  );
+  return overhead + inputWeight + outputsWeight;
+}
+
+/**
+ * Virtual size (BIP141) for a weight
+ */
+export function weightToVsize(weight: number): number {
+  return Math.ceil(weight / 4);
+}
+
+/**
+ * Weight of the transaction fields outside inputs and outputs, assuming
+ * fewer than 253 inputs and outputs
+ * @param hasWitness - Whether the segwit marker and flag are present
+ */
+export function transactionOverheadWeight(hasWitness: boolean): number {
+  return TX_OVERHEAD_SIZE * 4 + (hasWitness ? SEGWIT_MARKER_WEIGHT : 0);
+}
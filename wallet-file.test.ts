@@ -0,0 +1,160 @@
+import {
+  WalletFile,
+  decryptSecrets,
+  encryptSecrets,
+  parseWalletFile,
+} from "./wallet-file";
+
+describe("Wallet Files", () => {
+  const file: WalletFile = {
+    version: 1,
+    network: "testnet",
+    requiredSignatures: 2,
+    totalSigners: 3,
+    derivationPath: "m/48'/0'/0'/2'",
+    gapLimit: 20,
+    cosigners: [],
+    lastUsedIndex: [-1, -1],
+    nextIndex: [0, 0],
+  };
+  const secrets = [
+    { mnemonic: "abandon ".repeat(11) + "about", privateKey: "01" },
+  ];
+
+  it("should encrypt secrets with scrypt and PBKDF2", async () => {
+    for (const algorithm of ["scrypt", "pbkdf2"] as const) {
+      const encrypted = await encryptSecrets(file, secrets, "correct horse", {
+        algorithm,
+        scryptCost: 1 << 10,
+        pbkdf2Iterations: 1000,
+      });
+
+      expect(encrypted.secrets!.kdf.algorithm).toBe(algorithm);
+      expect(JSON.stringify(encrypted)).not.toContain("abandon");
+      expect(await decryptSecrets(encrypted, "correct horse")).toEqual(secrets);
+    }
+  });
+
+  it("should detect wrong passphrases", async () => {
+    const encrypted = await encryptSecrets(file, secrets, "correct horse", {
+      scryptCost: 1 << 10,
+    });
+    await expect(decryptSecrets(encrypted, "battery staple")).rejects.toThrow(
+      "Wrong passphrase"
+    );
+  });
+
+  it("should detect tampered secrets and clear data", async () => {
+    const encrypted = await encryptSecrets(file, secrets, "correct horse", {
+      scryptCost: 1 << 10,
+    });
+    const flipped = encrypted.secrets!.ciphertext.replace(/^./, (c) =>
+      c === "0" ? "1" : "0"
+    );
+
+    await expect(
+      decryptSecrets(
+        {
+          ...encrypted,
+          secrets: { ...encrypted.secrets!, ciphertext: flipped },
+        },
+        "correct horse"
+      )
+    ).rejects.toThrow("Wallet file has been tampered with");
+    // The clear part is authenticated along with the secrets
+    await expect(
+      decryptSecrets({ ...encrypted, requiredSignatures: 1 }, "correct horse")
+    ).rejects.toThrow("Wallet file has been tampered with");
+    await expect(
+      decryptSecrets(
+        {
+          ...encrypted,
+          secrets: { ...encrypted.secrets!, keyCheck: "00".repeat(32) },
+        },
+        "correct horse"
+      )
+    ).rejects.toThrow("Wallet file has been tampered with");
+  });
+
+  it("should reject out-of-range key derivation settings", async () => {
+    const encrypted = await encryptSecrets(file, secrets, "correct horse", {
+      algorithm: "pbkdf2",
+      pbkdf2Iterations: 1000,
+    });
+    const withKdf = (kdf: object) =>
+      ({
+        ...encrypted,
+        secrets: {
+          ...encrypted.secrets!,
+          kdf: { ...encrypted.secrets!.kdf, ...kdf },
+        },
+      }) as WalletFile;
+
+    const hostile = withKdf({ iterations: 1e12 });
+    expect(() => parseWalletFile(JSON.stringify(hostile))).toThrow(
+      "Invalid key derivation settings"
+    );
+    await expect(decryptSecrets(hostile, "correct horse")).rejects.toThrow(
+      "Invalid key derivation settings"
+    );
+    [
+      withKdf({ algorithm: "argon2" }),
+      withKdf({ digest: "md5" }),
+      withKdf({ salt: "00" }),
+      withKdf({ algorithm: "scrypt", N: 1000, r: 8, p: 1 }),
+      withKdf({ algorithm: "scrypt", N: 1 << 20, r: 16, p: 1 }),
+    ].forEach((tampered) =>
+      expect(() => parseWalletFile(JSON.stringify(tampered))).toThrow(
+        "Invalid key derivation settings"
+      )
+    );
+    expect(() =>
+      parseWalletFile(
+        JSON.stringify({
+          ...encrypted,
+          secrets: { ...encrypted.secrets!, tag: "zz" },
+        })
+      )
+    ).toThrow("Invalid wallet file");
+  });
+
+  it("should reject malformed files and unknown versions", () => {
+    expect(() => parseWalletFile("{")).toThrow("Invalid wallet file");
+    expect(() =>
+      parseWalletFile(JSON.stringify({ ...file, version: 2 }))
+    ).toThrow("Unsupported wallet file version: 2");
+    expect(() =>
+      parseWalletFile(JSON.stringify({ ...file, cosigners: undefined }))
+    ).toThrow("Invalid wallet file");
+  });
+
+  it("should reject malformed indexes and cosigners", () => {
+    const cosigner = {
+      xpub: "tpubD6NzVbkrYhZ4XgiXtGrdW5XDAPFCL9h7we1vwNCpn8tGbBcgfVYjXyhWo4E1xkh56hjod1RhGjxbaTLV3X4FyWuejifB9jusQ46QzG87VKp",
+      masterFingerprint: "d34db33f",
+      path: "m/48'/1'/0'/2'",
+      publicKey: "02" + "11".repeat(32),
+    };
+    expect(
+      parseWalletFile(JSON.stringify({ ...file, cosigners: [cosigner] }))
+        .cosigners
+    ).toEqual([cosigner]);
+
+    [
+      { lastUsedIndex: ["x", -1] },
+      { lastUsedIndex: [-2, -1] },
+      { nextIndex: [0, -1] },
+      { nextIndex: [0] },
+      { nextIndex: [0, 1.5] },
+      { cosigners: [{ ...cosigner, xpub: undefined }] },
+      { cosigners: [{ ...cosigner, masterFingerprint: "d34db3" }] },
+      { cosigners: [{ ...cosigner, path: 48 }] },
+      { cosigners: [{ ...cosigner, publicKey: "02" }] },
+      { cosigners: [null] },
+    ].forEach((change) =>
+      expect(() =>
+        parseWalletFile(JSON.stringify({ ...file, ...change }))
+      ).toThrow("Invalid wallet file")
+    );
+  });
+});
@@ -0,0 +1,394 @@
+import * as crypto from "node:crypto";
+import { promises as fs } from "node:fs";
+import { promisify } from "node:util";
+
+// Versioned JSON wallet files: the wallet's configuration, public keys and
+// address indexes in clear so a watch-only view opens without the
+// passphrase, and its secrets encrypted with AES-256-GCM under a key
+// derived from the passphrase with scrypt or PBKDF2.
+
+export const WALLET_FILE_VERSION = 1;
+
+/**
+ * Passphrase key derivation functions
+ */
+export type KdfAlgorithm = "scrypt" | "pbkdf2";
+
+/* The `KdfParams` type records how the encryption key was derived:
+    1. scrypt with cost N, block size r and parallelization p, or
+    2. PBKDF2-HMAC-SHA512 with the iteration count
+   Both use a random hex salt.
+*/
+export type KdfParams =
+  | { algorithm: "scrypt"; salt: string; N: number; r: number; p: number }
+  | { algorithm: "pbkdf2"; salt: string; iterations: number; digest: "sha512" };
+
+/* The `EncryptedSecrets` interface holds the encrypted part of a wallet
+   file, all binary fields hex encoded:
+    1. kdf: KdfParams - Key derivation settings
+    2. keyCheck: string - Hash of the derived key, telling a wrong
+       passphrase apart from a tampered file
+    3. iv: string - 96-bit AES-GCM nonce
+    4. ciphertext: string - The encrypted secrets
+    5. tag: string - AES-GCM authentication tag, covering the clear part of
+       the wallet file and the key derivation settings as additional data
+*/
+export interface EncryptedSecrets {
+  kdf: KdfParams;
+  keyCheck: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+/* The `WalletFileCosigner` interface describes one signer in clear:
+    1. xpub: string - Account extended public key
+    2. masterFingerprint: string - Hex fingerprint of the master key
+    3. path: string - Account derivation path
+    4. publicKey: string - Hex account public key
+*/
+export interface WalletFileCosigner {
+  xpub: string;
+  masterFingerprint: string;
+  path: string;
+  publicKey: string;
+}
+
+/* The `WalletFileSecret` interface holds one signer's secrets, which are
+   only ever written encrypted:
+    1. mnemonic: string - BIP39 mnemonic phrase
+    2. privateKey: string - Hex account private key
+    3. passphrase: string - BIP39 passphrase protecting the seed
+*/
+export interface WalletFileSecret {
+  mnemonic: string;
+  privateKey: string;
+  passphrase?: string;
+}
+
+/* The `WalletFile` interface is the JSON content of a wallet file:
+    1. version: number - File format version
+    2. network: string - bitcoin, testnet, signet or regtest
+    3. requiredSignatures: number - Signatures required (m)
+    4. totalSigners: number - Total signers (n)
+    5. policy: string - Spending policy in place of the m-of-n pair
+    6. derivationPath: string - Account derivation path of every signer
+    7. gapLimit: number - Maximum consecutive unused addresses
+    8. cosigners: WalletFileCosigner[] - Public keys of every signer
+    9. lastUsedIndex: number[] - Highest used index per address chain
+    10. nextIndex: number[] - Next index to hand out per address chain
+    11. mnemonicWords: number - Length of generated mnemonics
+    12. language: string - BIP39 wordlist of the mnemonics
+    13. secrets: EncryptedSecrets - Encrypted WalletFileSecret per signer,
+        absent for watch-only wallets
+*/
+export interface WalletFile {
+  version: number;
+  network: string;
+  requiredSignatures: number;
+  totalSigners: number;
+  policy?: string;
+  derivationPath: string;
+  gapLimit: number;
+  cosigners: WalletFileCosigner[];
+  lastUsedIndex: number[];
+  nextIndex: number[];
+  mnemonicWords?: number;
+  language?: string;
+  secrets?: EncryptedSecrets;
+}
+
+/**
+ * Key derivation settings for encryptSecrets
+ * @property algorithm - scrypt (default) or pbkdf2
+ * @property scryptCost - scrypt cost parameter N, a power of two
+ * @property pbkdf2Iterations - PBKDF2 iteration count
+ */
+export interface KdfOptions {
+  algorithm?: KdfAlgorithm;
+  scryptCost?: number;
+  pbkdf2Iterations?: number;
+}
+
+const KEY_SIZE = 32;
+const IV_SIZE = 12;
+const SALT_SIZE = 16;
+const DEFAULT_SCRYPT_COST = 1 << 15;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+// OWASP's recommendation for PBKDF2-HMAC-SHA512
+const DEFAULT_PBKDF2_ITERATIONS = 210000;
+// Upper bounds keeping a corrupt or hostile file from hanging the reader
+const MAX_SCRYPT_MEMORY = 1 << 30;
+const MAX_SCRYPT_PARALLELIZATION = 16;
+const MAX_PBKDF2_ITERATIONS = 5000000;
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+function isHex(value: unknown, size?: number): value is string {
+  return (
+    typeof value === "string" &&
+    /^([0-9a-f]{2})+$/.test(value) &&
+    (size === undefined || value.length === size * 2)
+  );
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return (
+    Number.isInteger(value) && Number(value) >= min && Number(value) <= max
+  );
+}
+
+/**
+ * Checks that an address index array holds one index per chain
+ * @param min - Smallest index allowed, -1 for unused chains
+ */
+function isIndexPair(value: unknown, min: number): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((index) => isIntegerInRange(index, min, 0x7fffffff))
+  );
+}
+
+function isCosigner(value: unknown): boolean {
+  const cosigner = (value || {}) as Record<string, unknown>;
+  return (
+    typeof cosigner.xpub === "string" &&
+    isHex(cosigner.masterFingerprint, 4) &&
+    typeof cosigner.path === "string" &&
+    isHex(cosigner.publicKey, 33)
+  );
+}
+
+/**
+ * Checks key derivation settings, bounding their cost
+ * @throws If the algorithm is unknown or a parameter is out of range
+ */
+function validateKdfParams(data: unknown): void {
+  const kdf = (data || {}) as Record<string, unknown>;
+  const valid =
+    isHex(kdf.salt, SALT_SIZE) &&
+    (kdf.algorithm === "scrypt"
+      ? isIntegerInRange(kdf.N, 2, MAX_SCRYPT_MEMORY / 128) &&
+        (Number(kdf.N) & (Number(kdf.N) - 1)) === 0 &&
+        isIntegerInRange(kdf.r, 1, MAX_SCRYPT_MEMORY / 128) &&
+        // scrypt needs 128 * N * r bytes
+        128 * Number(kdf.N) * Number(kdf.r) <= MAX_SCRYPT_MEMORY &&
+        isIntegerInRange(kdf.p, 1, MAX_SCRYPT_PARALLELIZATION)
+      : kdf.algorithm === "pbkdf2" &&
+        isIntegerInRange(kdf.iterations, 1, MAX_PBKDF2_ITERATIONS) &&
+        kdf.digest === "sha512");
+  if (!valid) {
+    throw new Error("Invalid key derivation settings");
+  }
+}
+
+async function deriveKey(passphrase: string, kdf: KdfParams): Promise<Buffer> {
+  validateKdfParams(kdf);
+  const salt = Buffer.from(kdf.salt, "hex");
+  if (kdf.algorithm === "scrypt") {
+    return scrypt(passphrase, salt, KEY_SIZE, {
+      N: kdf.N,
+      r: kdf.r,
+      p: kdf.p,
+      // Node's 32 MiB default is just below what N = 2^15, r = 8 needs
+      maxmem: 256 * kdf.N * kdf.r,
+    });
+  }
+  if (kdf.algorithm === "pbkdf2") {
+    return pbkdf2(passphrase, salt, kdf.iterations, KEY_SIZE, kdf.digest);
+  }
+  throw new Error("Unsupported key derivation function");
+}
+
+function keyCheck(key: Buffer): string {
+  return crypto
+    .createHash("sha256")
+    .update("wallet-file-key-check")
+    .update(key)
+    .digest("hex");
+}
+
+/**
+ * The clear part of a wallet file and the key derivation settings,
+ * authenticated along with the secrets
+ */
+function getAdditionalData(file: WalletFile, kdf: KdfParams): Buffer {
+  const { secrets, ...clear } = file;
+  return Buffer.from(JSON.stringify({ ...clear, kdf }));
+}
+
+/**
+ * Encrypts the signers' secrets into a wallet file
+ * @param file - Wallet file without secrets
+ * @param secrets - Secrets of each signer
+ * @param passphrase - Passphrase the encryption key is derived from
+ * @param options - Key derivation function and cost
+ * @returns The wallet file including the encrypted secrets
+ */
+export async function encryptSecrets(
+  file: WalletFile,
+  secrets: WalletFileSecret[],
+  passphrase: string,
+  options: KdfOptions = {}
+): Promise<WalletFile> {
+  if (!passphrase) {
+    throw new Error("Passphrase cannot be empty");
+  }
+  const salt = crypto.randomBytes(SALT_SIZE).toString("hex");
+  const kdf: KdfParams =
+    options.algorithm === "pbkdf2"
+      ? {
+          algorithm: "pbkdf2",
+          salt,
+          iterations: options.pbkdf2Iterations ?? DEFAULT_PBKDF2_ITERATIONS,
+          digest: "sha512",
+        }
+      : {
+          algorithm: "scrypt",
+          salt,
+          N: options.scryptCost ?? DEFAULT_SCRYPT_COST,
+          r: SCRYPT_BLOCK_SIZE,
+          p: SCRYPT_PARALLELIZATION,
+        };
+  const key = await deriveKey(passphrase, kdf);
+
+  const iv = crypto.randomBytes(IV_SIZE);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(getAdditionalData(file, kdf));
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), "utf8"),
+    cipher.final(),
+  ]);
+
+  return {
+    ...file,
+    secrets: {
+      kdf,
+      keyCheck: keyCheck(key),
+      iv: iv.toString("hex"),
+      ciphertext: ciphertext.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+    },
+  };
+}
+
+/**
+ * Decrypts the signers' secrets of a wallet file
+ * @throws On a wrong passphrase, or when the secrets or the clear part of
+ *   the file were modified
+ */
+export async function decryptSecrets(
+  file: WalletFile,
+  passphrase: string
+): Promise<WalletFileSecret[]> {
+  if (!file.secrets) {
+    throw new Error("Wallet file has no encrypted secrets");
+  }
+  const { kdf, iv, ciphertext, tag } = file.secrets;
+  const key = await deriveKey(passphrase, kdf);
+  const keyMatches = keyCheck(key) === file.secrets.keyCheck;
+
+  let plaintext: Buffer;
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(iv, "hex")
+    );
+    decipher.setAAD(getAdditionalData(file, kdf));
+    decipher.setAuthTag(Buffer.from(tag, "hex"));
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "hex")),
+      decipher.final(),
+    ]);
+  } catch (error) {
+    // A passing key check means the passphrase is right and the file was
+    // modified. Settings modified to derive another key still read as a
+    // wrong passphrase.
+    throw new Error(
+      keyMatches ? "Wallet file has been tampered with" : "Wrong passphrase"
+    );
+  }
+  if (!keyMatches) {
+    throw new Error("Wallet file has been tampered with");
+  }
+  return JSON.parse(plaintext.toString("utf8"));
+}
+
+/**
+ * Checks the structure and version of parsed wallet file JSON
+ * @throws If it is not a wallet file this version can read
+ */
+export function validateWalletFile(data: unknown): WalletFile {
+  if (!data || typeof data !== "object") {
+    throw new Error("Invalid wallet file");
+  }
+  const file = data as Record<string, unknown>;
+  if (file.version !== WALLET_FILE_VERSION) {
+    throw new Error(`Unsupported wallet file version: ${file.version}`);
+  }
+  if (
+    typeof file.network !== "string" ||
+    !Number.isInteger(file.requiredSignatures) ||
+    !Number.isInteger(file.totalSigners) ||
+    typeof file.derivationPath !== "string" ||
+    !Number.isInteger(file.gapLimit) ||
+    !Array.isArray(file.cosigners) ||
+    !file.cosigners.every(isCosigner) ||
+    !isIndexPair(file.lastUsedIndex, -1) ||
+    !isIndexPair(file.nextIndex, 0)
+  ) {
+    throw new Error("Invalid wallet file");
+  }
+  if (file.secrets !== undefined) {
+    const secrets = (file.secrets || {}) as Record<string, unknown>;
+    if (
+      !isHex(secrets.keyCheck, 32) ||
+      !isHex(secrets.iv, IV_SIZE) ||
+      !isHex(secrets.ciphertext) ||
+      !isHex(secrets.tag, 16)
+    ) {
+      throw new Error("Invalid wallet file");
+    }
+    validateKdfParams(secrets.kdf);
+  }
+  return data as WalletFile;
+}
+
+/**
+ * Writes a wallet file, readable and writable by the owner only
+ */
+export async function writeWalletFile(
+  path: string,
+  file: WalletFile
+): Promise<void> {
+  await fs.writeFile(path, JSON.stringify(file, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Parses and validates wallet file JSON
+ */
+export function parseWalletFile(json: string): WalletFile {
+  let data;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error("Invalid wallet file");
+  }
+  return validateWalletFile(data);
+}
+
+/**
+ * Reads and validates a wallet file
+ */
+export async function readWalletFile(path: string): Promise<WalletFile> {
+  return parseWalletFile(await fs.readFile(path, "utf8"));
+}